@@ -9,6 +9,10 @@ import {
   csrfTokenMiddleware,
 } from "./middleware/csrf";
 import { registerRoutes } from "./routes";
+import { startDnsResponder } from "./services/endpoints/dnsResponder";
+import { startShellJob } from "./services/endpoints/shellListenerService";
+import { startPlatformSyncJob } from "./services/platforms/platformSyncService";
+import { attachWebSocketServer } from "./services/realtime/websocketServer";
 import { info } from "./utils/logger";
 import httpLogger from "./utils/logger/httpLogger";
 
@@ -27,13 +31,32 @@ const corsOptions = {
 
 info(`Origines CORS autorisées: ${config.corsOrigins.join(", ")}`);
 
-app.use(cors(corsOptions));
+// Les request catchers (/c/...) sont publics et lisent eux-mêmes le corps
+// brut. Ils renvoient les en-têtes configurés sur l'endpoint : ni CORS ni
+// helmet (CORP, CSP...) ne s'appliquent, et les requêtes OPTIONS des cibles
+// sont capturées comme les autres.
+const isCatcherRequest = (req: express.Request) => req.path.startsWith("/c/");
 
-app.use(express.json());
-app.use(express.urlencoded({ extended: true }));
+const corsMiddleware = cors(corsOptions);
+app.use((req, res, next) =>
+  isCatcherRequest(req) ? next() : corsMiddleware(req, res, next)
+);
+
+const jsonParser = express.json();
+const urlencodedParser = express.urlencoded({ extended: true });
+
+app.use((req, res, next) =>
+  isCatcherRequest(req) ? next() : jsonParser(req, res, next)
+);
+app.use((req, res, next) =>
+  isCatcherRequest(req) ? next() : urlencodedParser(req, res, next)
+);
 app.use(cookieParser());
 
-app.use(helmet());
+const helmetMiddleware = helmet();
+app.use((req, res, next) =>
+  isCatcherRequest(req) ? next() : helmetMiddleware(req, res, next)
+);
 
 const limiter = rateLimit({
   windowMs: 15 * 60 * 1000, // 15 minutes
@@ -49,13 +72,18 @@ const limiter = rateLimit({
       req.ip || forwardedIp || req.socket.remoteAddress || "unknown-ip";
     return ip;
   },
-  skip: (req, res) => req.method === "OPTIONS",
+  skip: (req, res) => req.method === "OPTIONS" || isCatcherRequest(req),
 });
 app.use(limiter);
-app.use(csrfTokenMiddleware);
+app.use((req, res, next) =>
+  isCatcherRequest(req) ? next() : csrfTokenMiddleware(req, res, next)
+);
 
 app.use((req, res, next) => {
-  if (!["GET", "HEAD", "OPTIONS"].includes(req.method)) {
+  if (
+    !["GET", "HEAD", "OPTIONS"].includes(req.method) &&
+    !isCatcherRequest(req)
+  ) {
     return csrfProtectionMiddleware(req, res, next);
   }
   next();
@@ -67,6 +95,11 @@ app.get("/", (req, res) => {
   res.json({ message: "Bienvenue sur l'API FlagHive" });
 });
 
-app.listen(PORT, () => {
+const server = app.listen(PORT, () => {
   info(`Serveur démarré sur http://localhost:${PORT}`);
+  startPlatformSyncJob();
+  startShellJob();
+  startDnsResponder();
 });
+
+attachWebSocketServer(server);
@@ -0,0 +1,112 @@
+import { beforeEach, describe, expect, mock, test } from "bun:test";
+import * as crypto from "crypto";
+import type { NextFunction, Request, Response } from "express";
+
+const VALID_TOKEN = "fhp_valide";
+
+const prisma = {
+  apiToken: {
+    findUnique: mock(async ({ where }: { where: { tokenHash: string } }) =>
+      where.tokenHash ===
+      crypto.createHash("sha256").update(VALID_TOKEN).digest("hex")
+        ? {
+            id: "token-1",
+            scopes: ["read"],
+            expiresAt: null,
+            lastUsedAt: new Date(),
+            user: {
+              id: "user-1",
+              username: "alice",
+              email: "alice@example.com",
+              role: "USER",
+              active: true,
+            },
+          }
+        : null
+    ),
+    update: mock(async () => ({})),
+  },
+};
+
+mock.module("../prisma/client", () => ({ prisma, default: prisma }));
+
+const { csrfProtectionMiddleware } = await import("./csrf");
+
+const buildRequest = (authorization?: string) =>
+  ({
+    method: "POST",
+    headers: authorization ? { authorization } : {},
+    cookies: {},
+    body: {},
+  }) as unknown as Request;
+
+const buildResponse = () => {
+  const res = {
+    statusCode: 200,
+    payload: undefined as unknown,
+    status(code: number) {
+      res.statusCode = code;
+      return res;
+    },
+    json(payload: unknown) {
+      res.payload = payload;
+      return res;
+    },
+  };
+  return res;
+};
+
+describe("csrfProtectionMiddleware", () => {
+  let next: NextFunction;
+
+  beforeEach(() => {
+    next = mock(() => {}) as unknown as NextFunction;
+    prisma.apiToken.findUnique.mockClear();
+  });
+
+  test("dispense de la vérification CSRF un token d'API valide", async () => {
+    const req = buildRequest(`Bearer ${VALID_TOKEN}`);
+    const res = buildResponse();
+
+    await csrfProtectionMiddleware(req, res as unknown as Response, next);
+
+    expect(next).toHaveBeenCalledTimes(1);
+    expect(res.statusCode).toBe(200);
+    // Le token vérifié est conservé pour authenticateJWT
+    expect(req.verifiedApiToken?.tokenId).toBe("token-1");
+    expect(req.verifiedApiToken?.user.userId).toBe("user-1");
+  });
+
+  test("applique la vérification CSRF à un token d'API invalide", async () => {
+    const req = buildRequest("Bearer fhp_invente");
+    const res = buildResponse();
+
+    await csrfProtectionMiddleware(req, res as unknown as Response, next);
+
+    expect(next).not.toHaveBeenCalled();
+    expect(res.statusCode).toBe(403);
+    expect(req.verifiedApiToken).toBeUndefined();
+  });
+
+  test("refuse une requête sans token d'API ni token CSRF", async () => {
+    const req = buildRequest();
+    const res = buildResponse();
+
+    await csrfProtectionMiddleware(req, res as unknown as Response, next);
+
+    expect(next).not.toHaveBeenCalled();
+    expect(res.statusCode).toBe(403);
+    expect(prisma.apiToken.findUnique).not.toHaveBeenCalled();
+  });
+
+  test("n'accepte pas un JWT comme token d'API", async () => {
+    const req = buildRequest("Bearer eyJhbGciOiJIUzI1NiJ9.e30.signature");
+    const res = buildResponse();
+
+    await csrfProtectionMiddleware(req, res as unknown as Response, next);
+
+    expect(next).not.toHaveBeenCalled();
+    expect(res.statusCode).toBe(403);
+    expect(prisma.apiToken.findUnique).not.toHaveBeenCalled();
+  });
+});
@@ -1,6 +1,10 @@
 import { doubleCsrf } from "csrf-csrf";
 import type { Request, Response, NextFunction } from "express";
 import config from "../config/config";
+import {
+  getRequestApiToken,
+  verifyApiToken,
+} from "../services/apiTokenService";
 
 // Configuration CSRF
 const csrfUtils = doubleCsrf({
@@ -32,14 +36,36 @@ export const csrfTokenMiddleware = (
 /**
  * Middleware pour la protection CSRF
  * À appliquer sur toutes les routes non-GET qui modifient des données
+ *
+ * Les requêtes authentifiées par un token d'API valide n'en ont pas besoin :
+ * un navigateur ne peut pas ajouter l'en-tête Authorization à une requête
+ * cross-origin, et authenticateJWT utilise alors le token plutôt que le
+ * cookie. Le token est vérifié ici : un en-tête quelconque au bon préfixe ne
+ * dispense pas de la protection les routes qui se fient au cookie, comme
+ * /auth/refresh ou /auth/logout.
  */
-export const csrfProtectionMiddleware = (
+export const csrfProtectionMiddleware = async (
   req: Request,
   res: Response,
   next: NextFunction
 ) => {
+  const apiToken = getRequestApiToken(req);
+  if (apiToken) {
+    try {
+      // Conservé pour authenticateJWT, qui n'a pas à le vérifier à nouveau
+      req.verifiedApiToken = await verifyApiToken(apiToken);
+      return next();
+    } catch {
+      // Token invalide : la validation CSRF s'applique normalement
+    }
+  }
+
   try {
-    csrfUtils.validateRequest(req);
+    // validateRequest renvoie false (sans lever d'erreur) si le token manque
+    // ou ne correspond pas au cookie
+    if (!csrfUtils.validateRequest(req)) {
+      throw new Error("Token CSRF absent ou invalide");
+    }
     next();
   } catch (error) {
     res.status(403).json({
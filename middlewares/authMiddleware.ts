@@ -1,5 +1,11 @@
 import type { NextFunction, Request, Response } from "express";
-import { jwtCookieConfig, verifyJWT } from "../services/authService";
+import {
+  getRequestApiToken,
+  isRequestAllowedByScopes,
+  verifyApiToken,
+} from "../services/apiTokenService";
+import { jwtCookieConfig, verifyAccessToken } from "../services/authService";
+import { isTwoFactorSetupRequired } from "../services/twoFactorService";
 
 // Étend l'interface Request pour inclure l'utilisateur
 declare global {
@@ -10,19 +16,89 @@ declare global {
         username: string;
         email: string;
         role: string;
+        // Session de connexion, ou token d'API pour les scripts
+        sessionId?: string;
+        apiTokenId?: string;
       };
+      // Token d'API déjà vérifié par la protection CSRF
+      verifiedApiToken?: Awaited<ReturnType<typeof verifyApiToken>>;
     }
   }
 }
 
 /**
- * Middleware pour vérifier le JWT et ajouter l'utilisateur à la requête
+ * Bloque les membres d'une équipe qui exige la double authentification tant
+ * qu'ils ne l'ont pas activée. Les routes d'authentification restent
+ * accessibles pour permettre l'enrôlement.
+ */
+const checkTwoFactorRequirement = async (
+  req: Request,
+  res: Response,
+  next: NextFunction,
+  userId: string
+) => {
+  if (req.originalUrl.startsWith("/api/v1/auth/")) {
+    return next();
+  }
+
+  try {
+    if (await isTwoFactorSetupRequired(userId)) {
+      return res.status(403).json({
+        message:
+          "Une de vos équipes exige la double authentification : activez-la pour continuer",
+      });
+    }
+  } catch (error) {
+    return next(error);
+  }
+
+  next();
+};
+
+/**
+ * Authentifie une requête par un token d'API personnel, limité à ses portées
+ */
+const authenticateApiToken = async (
+  req: Request,
+  res: Response,
+  next: NextFunction,
+  token: string
+) => {
+  let apiToken: Awaited<ReturnType<typeof verifyApiToken>>;
+
+  try {
+    apiToken = req.verifiedApiToken || (await verifyApiToken(token));
+  } catch (error) {
+    return res.status(401).json({ message: "Token invalide ou expiré" });
+  }
+
+  const path = req.originalUrl.split("?")[0].replace(/^\/api\/v1/, "");
+
+  if (!isRequestAllowedByScopes(apiToken.scopes, req.method, path)) {
+    return res
+      .status(403)
+      .json({ message: "Portée du token d'API insuffisante" });
+  }
+
+  req.user = { ...apiToken.user, apiTokenId: apiToken.tokenId };
+  return checkTwoFactorRequirement(req, res, next, apiToken.user.userId);
+};
+
+/**
+ * Middleware pour vérifier le JWT et sa session, ou un token d'API personnel,
+ * et ajouter l'utilisateur à la requête
  */
 export const authenticateJWT = async (
   req: Request,
   res: Response,
   next: NextFunction
 ) => {
+  // Un token d'API explicite prime sur le cookie de session
+  const apiToken = getRequestApiToken(req);
+  if (apiToken) {
+    return authenticateApiToken(req, res, next, apiToken);
+  }
+
   const token = req.cookies[jwtCookieConfig.name];
 
   // Si j'ai pas de token dans le cookie, vérifier l'en-tête Authorization
@@ -41,12 +117,12 @@ export const authenticateJWT = async (
   }
 
   try {
-    const payload = await verifyJWT(jwtToken);
-    req.user = payload;
-    next();
+    req.user = await verifyAccessToken(jwtToken);
   } catch (error) {
     return res.status(401).json({ message: "Token invalide ou expiré" });
   }
+
+  return checkTwoFactorRequirement(req, res, next, req.user.userId);
 };
 
 /**
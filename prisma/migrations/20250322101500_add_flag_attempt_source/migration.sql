@@ -0,0 +1,5 @@
+-- CreateEnum
+CREATE TYPE "FlagAttemptSource" AS ENUM ('FLAGHIVE', 'CTFD_SYNC');
+
+-- AlterTable
+ALTER TABLE "FlagAttempt" ADD COLUMN     "source" "FlagAttemptSource" NOT NULL DEFAULT 'FLAGHIVE';
@@ -0,0 +1,5 @@
+-- CreateEnum
+CREATE TYPE "FlagVerdict" AS ENUM ('CORRECT', 'INCORRECT', 'ALREADY_SOLVED', 'RATELIMITED', 'PAUSED');
+
+-- AlterTable
+ALTER TABLE "FlagAttempt" ADD COLUMN     "verdict" "FlagVerdict";
@@ -0,0 +1,13 @@
+-- CreateEnum
+CREATE TYPE "CtfPlatform" AS ENUM ('CTFD', 'RCTF');
+
+-- AlterTable
+ALTER TABLE "Event" RENAME COLUMN "ctfdUrl" TO "platformUrl";
+ALTER TABLE "Event" RENAME COLUMN "ctfdApiKey" TO "platformApiKey";
+ALTER TABLE "Event" ADD COLUMN     "platform" "CtfPlatform";
+
+-- Les événements existants configurés sont des événements CTFd
+UPDATE "Event" SET "platform" = 'CTFD' WHERE "platformUrl" IS NOT NULL;
+
+-- AlterEnum
+ALTER TYPE "FlagAttemptSource" RENAME VALUE 'CTFD_SYNC' TO 'PLATFORM_SYNC';
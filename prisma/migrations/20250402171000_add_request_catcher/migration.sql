@@ -0,0 +1,16 @@
+-- AlterTable
+ALTER TABLE "Endpoint" ADD COLUMN     "responseBody" TEXT,
+ADD COLUMN     "responseHeaders" JSONB,
+ADD COLUMN     "responseStatus" INTEGER NOT NULL DEFAULT 200;
+
+-- AlterTable
+ALTER TABLE "Request" ADD COLUMN     "path" TEXT NOT NULL DEFAULT '/';
+
+-- CreateIndex
+CREATE INDEX "Endpoint_teamId_idx" ON "Endpoint"("teamId");
+
+-- CreateIndex
+CREATE INDEX "Request_endpointId_createdAt_idx" ON "Request"("endpointId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "Endpoint" ADD CONSTRAINT "Endpoint_teamId_fkey" FOREIGN KEY ("teamId") REFERENCES "Team"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,20 @@
+-- CreateTable
+CREATE TABLE "EndpointRuleSet" (
+    "id" TEXT NOT NULL,
+    "version" INTEGER NOT NULL,
+    "rules" JSONB NOT NULL,
+    "endpointId" TEXT NOT NULL,
+    "authorId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "EndpointRuleSet_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "EndpointRuleSet_endpointId_version_key" ON "EndpointRuleSet"("endpointId", "version");
+
+-- AddForeignKey
+ALTER TABLE "EndpointRuleSet" ADD CONSTRAINT "EndpointRuleSet_endpointId_fkey" FOREIGN KEY ("endpointId") REFERENCES "Endpoint"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "EndpointRuleSet" ADD CONSTRAINT "EndpointRuleSet_authorId_fkey" FOREIGN KEY ("authorId") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
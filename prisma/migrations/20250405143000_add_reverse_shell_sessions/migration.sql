@@ -0,0 +1,43 @@
+-- CreateEnum
+CREATE TYPE "ShellDirection" AS ENUM ('INPUT', 'OUTPUT');
+
+-- AlterTable
+ALTER TABLE "Endpoint" ADD COLUMN     "port" INTEGER;
+
+-- CreateTable
+CREATE TABLE "ShellSession" (
+    "id" TEXT NOT NULL,
+    "endpointId" TEXT NOT NULL,
+    "remoteAddress" TEXT,
+    "startedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "endedAt" TIMESTAMP(3),
+
+    CONSTRAINT "ShellSession_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ShellChunk" (
+    "id" TEXT NOT NULL,
+    "sessionId" TEXT NOT NULL,
+    "direction" "ShellDirection" NOT NULL,
+    "data" TEXT NOT NULL,
+    "userId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ShellChunk_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ShellSession_endpointId_idx" ON "ShellSession"("endpointId");
+
+-- CreateIndex
+CREATE INDEX "ShellChunk_sessionId_createdAt_idx" ON "ShellChunk"("sessionId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "ShellSession" ADD CONSTRAINT "ShellSession_endpointId_fkey" FOREIGN KEY ("endpointId") REFERENCES "Endpoint"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ShellChunk" ADD CONSTRAINT "ShellChunk_sessionId_fkey" FOREIGN KEY ("sessionId") REFERENCES "ShellSession"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ShellChunk" ADD CONSTRAINT "ShellChunk_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,24 @@
+-- CreateTable
+CREATE TABLE "RequestReplay" (
+    "id" TEXT NOT NULL,
+    "requestId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "targetUrl" TEXT NOT NULL,
+    "responseStatus" INTEGER,
+    "responseHeaders" JSONB,
+    "responseBody" TEXT,
+    "error" TEXT,
+    "durationMs" INTEGER NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "RequestReplay_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "RequestReplay_requestId_idx" ON "RequestReplay"("requestId");
+
+-- AddForeignKey
+ALTER TABLE "RequestReplay" ADD CONSTRAINT "RequestReplay_requestId_fkey" FOREIGN KEY ("requestId") REFERENCES "Request"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "RequestReplay" ADD CONSTRAINT "RequestReplay_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
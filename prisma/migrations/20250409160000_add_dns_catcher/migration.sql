@@ -0,0 +1,22 @@
+-- AlterEnum
+ALTER TYPE "EndpointType" ADD VALUE 'DNS_CATCHER';
+
+-- CreateTable
+CREATE TABLE "DnsQuery" (
+    "id" TEXT NOT NULL,
+    "endpointId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "resolverIp" TEXT,
+    "protocol" TEXT NOT NULL,
+    "decoded" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "DnsQuery_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "DnsQuery_endpointId_createdAt_idx" ON "DnsQuery"("endpointId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "DnsQuery" ADD CONSTRAINT "DnsQuery_endpointId_fkey" FOREIGN KEY ("endpointId") REFERENCES "Endpoint"("id") ON DELETE CASCADE ON UPDATE CASCADE;
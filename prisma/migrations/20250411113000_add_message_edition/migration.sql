@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "Message" ADD COLUMN     "editedAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "Message_teamId_createdAt_idx" ON "Message"("teamId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "Message_challengeId_createdAt_idx" ON "Message"("challengeId", "createdAt");
@@ -0,0 +1,25 @@
+-- CreateTable
+CREATE TABLE "NoteRevision" (
+    "id" TEXT NOT NULL,
+    "noteId" TEXT NOT NULL,
+    "version" INTEGER NOT NULL,
+    "content" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "restoredFromVersion" INTEGER,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "NoteRevision_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "NoteRevision_noteId_version_key" ON "NoteRevision"("noteId", "version");
+
+-- AddForeignKey
+ALTER TABLE "NoteRevision" ADD CONSTRAINT "NoteRevision_noteId_fkey" FOREIGN KEY ("noteId") REFERENCES "Note"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "NoteRevision" ADD CONSTRAINT "NoteRevision_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Les notes existantes reçoivent leur contenu actuel comme première révision
+INSERT INTO "NoteRevision" ("id", "noteId", "version", "content", "userId", "createdAt")
+SELECT gen_random_uuid()::text, "id", 1, "content", "userId", "updatedAt" FROM "Note";
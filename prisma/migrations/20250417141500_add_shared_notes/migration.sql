@@ -0,0 +1,17 @@
+-- AlterTable
+ALTER TABLE "Note" ADD COLUMN     "sharedChallengeId" TEXT;
+
+-- CreateTable
+CREATE TABLE "NoteCollabState" (
+    "noteId" TEXT NOT NULL,
+    "state" BYTEA NOT NULL,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "NoteCollabState_pkey" PRIMARY KEY ("noteId")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Note_sharedChallengeId_key" ON "Note"("sharedChallengeId");
+
+-- AddForeignKey
+ALTER TABLE "NoteCollabState" ADD CONSTRAINT "NoteCollabState_noteId_fkey" FOREIGN KEY ("noteId") REFERENCES "Note"("id") ON DELETE CASCADE ON UPDATE CASCADE;
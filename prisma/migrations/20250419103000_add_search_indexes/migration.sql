@@ -0,0 +1,14 @@
+-- Index plein texte de la recherche (services/search/searchService.ts).
+-- Les expressions doivent rester identiques à celles des requêtes.
+
+-- CreateIndex
+CREATE INDEX "Challenge_search_idx" ON "Challenge" USING GIN ((setweight(to_tsvector('simple', coalesce("name", '')), 'A') || setweight(to_tsvector('simple', coalesce("description", '')), 'B')));
+
+-- CreateIndex
+CREATE INDEX "Note_search_idx" ON "Note" USING GIN (to_tsvector('simple', "content"));
+
+-- CreateIndex
+CREATE INDEX "Message_search_idx" ON "Message" USING GIN (to_tsvector('simple', "content"));
+
+-- CreateIndex
+CREATE INDEX "Upload_search_idx" ON "Upload" USING GIN ((setweight(to_tsvector('simple', regexp_replace("filename", '[._-]+', ' ', 'g')), 'A') || setweight(to_tsvector('simple', coalesce("metadata"->>'tags', '')), 'B')));
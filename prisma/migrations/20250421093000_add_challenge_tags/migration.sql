@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "Challenge" ADD COLUMN     "tags" TEXT[] DEFAULT ARRAY[]::TEXT[];
+
+-- CreateIndex
+CREATE INDEX "Challenge_tags_idx" ON "Challenge" USING GIN ("tags");
@@ -0,0 +1,12 @@
+-- AlterTable
+ALTER TABLE "Event" ADD COLUMN     "platformTeamId" TEXT;
+
+-- AddForeignKey
+ALTER TABLE "Event" ADD CONSTRAINT "Event_platformTeamId_fkey" FOREIGN KEY ("platformTeamId") REFERENCES "Team"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Les identifiants d'un événement à une seule équipe sont ceux de cette équipe
+UPDATE "Event" e SET "platformTeamId" = (
+    SELECT et."teamId" FROM "EventTeam" et WHERE et."eventId" = e."id"
+)
+WHERE e."platformApiKey" IS NOT NULL
+  AND (SELECT count(*) FROM "EventTeam" et WHERE et."eventId" = e."id") = 1;
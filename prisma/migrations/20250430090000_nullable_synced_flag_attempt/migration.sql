@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "FlagAttempt" ALTER COLUMN "flagValue" DROP NOT NULL,
+ALTER COLUMN "userId" DROP NOT NULL;
+
+-- Les résolutions synchronisées n'ont ni flag ni auteur connus
+UPDATE "FlagAttempt" SET "flagValue" = NULL, "userId" = NULL WHERE "source" = 'PLATFORM_SYNC';
@@ -1,7 +1,9 @@
+import type { User } from "@prisma/client";
 import { UserRole } from "@prisma/client";
 import crypto from "crypto";
 import type { Request, Response } from "express";
 import express from "express";
+import { rateLimit } from "express-rate-limit";
 import {
   authenticateJWT,
   requireRole,
@@ -10,7 +12,18 @@ import { validate } from "../../../../middlewares/validationMiddleware";
 import {
   authenticateUser,
   clearJWTCookie,
+  clearRefreshTokenCookie,
+  completeTwoFactorLogin,
+  refreshTokenCookieConfig,
+  refreshUserSession,
 } from "../../../../services/authService";
+import type { SessionClient } from "../../../../services/sessionService";
+import {
+  getUserSessions,
+  revokeAllSessions,
+  revokeSession,
+  revokeSessionByRefreshToken,
+} from "../../../../services/sessionService";
 import {
   createUser,
   findUserByEmail,
@@ -21,11 +34,47 @@ import { sendError, sendSuccess } from "../../../../utils/responseHandler";
 import {
   loginSchema,
   registerSchema,
+  sessionIdSchema,
+  twoFactorLoginSchema,
 } from "../../../../validation/authValidation";
+import twoFactorRoutes from "./twoFactor";
 
 // Create router instance
 const router = express.Router();
 
+// Limite les essais de codes de double authentification
+const twoFactorLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000, // 15 minutes
+  limit: 10, // Limite chaque IP à 10 essais par fenêtre
+  standardHeaders: "draft-7",
+  legacyHeaders: false,
+  message: "Trop de tentatives, veuillez réessayer plus tard.",
+});
+
+/**
+ * Informations sur le client enregistrées avec sa session
+ */
+const getSessionClient = (req: Request): SessionClient => {
+  return {
+    userAgent: req.get("user-agent"),
+    ipAddress: req.ip,
+  };
+};
+
+/**
+ * Données publiques d'un utilisateur, sans mot de passe ni secret de double
+ * authentification
+ */
+const toPublicUser = (user: User) => {
+  const { hashedPassword, twoFactorSecret, twoFactorLastStep, ...publicUser } =
+    user;
+
+  return {
+    ...publicUser,
+    gravatarHash: getGravatarHash(user.email),
+  };
+};
+
 /**
  * @swagger
  * /api/v1/auth/register:
@@ -90,6 +139,12 @@ const router = express.Router();
  *                         gravatarHash:
  *                           type: string
  *                           description: Hash SHA-256 de l'email pour Gravatar
+ *                     twoFactorRequired:
+ *                       type: boolean
+ *                       description: Présent si un second facteur est attendu (user est alors absent)
+ *                     challengeToken:
+ *                       type: string
+ *                       description: Challenge valable 5 minutes pour la seconde étape
  *                 meta:
  *                   type: object
  *                   properties:
@@ -164,7 +219,7 @@ router.post(
  * /api/v1/auth/login:
  *   post:
  *     summary: Connexion d'un utilisateur
- *     description: Authentifie un utilisateur et définit un cookie JWT
+ *     description: Authentifie un utilisateur et définit un cookie JWT. Si la double authentification est activée, aucun cookie n'est défini - la réponse contient un challenge à compléter avec POST /api/v1/auth/login/2fa.
  *     tags: [Authentification]
  *     requestBody:
  *       required: true
@@ -239,7 +294,12 @@ router.post(
 
     try {
       // Authentification de l'utilisateur
-      const result = await authenticateUser(username, password, res);
+      const result = await authenticateUser(
+        username,
+        password,
+        getSessionClient(req),
+        res
+      );
 
       if (!result) {
         return sendError(
@@ -250,14 +310,18 @@ router.post(
         );
       }
 
-      const { user } = result;
+      const { user, twoFactorChallenge } = result;
 
-      const userWithGravatar = {
-        ...user,
-        gravatarHash: getGravatarHash(user.email),
-      };
+      if (twoFactorChallenge) {
+        return sendSuccess(res, "Code de double authentification requis", {
+          twoFactorRequired: true,
+          challengeToken: twoFactorChallenge,
+        });
+      }
 
-      return sendSuccess(res, "Connexion réussie", { user: userWithGravatar });
+      return sendSuccess(res, "Connexion réussie", {
+        user: toPublicUser(user),
+      });
     } catch (error) {
       logError(
         error instanceof Error ? error : new Error(String(error)),
@@ -273,12 +337,106 @@ router.post(
   }
 );
 
+/**
+ * @swagger
+ * /api/v1/auth/login/2fa:
+ *   post:
+ *     summary: Seconde étape de la connexion
+ *     description: Vérifie le code de double authentification (code à 6 chiffres de l'application ou code de secours, utilisable une seule fois) pour le challenge reçu à la connexion, puis définit les cookies de session
+ *     tags: [Authentification]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - challengeToken
+ *               - code
+ *             properties:
+ *               challengeToken:
+ *                 type: string
+ *                 description: Challenge renvoyé par POST /api/v1/auth/login
+ *               code:
+ *                 type: string
+ *                 description: Code TOTP ou code de secours
+ *                 example: "123456"
+ *     responses:
+ *       200:
+ *         description: Connexion réussie
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 message:
+ *                   type: string
+ *                   example: Connexion réussie
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     user:
+ *                       type: object
+ *       400:
+ *         description: Données d'entrée invalides
+ *       401:
+ *         description: Challenge invalide ou expiré, ou code incorrect
+ *       429:
+ *         description: Trop de tentatives
+ */
+router.post(
+  "/login/2fa",
+  twoFactorLimiter,
+  validate(twoFactorLoginSchema),
+  async (req: Request, res: Response) => {
+    const { challengeToken, code } = req.body;
+
+    try {
+      const { user } = await completeTwoFactorLogin(
+        challengeToken,
+        code,
+        getSessionClient(req),
+        res
+      );
+
+      return sendSuccess(res, "Connexion réussie", {
+        user: toPublicUser(user),
+      });
+    } catch (error) {
+      if (
+        error instanceof Error &&
+        [
+          "Challenge de double authentification invalide ou expiré",
+          "Code de vérification invalide",
+          "La double authentification n'est pas activée",
+          "Utilisateur non trouvé",
+        ].includes(error.message)
+      ) {
+        return sendError(res, error.message, 401, "INVALID_TWO_FACTOR");
+      }
+      logError(
+        error instanceof Error ? error : new Error(String(error)),
+        "Erreur lors de la connexion avec double authentification"
+      );
+      return sendError(
+        res,
+        "Erreur lors de l'authentification",
+        500,
+        "SERVER_ERROR"
+      );
+    }
+  }
+);
+
 /**
  * @swagger
  * /api/v1/auth/logout:
  *   post:
  *     summary: Déconnexion de l'utilisateur
- *     description: Supprime le cookie JWT
+ *     description: Révoque la session courante et supprime les cookies du token d'accès et du refresh token
  *     tags: [Authentification]
  *     responses:
  *       200:
@@ -301,12 +459,340 @@ router.post(
  *                       type: string
  *                       format: date-time
  */
-router.post("/logout", (req: Request, res: Response) => {
-  // Supprimer le cookie JWT
+router.post("/logout", async (req: Request, res: Response) => {
+  const refreshToken = req.cookies[refreshTokenCookieConfig.name];
+
+  // La déconnexion aboutit même si la révocation échoue
+  if (refreshToken) {
+    try {
+      await revokeSessionByRefreshToken(refreshToken);
+    } catch (error) {
+      logError(
+        error instanceof Error ? error : new Error(String(error)),
+        "Erreur lors de la révocation de la session"
+      );
+    }
+  }
+
+  // Supprimer les cookies
   clearJWTCookie(res);
+  clearRefreshTokenCookie(res);
   return sendSuccess(res, "Déconnexion réussie");
 });
 
+/**
+ * @swagger
+ * /api/v1/auth/refresh:
+ *   post:
+ *     summary: Renouveler la session
+ *     description: Échange le refresh token (cookie refresh_token) contre un nouveau token d'accès et un nouveau refresh token. Chaque refresh token n'est utilisable qu'une fois ; présenter un refresh token déjà utilisé révoque la session.
+ *     tags: [Authentification]
+ *     responses:
+ *       200:
+ *         description: Session renouvelée
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 message:
+ *                   type: string
+ *                   example: Session renouvelée
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     user:
+ *                       type: object
+ *                       properties:
+ *                         id:
+ *                           type: string
+ *                           format: uuid
+ *                         username:
+ *                           type: string
+ *                         email:
+ *                           type: string
+ *                         role:
+ *                           type: string
+ *       401:
+ *         description: Refresh token absent, invalide, expiré ou révoqué
+ */
+router.post("/refresh", async (req: Request, res: Response) => {
+  try {
+    const refreshToken = req.cookies[refreshTokenCookieConfig.name];
+
+    if (!refreshToken) {
+      return sendError(
+        res,
+        "Refresh token manquant",
+        401,
+        "REFRESH_TOKEN_MISSING"
+      );
+    }
+
+    const { user } = await refreshUserSession(
+      refreshToken,
+      getSessionClient(req),
+      res
+    );
+
+    return sendSuccess(res, "Session renouvelée", {
+      user: {
+        id: user.id,
+        username: user.username,
+        email: user.email,
+        role: user.role,
+      },
+    });
+  } catch (error) {
+    if (
+      error instanceof Error &&
+      (error.message === "Refresh token invalide" ||
+        error.message === "Session expirée ou révoquée")
+    ) {
+      clearJWTCookie(res);
+      clearRefreshTokenCookie(res);
+      return sendError(res, error.message, 401, "INVALID_REFRESH_TOKEN");
+    }
+    logError(
+      error instanceof Error ? error : new Error(String(error)),
+      "Erreur lors du renouvellement de la session"
+    );
+    return sendError(
+      res,
+      "Erreur lors du renouvellement de la session",
+      500,
+      "SERVER_ERROR"
+    );
+  }
+});
+
+/**
+ * @swagger
+ * /api/v1/auth/sessions:
+ *   get:
+ *     summary: Sessions actives
+ *     description: Liste les sessions actives de l'utilisateur connecté (appareil, adresse IP, dernière activité), la session courante étant signalée
+ *     tags: [Authentification]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Sessions récupérées avec succès
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/SuccessResponse'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       type: object
+ *                       properties:
+ *                         sessions:
+ *                           type: array
+ *                           items:
+ *                             type: object
+ *                             properties:
+ *                               id:
+ *                                 type: string
+ *                                 format: uuid
+ *                               device:
+ *                                 type: string
+ *                                 example: Firefox sur Linux
+ *                               userAgent:
+ *                                 type: string
+ *                                 nullable: true
+ *                               ipAddress:
+ *                                 type: string
+ *                                 nullable: true
+ *                               createdAt:
+ *                                 type: string
+ *                                 format: date-time
+ *                               lastSeenAt:
+ *                                 type: string
+ *                                 format: date-time
+ *                               expiresAt:
+ *                                 type: string
+ *                                 format: date-time
+ *                               current:
+ *                                 type: boolean
+ *       401:
+ *         description: Non authentifié
+ */
+router.get(
+  "/sessions",
+  authenticateJWT,
+  async (req: Request, res: Response) => {
+    try {
+      const user = req.user;
+
+      if (!user) {
+        return sendError(
+          res,
+          "Utilisateur non authentifié",
+          401,
+          "NOT_AUTHENTICATED"
+        );
+      }
+
+      const sessions = await getUserSessions(user.userId, user.sessionId);
+
+      return sendSuccess(res, "Sessions récupérées avec succès", {
+        sessions,
+      });
+    } catch (error) {
+      logError(
+        error instanceof Error ? error : new Error(String(error)),
+        "Erreur lors de la récupération des sessions"
+      );
+      return sendError(
+        res,
+        "Erreur lors de la récupération des sessions",
+        500,
+        "SERVER_ERROR"
+      );
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/v1/auth/sessions:
+ *   delete:
+ *     summary: Révoquer toutes les sessions
+ *     description: Révoque toutes les sessions de l'utilisateur connecté, y compris la session courante, et supprime les cookies
+ *     tags: [Authentification]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Sessions révoquées
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/SuccessResponse'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       type: object
+ *                       properties:
+ *                         count:
+ *                           type: integer
+ *       401:
+ *         description: Non authentifié
+ */
+router.delete(
+  "/sessions",
+  authenticateJWT,
+  async (req: Request, res: Response) => {
+    try {
+      const userId = req.user?.userId;
+
+      if (!userId) {
+        return sendError(
+          res,
+          "Utilisateur non authentifié",
+          401,
+          "NOT_AUTHENTICATED"
+        );
+      }
+
+      const count = await revokeAllSessions(userId);
+
+      clearJWTCookie(res);
+      clearRefreshTokenCookie(res);
+      return sendSuccess(res, "Sessions révoquées", { count });
+    } catch (error) {
+      logError(
+        error instanceof Error ? error : new Error(String(error)),
+        "Erreur lors de la révocation des sessions"
+      );
+      return sendError(
+        res,
+        "Erreur lors de la révocation des sessions",
+        500,
+        "SERVER_ERROR"
+      );
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/v1/auth/sessions/{sessionId}:
+ *   delete:
+ *     summary: Révoquer une session
+ *     description: Révoque une session de l'utilisateur connecté. Les tokens d'accès de cette session sont refusés immédiatement et son refresh token ne peut plus être utilisé.
+ *     tags: [Authentification]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: sessionId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: ID de la session
+ *     responses:
+ *       200:
+ *         description: Session révoquée
+ *       400:
+ *         description: Paramètres invalides
+ *       401:
+ *         description: Non authentifié
+ *       404:
+ *         description: Session non trouvée
+ */
+router.delete(
+  "/sessions/:sessionId",
+  authenticateJWT,
+  validate(sessionIdSchema),
+  async (req: Request, res: Response) => {
+    try {
+      const { sessionId } = req.params;
+      const user = req.user;
+
+      if (!user) {
+        return sendError(
+          res,
+          "Utilisateur non authentifié",
+          401,
+          "NOT_AUTHENTICATED"
+        );
+      }
+
+      await revokeSession(sessionId, user.userId);
+
+      // La session courante se termine comme une déconnexion
+      if (sessionId === user.sessionId) {
+        clearJWTCookie(res);
+        clearRefreshTokenCookie(res);
+      }
+
+      return sendSuccess(res, "Session révoquée");
+    } catch (error) {
+      logError(
+        error instanceof Error ? error : new Error(String(error)),
+        "Erreur lors de la révocation de la session"
+      );
+      if (error instanceof Error && error.message === "Session non trouvée") {
+        return sendError(res, error.message, 404, "RESOURCE_NOT_FOUND");
+      }
+      return sendError(
+        res,
+        "Erreur lors de la révocation de la session",
+        500,
+        "SERVER_ERROR"
+      );
+    }
+  }
+);
+
 /**
  * @swagger
  * /api/v1/auth/me:
@@ -401,6 +887,9 @@ router.get("/me", authenticateJWT, async (req: Request, res: Response) => {
   }
 });
 
+// Monter les sous-routes de la double authentification
+router.use("/2fa", twoFactorRoutes);
+
 /**
  * Route protégée par JWT accessible uniquement aux administrateurs
  */
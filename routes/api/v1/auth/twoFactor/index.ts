@@ -0,0 +1,525 @@
+import type { Request, Response } from "express";
+import express from "express";
+import {
+  authenticateJWT,
+  requireRole,
+} from "../../../../../middlewares/authMiddleware";
+import { validate } from "../../../../../middlewares/validationMiddleware";
+import {
+  disableTwoFactor,
+  enableTwoFactor,
+  getTwoFactorStatus,
+  regenerateRecoveryCodes,
+  resetTwoFactor,
+  startTwoFactorSetup,
+} from "../../../../../services/twoFactorService";
+import { logError } from "../../../../../utils/logger";
+import { sendError, sendSuccess } from "../../../../../utils/responseHandler";
+import {
+  disableTwoFactorSchema,
+  resetTwoFactorSchema,
+  twoFactorCodeSchema,
+} from "../../../../../validation/authValidation";
+
+const router = express.Router();
+
+/**
+ * @swagger
+ * /api/v1/auth/2fa:
+ *   get:
+ *     summary: État de la double authentification
+ *     description: Indique si la double authentification est activée, le nombre de codes de secours restants et les équipes qui l'exigent
+ *     tags: [Authentification]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: État récupéré avec succès
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/SuccessResponse'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       type: object
+ *                       properties:
+ *                         enabled:
+ *                           type: boolean
+ *                         enabledAt:
+ *                           type: string
+ *                           format: date-time
+ *                           nullable: true
+ *                         recoveryCodesRemaining:
+ *                           type: integer
+ *                         requiredByTeams:
+ *                           type: array
+ *                           items:
+ *                             type: object
+ *                             properties:
+ *                               id:
+ *                                 type: string
+ *                                 format: uuid
+ *                               name:
+ *                                 type: string
+ *       401:
+ *         description: Non authentifié
+ */
+router.get("/", authenticateJWT, async (req: Request, res: Response) => {
+  try {
+    const userId = req.user?.userId;
+
+    if (!userId) {
+      return sendError(
+        res,
+        "Utilisateur non authentifié",
+        401,
+        "NOT_AUTHENTICATED"
+      );
+    }
+
+    const status = await getTwoFactorStatus(userId);
+
+    return sendSuccess(
+      res,
+      "État de la double authentification récupéré",
+      status
+    );
+  } catch (error) {
+    logError(
+      error instanceof Error ? error : new Error(String(error)),
+      "Erreur lors de la récupération de l'état de la double authentification"
+    );
+    return sendError(
+      res,
+      "Erreur lors de la récupération de l'état de la double authentification",
+      500,
+      "SERVER_ERROR"
+    );
+  }
+});
+
+/**
+ * @swagger
+ * /api/v1/auth/2fa/setup:
+ *   post:
+ *     summary: Démarrer l'enrôlement
+ *     description: Génère un nouveau secret TOTP et l'URI otpauth:// à afficher en QR code. La double authentification n'est activée qu'après confirmation d'un code avec POST /api/v1/auth/2fa/enable.
+ *     tags: [Authentification]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Enrôlement démarré
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/SuccessResponse'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       type: object
+ *                       properties:
+ *                         secret:
+ *                           type: string
+ *                           description: Secret base32, pour une saisie manuelle
+ *                         otpauthUri:
+ *                           type: string
+ *                           example: otpauth://totp/FlagHive%3Atestuser?secret=...&issuer=FlagHive
+ *       401:
+ *         description: Non authentifié
+ *       409:
+ *         description: Double authentification déjà activée
+ */
+router.post("/setup", authenticateJWT, async (req: Request, res: Response) => {
+  try {
+    const userId = req.user?.userId;
+
+    if (!userId) {
+      return sendError(
+        res,
+        "Utilisateur non authentifié",
+        401,
+        "NOT_AUTHENTICATED"
+      );
+    }
+
+    const setup = await startTwoFactorSetup(userId);
+
+    return sendSuccess(
+      res,
+      "Enrôlement de double authentification démarré",
+      setup
+    );
+  } catch (error) {
+    if (
+      error instanceof Error &&
+      error.message === "La double authentification est déjà activée"
+    ) {
+      return sendError(res, error.message, 409, "TWO_FACTOR_ALREADY_ENABLED");
+    }
+    logError(
+      error instanceof Error ? error : new Error(String(error)),
+      "Erreur lors de l'enrôlement de double authentification"
+    );
+    return sendError(
+      res,
+      "Erreur lors de l'enrôlement de double authentification",
+      500,
+      "SERVER_ERROR"
+    );
+  }
+});
+
+/**
+ * @swagger
+ * /api/v1/auth/2fa/enable:
+ *   post:
+ *     summary: Activer la double authentification
+ *     description: Confirme l'enrôlement avec un code de l'application et renvoie les codes de secours, affichés une seule fois
+ *     tags: [Authentification]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - code
+ *             properties:
+ *               code:
+ *                 type: string
+ *                 example: "123456"
+ *     responses:
+ *       200:
+ *         description: Double authentification activée
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/SuccessResponse'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       type: object
+ *                       properties:
+ *                         recoveryCodes:
+ *                           type: array
+ *                           items:
+ *                             type: string
+ *                             example: ABCDE-FGH23
+ *       400:
+ *         description: Code invalide ou aucun enrôlement en cours
+ *       401:
+ *         description: Non authentifié
+ *       409:
+ *         description: Double authentification déjà activée
+ */
+router.post(
+  "/enable",
+  authenticateJWT,
+  validate(twoFactorCodeSchema),
+  async (req: Request, res: Response) => {
+    try {
+      const { code } = req.body;
+      const userId = req.user?.userId;
+
+      if (!userId) {
+        return sendError(
+          res,
+          "Utilisateur non authentifié",
+          401,
+          "NOT_AUTHENTICATED"
+        );
+      }
+
+      const recoveryCodes = await enableTwoFactor(userId, code);
+
+      return sendSuccess(res, "Double authentification activée", {
+        recoveryCodes,
+      });
+    } catch (error) {
+      if (error instanceof Error) {
+        if (error.message === "La double authentification est déjà activée") {
+          return sendError(
+            res,
+            error.message,
+            409,
+            "TWO_FACTOR_ALREADY_ENABLED"
+          );
+        }
+        if (
+          error.message === "Code de vérification invalide" ||
+          error.message ===
+            "Aucun enrôlement de double authentification en cours"
+        ) {
+          return sendError(res, error.message, 400, "INVALID_TWO_FACTOR");
+        }
+      }
+      logError(
+        error instanceof Error ? error : new Error(String(error)),
+        "Erreur lors de l'activation de la double authentification"
+      );
+      return sendError(
+        res,
+        "Erreur lors de l'activation de la double authentification",
+        500,
+        "SERVER_ERROR"
+      );
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/v1/auth/2fa/disable:
+ *   post:
+ *     summary: Désactiver la double authentification
+ *     description: Désactive la double authentification avec le mot de passe et un code (de l'application ou de secours). Impossible si une équipe de l'utilisateur l'exige.
+ *     tags: [Authentification]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - password
+ *               - code
+ *             properties:
+ *               password:
+ *                 type: string
+ *                 format: password
+ *               code:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Double authentification désactivée
+ *       400:
+ *         description: Mot de passe ou code invalide
+ *       401:
+ *         description: Non authentifié
+ *       403:
+ *         description: Une équipe de l'utilisateur exige la double authentification
+ */
+router.post(
+  "/disable",
+  authenticateJWT,
+  validate(disableTwoFactorSchema),
+  async (req: Request, res: Response) => {
+    try {
+      const { password, code } = req.body;
+      const userId = req.user?.userId;
+
+      if (!userId) {
+        return sendError(
+          res,
+          "Utilisateur non authentifié",
+          401,
+          "NOT_AUTHENTICATED"
+        );
+      }
+
+      await disableTwoFactor(userId, password, code);
+
+      return sendSuccess(res, "Double authentification désactivée");
+    } catch (error) {
+      if (error instanceof Error) {
+        if (
+          error.message ===
+          "Une de vos équipes exige la double authentification"
+        ) {
+          return sendError(res, error.message, 403, "FORBIDDEN_ACTION");
+        }
+        if (
+          [
+            "Mot de passe incorrect",
+            "Code de vérification invalide",
+            "La double authentification n'est pas activée",
+          ].includes(error.message)
+        ) {
+          return sendError(res, error.message, 400, "INVALID_TWO_FACTOR");
+        }
+      }
+      logError(
+        error instanceof Error ? error : new Error(String(error)),
+        "Erreur lors de la désactivation de la double authentification"
+      );
+      return sendError(
+        res,
+        "Erreur lors de la désactivation de la double authentification",
+        500,
+        "SERVER_ERROR"
+      );
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/v1/auth/2fa/recovery-codes:
+ *   post:
+ *     summary: Régénérer les codes de secours
+ *     description: Remplace les codes de secours, après vérification d'un code. Les anciens codes deviennent inutilisables.
+ *     tags: [Authentification]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - code
+ *             properties:
+ *               code:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Codes de secours régénérés
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/SuccessResponse'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       type: object
+ *                       properties:
+ *                         recoveryCodes:
+ *                           type: array
+ *                           items:
+ *                             type: string
+ *       400:
+ *         description: Code invalide ou double authentification non activée
+ *       401:
+ *         description: Non authentifié
+ */
+router.post(
+  "/recovery-codes",
+  authenticateJWT,
+  validate(twoFactorCodeSchema),
+  async (req: Request, res: Response) => {
+    try {
+      const { code } = req.body;
+      const userId = req.user?.userId;
+
+      if (!userId) {
+        return sendError(
+          res,
+          "Utilisateur non authentifié",
+          401,
+          "NOT_AUTHENTICATED"
+        );
+      }
+
+      const recoveryCodes = await regenerateRecoveryCodes(userId, code);
+
+      return sendSuccess(res, "Codes de secours régénérés", {
+        recoveryCodes,
+      });
+    } catch (error) {
+      if (
+        error instanceof Error &&
+        (error.message === "Code de vérification invalide" ||
+          error.message === "La double authentification n'est pas activée")
+      ) {
+        return sendError(res, error.message, 400, "INVALID_TWO_FACTOR");
+      }
+      logError(
+        error instanceof Error ? error : new Error(String(error)),
+        "Erreur lors de la régénération des codes de secours"
+      );
+      return sendError(
+        res,
+        "Erreur lors de la régénération des codes de secours",
+        500,
+        "SERVER_ERROR"
+      );
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/v1/auth/2fa/users/{userId}:
+ *   delete:
+ *     summary: Réinitialiser la double authentification d'un utilisateur
+ *     description: Réservé aux administrateurs. Désactive la double authentification d'un utilisateur (appareil perdu, compte compromis), supprime ses codes de secours et révoque toutes ses sessions.
+ *     tags: [Authentification]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: ID de l'utilisateur
+ *     responses:
+ *       200:
+ *         description: Double authentification réinitialisée
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/SuccessResponse'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       type: object
+ *                       properties:
+ *                         revokedSessions:
+ *                           type: integer
+ *       400:
+ *         description: Paramètres invalides
+ *       401:
+ *         description: Non authentifié
+ *       403:
+ *         description: Accès non autorisé
+ *       404:
+ *         description: Utilisateur non trouvé
+ */
+router.delete(
+  "/users/:userId",
+  authenticateJWT,
+  requireRole(["ADMIN"]),
+  validate(resetTwoFactorSchema),
+  async (req: Request, res: Response) => {
+    try {
+      const { userId } = req.params;
+
+      const result = await resetTwoFactor(userId);
+
+      return sendSuccess(res, "Double authentification réinitialisée", result);
+    } catch (error) {
+      if (
+        error instanceof Error &&
+        error.message === "Utilisateur non trouvé"
+      ) {
+        return sendError(res, error.message, 404, "RESOURCE_NOT_FOUND");
+      }
+      logError(
+        error instanceof Error ? error : new Error(String(error)),
+        "Erreur lors de la réinitialisation de la double authentification"
+      );
+      return sendError(
+        res,
+        "Erreur lors de la réinitialisation de la double authentification",
+        500,
+        "SERVER_ERROR"
+      );
+    }
+  }
+);
+
+export default router;
@@ -63,6 +63,8 @@ const router = express.Router({ mergeParams: true });
  *                         format: uuid
  *                       flagValue:
  *                         type: string
+ *                         nullable: true
+ *                         description: Absent pour une résolution synchronisée depuis la plateforme CTF
  *                       isSuccess:
  *                         type: boolean
  *                       comment:
@@ -72,6 +74,7 @@ const router = express.Router({ mergeParams: true });
  *                         format: date-time
  *                       user:
  *                         type: object
+ *                         nullable: true
  *                         properties:
  *                           id:
  *                             type: string
@@ -176,6 +179,8 @@ router.get("/", authenticateJWT, async (req: Request, res: Response) => {
  *                       format: uuid
  *                     flagValue:
  *                       type: string
+ *                       nullable: true
+ *                       description: Absent pour une résolution synchronisée depuis la plateforme CTF
  *                     isSuccess:
  *                       type: boolean
  *                     comment:
@@ -185,6 +190,7 @@ router.get("/", authenticateJWT, async (req: Request, res: Response) => {
  *                       format: date-time
  *                     user:
  *                       type: object
+ *                       nullable: true
  *                       properties:
  *                         id:
  *                           type: string
@@ -305,6 +311,8 @@ router.get(
  *                       format: uuid
  *                     flagValue:
  *                       type: string
+ *                       nullable: true
+ *                       description: Absent pour une résolution synchronisée depuis la plateforme CTF
  *                     isSuccess:
  *                       type: boolean
  *                     comment:
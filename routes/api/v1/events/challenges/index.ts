@@ -7,15 +7,24 @@ import {
   createChallenge,
   getChallengeById,
   getChallengesByEventId,
+  importChallengesFromPlatform,
   solveChallenge,
+  updateChallenge,
 } from "../../../../../services/challenges/challengeService";
+import {
+  getSimilarChallenges,
+  suggestSimilarChallenges,
+} from "../../../../../services/knowledge/knowledgeBaseService";
 import { logError } from "../../../../../utils/logger";
 import { sendError, sendSuccess } from "../../../../../utils/responseHandler";
 import {
   assignChallengeSchema,
   createChallengeSchema,
+  importChallengesSchema,
   solveChallengeSchema,
+  updateChallengeSchema,
 } from "../../../../../validation/challengeValidation";
+import { similarChallengesSchema } from "../../../../../validation/knowledgeValidation";
 import flagAttemptRoutes from "./flagAttempts";
 import resourceRoutes from "./resources";
 
@@ -75,9 +84,15 @@ const router = express.Router({ mergeParams: true });
  *                 type: string
  *                 description: Flag à trouver pour résoudre le challenge
  *                 example: flag{test_flag}
+ *               tags:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                 description: Tags du challenge, pour la base de connaissances
+ *                 example: [heap, tcache]
  *     responses:
  *       201:
- *         description: Challenge créé avec succès
+ *         description: Challenge créé avec succès, avec les challenges déjà résolus qui lui ressemblent
  *         content:
  *           application/json:
  *             schema:
@@ -106,6 +121,15 @@ const router = express.Router({ mergeParams: true });
  *                           type: string
  *                         points:
  *                           type: integer
+ *                         tags:
+ *                           type: array
+ *                           items:
+ *                             type: string
+ *                     similarChallenges:
+ *                       type: array
+ *                       description: Challenges résolus lors d'autres événements, de même catégorie ou proches par le nom et la description
+ *                       items:
+ *                         type: object
  *                 meta:
  *                   type: object
  *                   properties:
@@ -128,7 +152,8 @@ router.post(
   async (req: Request, res: Response) => {
     try {
       const { eventId } = req.params;
-      const { name, description, category, points, teamId, flag } = req.body;
+      const { name, description, category, points, teamId, flag, tags } =
+        req.body;
       const userId = req.user?.userId;
 
       if (!userId) {
@@ -147,10 +172,21 @@ router.post(
         points,
         teamId,
         eventId,
+        userId,
+        tags
+      );
+
+      const similarChallenges = await suggestSimilarChallenges(
+        challenge,
         userId
       );
 
-      return sendSuccess(res, "Challenge créé avec succès", { challenge }, 201);
+      return sendSuccess(
+        res,
+        "Challenge créé avec succès",
+        { challenge, similarChallenges },
+        201
+      );
     } catch (error) {
       logError(
         error instanceof Error ? error : new Error(String(error)),
@@ -180,6 +216,138 @@ router.post(
   }
 );
 
+/**
+ * @swagger
+ * /api/v1/events/{eventId}/challenges/import:
+ *   post:
+ *     summary: Importer les challenges depuis la plateforme CTF
+ *     description: Récupère les challenges de la plateforme CTF de l'événement (CTFd, rCTF) et les crée ou met à jour pour l'équipe, qui doit être celle des identifiants de la plateforme. Les fichiers joints sont téléchargés dans les ressources du challenge comme fichiers officiels. L'import peut être relancé sans créer de doublons ni retélécharger les fichiers déjà récupérés.
+ *     tags: [Challenges]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: eventId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: ID de l'événement
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - teamId
+ *             properties:
+ *               teamId:
+ *                 type: string
+ *                 format: uuid
+ *                 description: ID de l'équipe
+ *     responses:
+ *       200:
+ *         description: Challenges importés avec succès
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/SuccessResponse'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       type: object
+ *                       properties:
+ *                         total:
+ *                           type: integer
+ *                         created:
+ *                           type: integer
+ *                         updated:
+ *                           type: integer
+ *                         files:
+ *                           type: object
+ *                           properties:
+ *                             downloaded:
+ *                               type: integer
+ *                             skipped:
+ *                               type: integer
+ *                             failed:
+ *                               type: integer
+ *       400:
+ *         description: Aucune plateforme CTF configurée pour cet événement
+ *       401:
+ *         description: Non authentifié
+ *       403:
+ *         description: Non autorisé à importer des challenges pour cette équipe, ou identifiants de la plateforme appartenant à une autre équipe
+ *       404:
+ *         description: Événement non trouvé
+ *       502:
+ *         description: Erreur lors de la communication avec la plateforme CTF
+ */
+router.post(
+  "/import",
+  authenticateJWT,
+  validate(importChallengesSchema),
+  async (req: Request, res: Response) => {
+    try {
+      const { eventId } = req.params;
+      const { teamId } = req.body;
+      const userId = req.user?.userId;
+
+      if (!userId) {
+        return sendError(
+          res,
+          "Utilisateur non authentifié",
+          401,
+          "NOT_AUTHENTICATED"
+        );
+      }
+
+      const result = await importChallengesFromPlatform(
+        eventId,
+        teamId,
+        userId
+      );
+
+      return sendSuccess(res, "Challenges importés avec succès", result);
+    } catch (error) {
+      logError(
+        error instanceof Error ? error : new Error(String(error)),
+        "Erreur lors de l'import des challenges"
+      );
+      if (error instanceof Error) {
+        if (error.message === "Événement non trouvé") {
+          return sendError(res, error.message, 404, "RESOURCE_NOT_FOUND");
+        }
+        if (
+          error.message ===
+          "Aucune plateforme CTF configurée pour cet événement"
+        ) {
+          return sendError(res, error.message, 400, "PLATFORM_NOT_CONFIGURED");
+        }
+        if (
+          error.message === "Cette équipe n'est pas associée à cet événement" ||
+          error.message === "Vous n'êtes pas membre de cette équipe" ||
+          error.message ===
+            "Les identifiants de la plateforme appartiennent à une autre équipe"
+        ) {
+          return sendError(res, error.message, 403, "FORBIDDEN_ACTION");
+        }
+        if (error.message.startsWith("Erreur de la plateforme CTF")) {
+          return sendError(res, error.message, 502, "PLATFORM_ERROR");
+        }
+      }
+      return sendError(
+        res,
+        "Erreur lors de l'import des challenges",
+        500,
+        "SERVER_ERROR"
+      );
+    }
+  }
+);
+
 /**
  * @swagger
  * /api/v1/events/{eventId}/challenges:
@@ -411,12 +579,301 @@ router.get(
   }
 );
 
+/**
+ * @swagger
+ * /api/v1/events/{eventId}/challenges/{challengeId}:
+ *   put:
+ *     summary: Mettre à jour un challenge
+ *     description: Met à jour un challenge de l'équipe, y compris ses tags (utile pour les challenges importés, qui n'en ont pas)
+ *     tags: [Challenges]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: eventId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: ID de l'événement
+ *       - in: path
+ *         name: challengeId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: ID du challenge
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               name:
+ *                 type: string
+ *                 description: Nom du challenge
+ *               description:
+ *                 type: string
+ *                 nullable: true
+ *                 description: Description du challenge
+ *               category:
+ *                 type: string
+ *                 nullable: true
+ *                 description: Catégorie du challenge
+ *               points:
+ *                 type: integer
+ *                 nullable: true
+ *                 description: Points attribués pour la résolution du challenge
+ *               flag:
+ *                 type: string
+ *                 nullable: true
+ *                 description: Flag à trouver pour résoudre le challenge
+ *               tags:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                 description: Tags du challenge, qui remplacent les tags existants
+ *                 example: [heap, tcache]
+ *     responses:
+ *       200:
+ *         description: Challenge mis à jour avec succès
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 message:
+ *                   type: string
+ *                   example: Challenge mis à jour avec succès
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     challenge:
+ *                       type: object
+ *                       properties:
+ *                         id:
+ *                           type: string
+ *                           format: uuid
+ *                         name:
+ *                           type: string
+ *                         tags:
+ *                           type: array
+ *                           items:
+ *                             type: string
+ *                 meta:
+ *                   type: object
+ *                   properties:
+ *                     timestamp:
+ *                       type: string
+ *                       format: date-time
+ *       400:
+ *         description: Données d'entrée invalides
+ *       401:
+ *         description: Non authentifié
+ *       403:
+ *         description: Non autorisé à modifier ce challenge
+ *       404:
+ *         description: Challenge non trouvé
+ *       409:
+ *         description: Un challenge avec ce nom existe déjà pour cet événement et cette équipe
+ */
+router.put(
+  "/:challengeId",
+  authenticateJWT,
+  validate(updateChallengeSchema),
+  async (req: Request, res: Response) => {
+    try {
+      const { eventId, challengeId } = req.params;
+      const userId = req.user?.userId;
+
+      if (!userId) {
+        return sendError(
+          res,
+          "Utilisateur non authentifié",
+          401,
+          "NOT_AUTHENTICATED"
+        );
+      }
+
+      const challenge = await updateChallenge(
+        challengeId,
+        eventId,
+        userId,
+        req.body
+      );
+
+      return sendSuccess(res, "Challenge mis à jour avec succès", {
+        challenge,
+      });
+    } catch (error) {
+      logError(
+        error instanceof Error ? error : new Error(String(error)),
+        "Erreur lors de la mise à jour du challenge"
+      );
+      if (error instanceof Error) {
+        if (
+          error.message === "Challenge non trouvé" ||
+          error.message === "Challenge non trouvé dans cet événement"
+        ) {
+          return sendError(res, error.message, 404, "RESOURCE_NOT_FOUND");
+        }
+        if (error.message === "Non autorisé à modifier ce challenge") {
+          return sendError(res, error.message, 403, "FORBIDDEN_ACTION");
+        }
+        if (
+          error.message ===
+          "Un challenge avec ce nom existe déjà pour cet événement et cette équipe"
+        ) {
+          return sendError(res, error.message, 409, "CHALLENGE_NAME_TAKEN");
+        }
+      }
+      return sendError(
+        res,
+        "Erreur lors de la mise à jour du challenge",
+        500,
+        "SERVER_ERROR"
+      );
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/v1/events/{eventId}/challenges/{challengeId}/similar:
+ *   get:
+ *     summary: Challenges similaires
+ *     description: Suggère les challenges résolus par les équipes de l'utilisateur lors d'autres événements, de même catégorie d'abord puis classés par proximité des mots du nom et de la description
+ *     tags: [Challenges, Knowledge]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: eventId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: ID de l'événement
+ *       - in: path
+ *         name: challengeId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: ID du challenge
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 20
+ *           default: 5
+ *         description: Nombre maximum de suggestions
+ *     responses:
+ *       200:
+ *         description: Suggestions récupérées avec succès
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/SuccessResponse'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       type: object
+ *                       properties:
+ *                         similarChallenges:
+ *                           type: array
+ *                           items:
+ *                             type: object
+ *                             properties:
+ *                               id:
+ *                                 type: string
+ *                                 format: uuid
+ *                               name:
+ *                                 type: string
+ *                               category:
+ *                                 type: string
+ *                               eventId:
+ *                                 type: string
+ *                                 format: uuid
+ *                               eventName:
+ *                                 type: string
+ *                               sameCategory:
+ *                                 type: boolean
+ *                               score:
+ *                                 type: number
+ *       400:
+ *         description: Paramètres invalides
+ *       401:
+ *         description: Non authentifié
+ *       403:
+ *         description: Non autorisé à accéder à ce challenge
+ *       404:
+ *         description: Challenge non trouvé
+ */
+router.get(
+  "/:challengeId/similar",
+  authenticateJWT,
+  validate(similarChallengesSchema),
+  async (req: Request, res: Response) => {
+    try {
+      const { eventId, challengeId } = req.params;
+      const { limit } = req.query as { limit?: string };
+      const userId = req.user?.userId;
+
+      if (!userId) {
+        return sendError(
+          res,
+          "Utilisateur non authentifié",
+          401,
+          "NOT_AUTHENTICATED"
+        );
+      }
+
+      const similarChallenges = await getSimilarChallenges(
+        challengeId,
+        eventId,
+        userId,
+        limit ? Number(limit) : undefined
+      );
+
+      return sendSuccess(res, "Challenges similaires récupérés avec succès", {
+        similarChallenges,
+      });
+    } catch (error) {
+      logError(
+        error instanceof Error ? error : new Error(String(error)),
+        "Erreur lors de la recherche de challenges similaires"
+      );
+      if (error instanceof Error) {
+        if (error.message === "Challenge non trouvé") {
+          return sendError(res, error.message, 404, "RESOURCE_NOT_FOUND");
+        }
+        if (error.message === "Non autorisé à accéder à ce challenge") {
+          return sendError(res, error.message, 403, "FORBIDDEN_ACCESS");
+        }
+      }
+      return sendError(
+        res,
+        "Erreur lors de la recherche de challenges similaires",
+        500,
+        "SERVER_ERROR"
+      );
+    }
+  }
+);
+
 /**
  * @swagger
  * /api/v1/events/{eventId}/challenges/{challengeId}/solve:
  *   post:
  *     summary: Résoudre un challenge
- *     description: Soumet un flag pour résoudre un challenge
+ *     description: Soumet un flag pour résoudre un challenge. Si l'événement est relié à une plateforme CTF, que le challenge est importé et que l'équipe est celle des identifiants de la plateforme, le flag est relayé à la plateforme et son verdict est enregistré sur la tentative.
  *     tags: [Challenges]
  *     security:
  *       - bearerAuth: []
@@ -471,6 +928,10 @@ router.get(
  *                     points:
  *                       type: integer
  *                       example: 100
+ *                     verdict:
+ *                       type: string
+ *                       enum: [CORRECT, INCORRECT, ALREADY_SOLVED, RATELIMITED, PAUSED]
+ *                       description: Verdict de la plateforme (absent pour une vérification locale)
  *                 meta:
  *                   type: object
  *                   properties:
@@ -478,13 +939,17 @@ router.get(
  *                       type: string
  *                       format: date-time
  *       400:
- *         description: Flag incorrect
+ *         description: Flag incorrect ou challenge déjà résolu
  *       401:
  *         description: Non authentifié
  *       403:
- *         description: Non autorisé à résoudre ce challenge
+ *         description: Non autorisé à résoudre ce challenge ou CTF en pause
  *       404:
  *         description: Challenge non trouvé
+ *       429:
+ *         description: Trop de tentatives sur la plateforme CTF
+ *       502:
+ *         description: Erreur renvoyée par la plateforme CTF (PLATFORM_ERROR), ou plateforme injoignable, trop lente ou à la réponse illisible (PLATFORM_UNAVAILABLE)
  */
 router.post(
   "/:challengeId/solve",
@@ -508,12 +973,34 @@ router.post(
       const result = await solveChallenge(challengeId, eventId, userId, flag);
 
       if (!result.solved) {
-        return sendError(res, "Flag incorrect", 400, "INCORRECT_FLAG");
+        if (result.verdict === "RATELIMITED") {
+          return sendError(
+            res,
+            "Trop de tentatives, veuillez réessayer plus tard",
+            429,
+            "RATE_LIMITED"
+          );
+        }
+        if (result.verdict === "ALREADY_SOLVED") {
+          return sendError(
+            res,
+            "Challenge déjà résolu sur la plateforme",
+            400,
+            "CHALLENGE_ALREADY_SOLVED"
+          );
+        }
+        if (result.verdict === "PAUSED") {
+          return sendError(res, "Le CTF est en pause", 403, "CTF_PAUSED");
+        }
+        return sendError(res, "Flag incorrect", 400, "INCORRECT_FLAG", {
+          verdict: result.verdict,
+        });
       }
 
       return sendSuccess(res, "Challenge résolu avec succès", {
         solved: result.solved,
         points: result.points,
+        verdict: result.verdict,
       });
     } catch (error) {
       logError(
@@ -533,6 +1020,12 @@ router.post(
         if (error.message === "Non autorisé à résoudre ce challenge") {
           return sendError(res, error.message, 403, "FORBIDDEN_ACTION");
         }
+        if (error.message.startsWith("Erreur de la plateforme CTF")) {
+          return sendError(res, error.message, 502, "PLATFORM_ERROR");
+        }
+        if (error.message === "Plateforme CTF injoignable") {
+          return sendError(res, error.message, 502, "PLATFORM_UNAVAILABLE");
+        }
       }
       return sendError(
         res,
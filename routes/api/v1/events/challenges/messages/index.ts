@@ -0,0 +1,921 @@
+import type { Request, Response } from "express";
+import express from "express";
+import { authenticateJWT } from "../../../../../../middlewares/authMiddleware";
+import { validate } from "../../../../../../middlewares/validationMiddleware";
+import {
+  addReaction,
+  deleteMessage,
+  getChallengeMessages,
+  getMessageReplies,
+  postChallengeMessage,
+  removeReaction,
+  replyToMessage,
+  updateMessage,
+} from "../../../../../../services/messages/messageService";
+import { logError } from "../../../../../../utils/logger";
+import {
+  sendError,
+  sendSuccess,
+} from "../../../../../../utils/responseHandler";
+import {
+  getMessagesSchema,
+  getRepliesSchema,
+  postMessageSchema,
+  reactionSchema,
+  replyMessageSchema,
+  updateMessageSchema,
+} from "../../../../../../validation/messageValidation";
+
+const router = express.Router({ mergeParams: true });
+
+/**
+ * @swagger
+ * /api/v1/events/{eventId}/challenges/{challengeId}/messages:
+ *   get:
+ *     summary: Messages du canal du challenge
+ *     description: Récupère une page de messages du canal du challenge, du plus récent au plus ancien
+ *     tags: [Messages]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: eventId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: ID de l'événement
+ *       - in: path
+ *         name: challengeId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: ID du challenge
+ *       - in: query
+ *         name: cursor
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: ID du dernier message de la page précédente (nextCursor)
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 200
+ *           default: 50
+ *         description: Nombre de messages par page
+ *     responses:
+ *       200:
+ *         description: Messages récupérés avec succès
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/SuccessResponse'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       type: object
+ *                       properties:
+ *                         messages:
+ *                           type: array
+ *                           items:
+ *                             type: object
+ *                         nextCursor:
+ *                           type: string
+ *                           format: uuid
+ *                           nullable: true
+ *       400:
+ *         description: Paramètres de pagination invalides
+ *       401:
+ *         description: Non authentifié
+ *       403:
+ *         description: Non autorisé à accéder aux messages de ce challenge
+ *       404:
+ *         description: Challenge non trouvé
+ */
+router.get(
+  "/",
+  authenticateJWT,
+  validate(getMessagesSchema),
+  async (req: Request, res: Response) => {
+    try {
+      const { challengeId } = req.params;
+      const { cursor, limit } = req.query as {
+        cursor?: string;
+        limit?: string;
+      };
+      const userId = req.user?.userId;
+
+      if (!userId) {
+        return sendError(
+          res,
+          "Utilisateur non authentifié",
+          401,
+          "NOT_AUTHENTICATED"
+        );
+      }
+
+      const page = await getChallengeMessages(
+        challengeId,
+        userId,
+        cursor,
+        limit ? Number(limit) : undefined
+      );
+
+      return sendSuccess(res, "Messages récupérés avec succès", page);
+    } catch (error) {
+      logError(
+        error instanceof Error ? error : new Error(String(error)),
+        "Erreur lors de la récupération des messages"
+      );
+      if (error instanceof Error) {
+        if (error.message === "Challenge non trouvé") {
+          return sendError(res, error.message, 404, "RESOURCE_NOT_FOUND");
+        }
+        if (
+          error.message ===
+          "Non autorisé à accéder aux messages de ce challenge"
+        ) {
+          return sendError(res, error.message, 403, "FORBIDDEN_ACCESS");
+        }
+      }
+      return sendError(
+        res,
+        "Erreur lors de la récupération des messages",
+        500,
+        "SERVER_ERROR"
+      );
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/v1/events/{eventId}/challenges/{challengeId}/messages:
+ *   post:
+ *     summary: Envoyer un message du canal du challenge
+ *     description: Publie un message du canal du challenge et le diffuse aux membres connectés au chat de l'équipe
+ *     tags: [Messages]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: eventId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: ID de l'événement
+ *       - in: path
+ *         name: challengeId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: ID du challenge
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - content
+ *             properties:
+ *               content:
+ *                 type: string
+ *                 description: Contenu du message
+ *                 example: J'ai une piste sur l'upload, quelqu'un regarde le parser ?
+ *     responses:
+ *       201:
+ *         description: Message envoyé avec succès
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/SuccessResponse'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       type: object
+ *                       properties:
+ *                         message:
+ *                           type: object
+ *                           properties:
+ *                             id:
+ *                               type: string
+ *                               format: uuid
+ *                             content:
+ *                               type: string
+ *                             type:
+ *                               type: string
+ *                               enum: [TEAM, CHALLENGE, SYSTEM]
+ *                             createdAt:
+ *                               type: string
+ *                               format: date-time
+ *                             editedAt:
+ *                               type: string
+ *                               format: date-time
+ *                               nullable: true
+ *                             user:
+ *                               type: object
+ *                               properties:
+ *                                 id:
+ *                                   type: string
+ *                                   format: uuid
+ *                                 username:
+ *                                   type: string
+ *       400:
+ *         description: Données d'entrée invalides
+ *       401:
+ *         description: Non authentifié
+ *       403:
+ *         description: Non autorisé à envoyer un message sur ce challenge
+ *       404:
+ *         description: Challenge non trouvé
+ */
+router.post(
+  "/",
+  authenticateJWT,
+  validate(postMessageSchema),
+  async (req: Request, res: Response) => {
+    try {
+      const { challengeId } = req.params;
+      const { content } = req.body;
+      const userId = req.user?.userId;
+
+      if (!userId) {
+        return sendError(
+          res,
+          "Utilisateur non authentifié",
+          401,
+          "NOT_AUTHENTICATED"
+        );
+      }
+
+      const message = await postChallengeMessage(challengeId, content, userId);
+
+      return sendSuccess(res, "Message envoyé avec succès", { message }, 201);
+    } catch (error) {
+      logError(
+        error instanceof Error ? error : new Error(String(error)),
+        "Erreur lors de l'envoi du message"
+      );
+      if (error instanceof Error) {
+        if (error.message === "Challenge non trouvé") {
+          return sendError(res, error.message, 404, "RESOURCE_NOT_FOUND");
+        }
+        if (
+          error.message === "Non autorisé à envoyer un message sur ce challenge"
+        ) {
+          return sendError(res, error.message, 403, "FORBIDDEN_ACCESS");
+        }
+      }
+      return sendError(
+        res,
+        "Erreur lors de l'envoi du message",
+        500,
+        "SERVER_ERROR"
+      );
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/v1/events/{eventId}/challenges/{challengeId}/messages/{messageId}:
+ *   put:
+ *     summary: Modifier un message
+ *     description: Modifie un message du canal du challenge, réservé à son auteur
+ *     tags: [Messages]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: eventId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: ID de l'événement
+ *       - in: path
+ *         name: challengeId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: ID du challenge
+ *       - in: path
+ *         name: messageId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: ID du message
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - content
+ *             properties:
+ *               content:
+ *                 type: string
+ *                 description: Nouveau contenu du message
+ *     responses:
+ *       200:
+ *         description: Message modifié avec succès
+ *       400:
+ *         description: Données d'entrée invalides
+ *       401:
+ *         description: Non authentifié
+ *       403:
+ *         description: Non autorisé à modifier ce message
+ *       404:
+ *         description: Message non trouvé
+ */
+router.put(
+  "/:messageId",
+  authenticateJWT,
+  validate(updateMessageSchema),
+  async (req: Request, res: Response) => {
+    try {
+      const { challengeId, messageId } = req.params;
+      const { content } = req.body;
+      const userId = req.user?.userId;
+
+      if (!userId) {
+        return sendError(
+          res,
+          "Utilisateur non authentifié",
+          401,
+          "NOT_AUTHENTICATED"
+        );
+      }
+
+      const message = await updateMessage(
+        messageId,
+        { challengeId },
+        content,
+        userId
+      );
+
+      return sendSuccess(res, "Message modifié avec succès", { message });
+    } catch (error) {
+      logError(
+        error instanceof Error ? error : new Error(String(error)),
+        "Erreur lors de la modification du message"
+      );
+      if (error instanceof Error) {
+        if (
+          error.message === "Message non trouvé" ||
+          error.message === "Challenge non trouvé"
+        ) {
+          return sendError(res, error.message, 404, "RESOURCE_NOT_FOUND");
+        }
+        if (error.message === "Non autorisé à modifier ce message") {
+          return sendError(res, error.message, 403, "FORBIDDEN_ACCESS");
+        }
+      }
+      return sendError(
+        res,
+        "Erreur lors de la modification du message",
+        500,
+        "SERVER_ERROR"
+      );
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/v1/events/{eventId}/challenges/{challengeId}/messages/{messageId}:
+ *   delete:
+ *     summary: Supprimer un message
+ *     description: Supprime un message du canal du challenge, par son auteur ou par un administrateur de l'équipe
+ *     tags: [Messages]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: eventId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: ID de l'événement
+ *       - in: path
+ *         name: challengeId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: ID du challenge
+ *       - in: path
+ *         name: messageId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: ID du message
+ *     responses:
+ *       200:
+ *         description: Message supprimé avec succès
+ *       401:
+ *         description: Non authentifié
+ *       403:
+ *         description: Non autorisé à supprimer ce message
+ *       404:
+ *         description: Message non trouvé
+ */
+router.delete(
+  "/:messageId",
+  authenticateJWT,
+  async (req: Request, res: Response) => {
+    try {
+      const { challengeId, messageId } = req.params;
+      const userId = req.user?.userId;
+
+      if (!userId) {
+        return sendError(
+          res,
+          "Utilisateur non authentifié",
+          401,
+          "NOT_AUTHENTICATED"
+        );
+      }
+
+      await deleteMessage(messageId, { challengeId }, userId);
+
+      return sendSuccess(res, "Message supprimé avec succès");
+    } catch (error) {
+      logError(
+        error instanceof Error ? error : new Error(String(error)),
+        "Erreur lors de la suppression du message"
+      );
+      if (error instanceof Error) {
+        if (
+          error.message === "Message non trouvé" ||
+          error.message === "Challenge non trouvé"
+        ) {
+          return sendError(res, error.message, 404, "RESOURCE_NOT_FOUND");
+        }
+        if (error.message === "Non autorisé à supprimer ce message") {
+          return sendError(res, error.message, 403, "FORBIDDEN_ACCESS");
+        }
+      }
+      return sendError(
+        res,
+        "Erreur lors de la suppression du message",
+        500,
+        "SERVER_ERROR"
+      );
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/v1/events/{eventId}/challenges/{challengeId}/messages/{messageId}/replies:
+ *   get:
+ *     summary: Réponses du fil d'un message
+ *     description: Récupère une page de réponses du fil d'un message du canal du challenge, de la plus récente à la plus ancienne
+ *     tags: [Messages]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: eventId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: ID de l'événement
+ *       - in: path
+ *         name: challengeId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: ID du challenge
+ *       - in: path
+ *         name: messageId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: ID du message
+ *       - in: query
+ *         name: cursor
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: ID de la dernière réponse de la page précédente (nextCursor)
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 200
+ *           default: 50
+ *         description: Nombre de réponses par page
+ *     responses:
+ *       200:
+ *         description: Réponses récupérées avec succès
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/SuccessResponse'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       type: object
+ *                       properties:
+ *                         messages:
+ *                           type: array
+ *                           items:
+ *                             type: object
+ *                         nextCursor:
+ *                           type: string
+ *                           format: uuid
+ *                           nullable: true
+ *       400:
+ *         description: Paramètres de pagination invalides
+ *       401:
+ *         description: Non authentifié
+ *       403:
+ *         description: Non autorisé à accéder à ce message
+ *       404:
+ *         description: Message non trouvé
+ */
+router.get(
+  "/:messageId/replies",
+  authenticateJWT,
+  validate(getRepliesSchema),
+  async (req: Request, res: Response) => {
+    try {
+      const { challengeId, messageId } = req.params;
+      const { cursor, limit } = req.query as {
+        cursor?: string;
+        limit?: string;
+      };
+      const userId = req.user?.userId;
+
+      if (!userId) {
+        return sendError(
+          res,
+          "Utilisateur non authentifié",
+          401,
+          "NOT_AUTHENTICATED"
+        );
+      }
+
+      const page = await getMessageReplies(
+        messageId,
+        { challengeId },
+        userId,
+        cursor,
+        limit ? Number(limit) : undefined
+      );
+
+      return sendSuccess(res, "Réponses récupérées avec succès", page);
+    } catch (error) {
+      logError(
+        error instanceof Error ? error : new Error(String(error)),
+        "Erreur lors de la récupération des réponses"
+      );
+      if (error instanceof Error) {
+        if (
+          error.message === "Message non trouvé" ||
+          error.message === "Challenge non trouvé"
+        ) {
+          return sendError(res, error.message, 404, "RESOURCE_NOT_FOUND");
+        }
+        if (error.message === "Non autorisé à accéder à ce message") {
+          return sendError(res, error.message, 403, "FORBIDDEN_ACCESS");
+        }
+      }
+      return sendError(
+        res,
+        "Erreur lors de la récupération des réponses",
+        500,
+        "SERVER_ERROR"
+      );
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/v1/events/{eventId}/challenges/{challengeId}/messages/{messageId}/replies:
+ *   post:
+ *     summary: Répondre à un message
+ *     description: Publie une réponse dans le fil d'un message du canal du challenge. Répondre à une réponse l'ajoute au fil du message d'origine. Les membres de l'équipe mentionnés avec @nom reçoivent une notification.
+ *     tags: [Messages]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: eventId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: ID de l'événement
+ *       - in: path
+ *         name: challengeId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: ID du challenge
+ *       - in: path
+ *         name: messageId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: ID du message
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - content
+ *             properties:
+ *               content:
+ *                 type: string
+ *                 description: Contenu de la réponse
+ *                 example: "@alice je regarde le parser"
+ *     responses:
+ *       201:
+ *         description: Réponse envoyée avec succès
+ *       400:
+ *         description: Données d'entrée invalides
+ *       401:
+ *         description: Non authentifié
+ *       403:
+ *         description: Non autorisé à répondre à ce message
+ *       404:
+ *         description: Message non trouvé
+ */
+router.post(
+  "/:messageId/replies",
+  authenticateJWT,
+  validate(replyMessageSchema),
+  async (req: Request, res: Response) => {
+    try {
+      const { challengeId, messageId } = req.params;
+      const { content } = req.body;
+      const userId = req.user?.userId;
+
+      if (!userId) {
+        return sendError(
+          res,
+          "Utilisateur non authentifié",
+          401,
+          "NOT_AUTHENTICATED"
+        );
+      }
+
+      const message = await replyToMessage(
+        messageId,
+        { challengeId },
+        content,
+        userId
+      );
+
+      return sendSuccess(res, "Réponse envoyée avec succès", { message }, 201);
+    } catch (error) {
+      logError(
+        error instanceof Error ? error : new Error(String(error)),
+        "Erreur lors de l'envoi de la réponse"
+      );
+      if (error instanceof Error) {
+        if (
+          error.message === "Message non trouvé" ||
+          error.message === "Challenge non trouvé"
+        ) {
+          return sendError(res, error.message, 404, "RESOURCE_NOT_FOUND");
+        }
+        if (error.message === "Non autorisé à répondre à ce message") {
+          return sendError(res, error.message, 403, "FORBIDDEN_ACCESS");
+        }
+      }
+      return sendError(
+        res,
+        "Erreur lors de l'envoi de la réponse",
+        500,
+        "SERVER_ERROR"
+      );
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/v1/events/{eventId}/challenges/{challengeId}/messages/{messageId}/reactions/{emoji}:
+ *   put:
+ *     summary: Réagir à un message
+ *     description: Ajoute la réaction de l'utilisateur connecté à un message du canal du challenge. Ajouter une réaction déjà présente n'a pas d'effet.
+ *     tags: [Messages]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: eventId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: ID de l'événement
+ *       - in: path
+ *         name: challengeId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: ID du challenge
+ *       - in: path
+ *         name: messageId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: ID du message
+ *       - in: path
+ *         name: emoji
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Emoji de la réaction, encodé pour l'URL
+ *     responses:
+ *       200:
+ *         description: Réaction ajoutée avec succès
+ *       400:
+ *         description: Emoji invalide
+ *       401:
+ *         description: Non authentifié
+ *       403:
+ *         description: Non autorisé à réagir à ce message
+ *       404:
+ *         description: Message non trouvé
+ */
+router.put(
+  "/:messageId/reactions/:emoji",
+  authenticateJWT,
+  validate(reactionSchema),
+  async (req: Request, res: Response) => {
+    try {
+      const { challengeId, messageId, emoji } = req.params;
+      const userId = req.user?.userId;
+
+      if (!userId) {
+        return sendError(
+          res,
+          "Utilisateur non authentifié",
+          401,
+          "NOT_AUTHENTICATED"
+        );
+      }
+
+      const reaction = await addReaction(
+        messageId,
+        { challengeId },
+        emoji,
+        userId
+      );
+
+      return sendSuccess(res, "Réaction ajoutée avec succès", { reaction });
+    } catch (error) {
+      logError(
+        error instanceof Error ? error : new Error(String(error)),
+        "Erreur lors de l'ajout de la réaction"
+      );
+      if (error instanceof Error) {
+        if (
+          error.message === "Message non trouvé" ||
+          error.message === "Challenge non trouvé"
+        ) {
+          return sendError(res, error.message, 404, "RESOURCE_NOT_FOUND");
+        }
+        if (error.message === "Non autorisé à réagir à ce message") {
+          return sendError(res, error.message, 403, "FORBIDDEN_ACCESS");
+        }
+      }
+      return sendError(
+        res,
+        "Erreur lors de l'ajout de la réaction",
+        500,
+        "SERVER_ERROR"
+      );
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/v1/events/{eventId}/challenges/{challengeId}/messages/{messageId}/reactions/{emoji}:
+ *   delete:
+ *     summary: Retirer une réaction
+ *     description: Retire la réaction de l'utilisateur connecté à un message du canal du challenge
+ *     tags: [Messages]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: eventId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: ID de l'événement
+ *       - in: path
+ *         name: challengeId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: ID du challenge
+ *       - in: path
+ *         name: messageId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: ID du message
+ *       - in: path
+ *         name: emoji
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Emoji de la réaction, encodé pour l'URL
+ *     responses:
+ *       200:
+ *         description: Réaction retirée avec succès
+ *       400:
+ *         description: Emoji invalide
+ *       401:
+ *         description: Non authentifié
+ *       403:
+ *         description: Non autorisé à réagir à ce message
+ *       404:
+ *         description: Message ou réaction non trouvé
+ */
+router.delete(
+  "/:messageId/reactions/:emoji",
+  authenticateJWT,
+  validate(reactionSchema),
+  async (req: Request, res: Response) => {
+    try {
+      const { challengeId, messageId, emoji } = req.params;
+      const userId = req.user?.userId;
+
+      if (!userId) {
+        return sendError(
+          res,
+          "Utilisateur non authentifié",
+          401,
+          "NOT_AUTHENTICATED"
+        );
+      }
+
+      await removeReaction(messageId, { challengeId }, emoji, userId);
+
+      return sendSuccess(res, "Réaction retirée avec succès");
+    } catch (error) {
+      logError(
+        error instanceof Error ? error : new Error(String(error)),
+        "Erreur lors du retrait de la réaction"
+      );
+      if (error instanceof Error) {
+        if (
+          error.message === "Message non trouvé" ||
+          error.message === "Réaction non trouvée" ||
+          error.message === "Challenge non trouvé"
+        ) {
+          return sendError(res, error.message, 404, "RESOURCE_NOT_FOUND");
+        }
+        if (error.message === "Non autorisé à réagir à ce message") {
+          return sendError(res, error.message, 403, "FORBIDDEN_ACCESS");
+        }
+      }
+      return sendError(
+        res,
+        "Erreur lors du retrait de la réaction",
+        500,
+        "SERVER_ERROR"
+      );
+    }
+  }
+);
+
+export default router;
@@ -2,18 +2,28 @@ import type { Request, Response } from "express";
 import express from "express";
 import { authenticateJWT } from "../../../../../../middlewares/authMiddleware";
 import { validate } from "../../../../../../middlewares/validationMiddleware";
+import { attachNoteCollaboration } from "../../../../../../services/notes/noteCollaboration";
 import {
   addNoteToChallenge,
   deleteNoteById,
+  getNoteRevisionDiff,
+  getNoteRevisions,
   getNotesByChallengeId,
+  restoreNoteRevision,
   updateNoteById,
 } from "../../../../../../services/notes/noteService";
+import { registerWebSocketRoute } from "../../../../../../services/realtime/websocketServer";
 import { logError } from "../../../../../../utils/logger";
 import {
   sendError,
   sendSuccess,
 } from "../../../../../../utils/responseHandler";
 import { addNoteSchema } from "../../../../../../validation/challengeValidation";
+import {
+  noteRevisionDiffSchema,
+  noteRevisionsSchema,
+  restoreNoteRevisionSchema,
+} from "../../../../../../validation/noteValidation";
 
 const router = express.Router({ mergeParams: true });
 
@@ -279,7 +289,7 @@ router.post(
  * /api/v1/events/{eventId}/challenges/{challengeId}/notes/{noteId}:
  *   put:
  *     summary: Modifier une note
- *     description: Modifie une note existante
+ *     description: Modifie une note existante. L'ancien contenu reste consultable dans l'historique des révisions.
  *     tags: [Notes]
  *     security:
  *       - bearerAuth: []
@@ -348,6 +358,8 @@ router.post(
  *         description: Non autorisé à modifier cette note
  *       404:
  *         description: Note non trouvée
+ *       409:
+ *         description: Note modifiée simultanément par un autre membre
  */
 router.put("/:noteId", authenticateJWT, async (req: Request, res: Response) => {
   try {
@@ -374,6 +386,12 @@ router.put("/:noteId", authenticateJWT, async (req: Request, res: Response) => {
       if (error.message === "Non autorisé à modifier cette note") {
         return sendError(res, error.message, 403, "FORBIDDEN_ACCESS");
       }
+      if (
+        error.message ===
+        "La note a été modifiée simultanément, veuillez réessayer"
+      ) {
+        return sendError(res, error.message, 409, "NOTE_CONFLICT");
+      }
     }
     return sendError(
       res,
@@ -476,4 +494,404 @@ router.delete(
   }
 );
 
+/**
+ * @swagger
+ * /api/v1/events/{eventId}/challenges/{challengeId}/notes/{noteId}/revisions:
+ *   get:
+ *     summary: Historique des révisions d'une note
+ *     description: Récupère les révisions d'une note, de la plus récente à la plus ancienne, avec leur auteur
+ *     tags: [Notes]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: eventId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: ID de l'événement
+ *       - in: path
+ *         name: challengeId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: ID du challenge
+ *       - in: path
+ *         name: noteId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: ID de la note
+ *     responses:
+ *       200:
+ *         description: Révisions récupérées avec succès
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/SuccessResponse'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       type: object
+ *                       properties:
+ *                         revisions:
+ *                           type: array
+ *                           items:
+ *                             type: object
+ *                             properties:
+ *                               id:
+ *                                 type: string
+ *                                 format: uuid
+ *                               version:
+ *                                 type: integer
+ *                               content:
+ *                                 type: string
+ *                               restoredFromVersion:
+ *                                 type: integer
+ *                                 nullable: true
+ *                               createdAt:
+ *                                 type: string
+ *                                 format: date-time
+ *                               user:
+ *                                 type: object
+ *                                 properties:
+ *                                   id:
+ *                                     type: string
+ *                                     format: uuid
+ *                                   username:
+ *                                     type: string
+ *       401:
+ *         description: Non authentifié
+ *       403:
+ *         description: Non autorisé à accéder à cette note
+ *       404:
+ *         description: Note non trouvée
+ */
+router.get(
+  "/:noteId/revisions",
+  authenticateJWT,
+  validate(noteRevisionsSchema),
+  async (req: Request, res: Response) => {
+    try {
+      const { noteId } = req.params;
+      const userId = req.user?.userId;
+
+      if (!userId) {
+        return sendError(
+          res,
+          "Utilisateur non authentifié",
+          401,
+          "UNAUTHORIZED"
+        );
+      }
+
+      const revisions = await getNoteRevisions(noteId, userId);
+
+      return sendSuccess(res, "Révisions récupérées avec succès", {
+        revisions,
+      });
+    } catch (error) {
+      logError(
+        error instanceof Error ? error : new Error(String(error)),
+        "Erreur lors de la récupération des révisions"
+      );
+      if (error instanceof Error) {
+        if (error.message === "Note non trouvée") {
+          return sendError(res, error.message, 404, "RESOURCE_NOT_FOUND");
+        }
+        if (error.message === "Non autorisé à accéder à cette note") {
+          return sendError(res, error.message, 403, "FORBIDDEN_ACCESS");
+        }
+      }
+      return sendError(
+        res,
+        "Erreur lors de la récupération des révisions",
+        500,
+        "SERVER_ERROR"
+      );
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/v1/events/{eventId}/challenges/{challengeId}/notes/{noteId}/revisions/diff:
+ *   get:
+ *     summary: Diff entre deux révisions d'une note
+ *     description: Compare ligne à ligne deux révisions d'une note. Sans version cible, la comparaison se fait avec la dernière révision.
+ *     tags: [Notes]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: eventId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: ID de l'événement
+ *       - in: path
+ *         name: challengeId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: ID du challenge
+ *       - in: path
+ *         name: noteId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: ID de la note
+ *       - in: query
+ *         name: from
+ *         required: true
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *         description: Version de départ
+ *       - in: query
+ *         name: to
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *         description: Version d'arrivée (dernière révision par défaut)
+ *     responses:
+ *       200:
+ *         description: Diff calculé avec succès
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/SuccessResponse'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       type: object
+ *                       properties:
+ *                         from:
+ *                           type: object
+ *                         to:
+ *                           type: object
+ *                         lines:
+ *                           type: array
+ *                           items:
+ *                             type: object
+ *                             properties:
+ *                               type:
+ *                                 type: string
+ *                                 enum: [unchanged, added, removed]
+ *                               content:
+ *                                 type: string
+ *                               oldLine:
+ *                                 type: integer
+ *                                 nullable: true
+ *                               newLine:
+ *                                 type: integer
+ *                                 nullable: true
+ *                         added:
+ *                           type: integer
+ *                         removed:
+ *                           type: integer
+ *       400:
+ *         description: Versions invalides, ou révisions trop volumineuses pour être comparées
+ *       401:
+ *         description: Non authentifié
+ *       403:
+ *         description: Non autorisé à accéder à cette note
+ *       404:
+ *         description: Note ou révision non trouvée
+ */
+router.get(
+  "/:noteId/revisions/diff",
+  authenticateJWT,
+  validate(noteRevisionDiffSchema),
+  async (req: Request, res: Response) => {
+    try {
+      const { noteId } = req.params;
+      const { from, to } = req.query as { from: string; to?: string };
+      const userId = req.user?.userId;
+
+      if (!userId) {
+        return sendError(
+          res,
+          "Utilisateur non authentifié",
+          401,
+          "UNAUTHORIZED"
+        );
+      }
+
+      const diff = await getNoteRevisionDiff(
+        noteId,
+        Number(from),
+        to ? Number(to) : undefined,
+        userId
+      );
+
+      return sendSuccess(res, "Diff calculé avec succès", diff);
+    } catch (error) {
+      logError(
+        error instanceof Error ? error : new Error(String(error)),
+        "Erreur lors du calcul du diff"
+      );
+      if (error instanceof Error) {
+        if (
+          error.message === "Note non trouvée" ||
+          error.message === "Révision non trouvée"
+        ) {
+          return sendError(res, error.message, 404, "RESOURCE_NOT_FOUND");
+        }
+        if (error.message === "Non autorisé à accéder à cette note") {
+          return sendError(res, error.message, 403, "FORBIDDEN_ACCESS");
+        }
+        if (
+          error.message === "Révisions trop volumineuses pour être comparées"
+        ) {
+          return sendError(res, error.message, 400, "DIFF_TOO_LARGE");
+        }
+      }
+      return sendError(
+        res,
+        "Erreur lors du calcul du diff",
+        500,
+        "SERVER_ERROR"
+      );
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/v1/events/{eventId}/challenges/{challengeId}/notes/{noteId}/revisions/{version}/restore:
+ *   post:
+ *     summary: Restaurer une révision d'une note
+ *     description: Remet le contenu d'une ancienne révision dans la note. L'historique n'est pas réécrit, la restauration crée une nouvelle révision.
+ *     tags: [Notes]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: eventId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: ID de l'événement
+ *       - in: path
+ *         name: challengeId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: ID du challenge
+ *       - in: path
+ *         name: noteId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: ID de la note
+ *       - in: path
+ *         name: version
+ *         required: true
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *         description: Version à restaurer
+ *     responses:
+ *       200:
+ *         description: Révision restaurée avec succès
+ *       400:
+ *         description: Version invalide
+ *       401:
+ *         description: Non authentifié
+ *       403:
+ *         description: Non autorisé à modifier cette note
+ *       404:
+ *         description: Note ou révision non trouvée
+ *       409:
+ *         description: Note modifiée simultanément par un autre membre
+ */
+router.post(
+  "/:noteId/revisions/:version/restore",
+  authenticateJWT,
+  validate(restoreNoteRevisionSchema),
+  async (req: Request, res: Response) => {
+    try {
+      const { noteId, version } = req.params;
+      const userId = req.user?.userId;
+
+      if (!userId) {
+        return sendError(
+          res,
+          "Utilisateur non authentifié",
+          401,
+          "UNAUTHORIZED"
+        );
+      }
+
+      const note = await restoreNoteRevision(noteId, Number(version), userId);
+
+      return sendSuccess(res, "Révision restaurée avec succès", { note });
+    } catch (error) {
+      logError(
+        error instanceof Error ? error : new Error(String(error)),
+        "Erreur lors de la restauration de la révision"
+      );
+      if (error instanceof Error) {
+        if (
+          error.message === "Note non trouvée" ||
+          error.message === "Révision non trouvée"
+        ) {
+          return sendError(res, error.message, 404, "RESOURCE_NOT_FOUND");
+        }
+        if (error.message === "Non autorisé à modifier cette note") {
+          return sendError(res, error.message, 403, "FORBIDDEN_ACCESS");
+        }
+        if (
+          error.message ===
+          "La note a été modifiée simultanément, veuillez réessayer"
+        ) {
+          return sendError(res, error.message, 409, "NOTE_CONFLICT");
+        }
+      }
+      return sendError(
+        res,
+        "Erreur lors de la restauration de la révision",
+        500,
+        "SERVER_ERROR"
+      );
+    }
+  }
+);
+
+/**
+ * WebSocket /api/v1/events/{eventId}/challenges/{challengeId}/notes/shared/ws
+ *
+ * Édition collaborative du document partagé du challenge, enregistré dans une
+ * note que les routes REST ci-dessus renvoient comme les autres. Messages JSON :
+ * - reçus : sync (état Yjs complet et participants), update (mise à jour Yjs
+ *   en base64), presence (curseur d'un participant), presence.left
+ * - envoyés : update (mise à jour Yjs en base64), presence ({ anchor, head }
+ *   ou null)
+ */
+registerWebSocketRoute(
+  "/api/v1/events/:eventId/challenges/:challengeId/notes/shared/ws",
+  async (socket, { params, user }) => {
+    try {
+      await attachNoteCollaboration(socket, params.challengeId, user.userId);
+    } catch (error) {
+      socket.close(
+        1008,
+        error instanceof Error ? error.message : "Accès refusé"
+      );
+    }
+  }
+);
+
 export default router;
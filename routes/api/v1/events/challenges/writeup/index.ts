@@ -0,0 +1,188 @@
+import type { Request, Response } from "express";
+import express from "express";
+import { authenticateJWT } from "../../../../../../middlewares/authMiddleware";
+import { validate } from "../../../../../../middlewares/validationMiddleware";
+import {
+  getChallengeWriteup,
+  getChallengeWriteupArchive,
+} from "../../../../../../services/writeups/writeupService";
+import { logError } from "../../../../../../utils/logger";
+import {
+  sendError,
+  sendSuccess,
+} from "../../../../../../utils/responseHandler";
+import { challengeWriteupSchema } from "../../../../../../validation/writeupValidation";
+
+const router = express.Router({ mergeParams: true });
+
+/**
+ * @swagger
+ * /api/v1/events/{eventId}/challenges/{challengeId}/writeup:
+ *   get:
+ *     summary: Writeup d'un challenge
+ *     description: |
+ *       Génère le writeup d'un challenge à partir de sa description, de ses notes (dans l'ordre, avec leurs auteurs), de la tentative de flag réussie et de ses ressources.
+ *       - markdown : fichier Markdown, les ressources sont liées à leur route de téléchargement
+ *       - json : éléments retenus avec leurs IDs et aperçu Markdown, pour choisir quoi exclure
+ *       - zip : Markdown et ressources en pièces jointes
+ *     tags: [Writeups]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: eventId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: ID de l'événement
+ *       - in: path
+ *         name: challengeId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: ID du challenge
+ *       - in: query
+ *         name: format
+ *         schema:
+ *           type: string
+ *           enum: [markdown, json, zip]
+ *           default: markdown
+ *         description: Format du writeup
+ *       - in: query
+ *         name: exclude
+ *         schema:
+ *           type: string
+ *         description: IDs des notes, tentatives de flag ou ressources à exclure, séparés par des virgules
+ *     responses:
+ *       200:
+ *         description: Writeup généré avec succès
+ *         content:
+ *           text/markdown:
+ *             schema:
+ *               type: string
+ *           application/zip:
+ *             schema:
+ *               type: string
+ *               format: binary
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/SuccessResponse'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       type: object
+ *                       properties:
+ *                         content:
+ *                           type: object
+ *                           properties:
+ *                             challenge:
+ *                               type: object
+ *                             notes:
+ *                               type: array
+ *                               items:
+ *                                 type: object
+ *                             flag:
+ *                               type: object
+ *                               nullable: true
+ *                             resources:
+ *                               type: array
+ *                               items:
+ *                                 type: object
+ *                         markdown:
+ *                           type: string
+ *       400:
+ *         description: Paramètres invalides
+ *       401:
+ *         description: Non authentifié
+ *       403:
+ *         description: Non autorisé à accéder à ce challenge
+ *       404:
+ *         description: Challenge non trouvé
+ */
+router.get(
+  "/",
+  authenticateJWT,
+  validate(challengeWriteupSchema),
+  async (req: Request, res: Response) => {
+    try {
+      const { eventId, challengeId } = req.params;
+      const { format, exclude } = req.query as {
+        format?: "markdown" | "json" | "zip";
+        exclude?: string;
+      };
+      const userId = req.user?.userId;
+
+      if (!userId) {
+        return sendError(
+          res,
+          "Utilisateur non authentifié",
+          401,
+          "NOT_AUTHENTICATED"
+        );
+      }
+
+      const excluded = exclude ? exclude.split(",") : [];
+
+      if (format === "zip") {
+        const { filename, archive } = await getChallengeWriteupArchive(
+          challengeId,
+          eventId,
+          userId,
+          excluded
+        );
+
+        res.setHeader("Content-Type", "application/zip");
+        res.setHeader(
+          "Content-Disposition",
+          `attachment; filename="${filename}.zip"`
+        );
+        return res.send(Buffer.from(archive));
+      }
+
+      const writeup = await getChallengeWriteup(
+        challengeId,
+        eventId,
+        userId,
+        excluded
+      );
+
+      if (format === "json") {
+        return sendSuccess(res, "Writeup généré avec succès", {
+          content: writeup.content,
+          markdown: writeup.markdown,
+        });
+      }
+
+      res.setHeader("Content-Type", "text/markdown; charset=utf-8");
+      res.setHeader(
+        "Content-Disposition",
+        `attachment; filename="${writeup.filename}.md"`
+      );
+      return res.send(writeup.markdown);
+    } catch (error) {
+      logError(
+        error instanceof Error ? error : new Error(String(error)),
+        "Erreur lors de la génération du writeup"
+      );
+      if (error instanceof Error) {
+        if (error.message === "Challenge non trouvé") {
+          return sendError(res, error.message, 404, "RESOURCE_NOT_FOUND");
+        }
+        if (error.message === "Non autorisé à accéder à ce challenge") {
+          return sendError(res, error.message, 403, "FORBIDDEN_ACCESS");
+        }
+      }
+      return sendError(
+        res,
+        "Erreur lors de la génération du writeup",
+        500,
+        "SERVER_ERROR"
+      );
+    }
+  }
+);
+
+export default router;
@@ -1,21 +1,44 @@
 import type { Request, Response } from "express";
 import express from "express";
+import multer from "multer";
 import { authenticateJWT } from "../../../../middlewares/authMiddleware";
 import { validate } from "../../../../middlewares/validationMiddleware";
+import {
+  exportEventArchive,
+  importEventArchive,
+} from "../../../../services/events/eventArchiveService";
+import type { TeamConflictStrategy } from "../../../../services/events/eventArchiveService";
 import {
   createEvent,
   getEventById,
+  getEventScoreboard,
   getEvents,
+  updatePlatformCredentials,
 } from "../../../../services/events/eventService";
 import { sendError, sendSuccess } from "../../../../utils/responseHandler";
-import { createEventSchema } from "../../../../validation/eventValidation";
+import { importEventArchiveSchema } from "../../../../validation/eventArchiveValidation";
+import {
+  createEventSchema,
+  updatePlatformCredentialsSchema,
+} from "../../../../validation/eventValidation";
 import challengesRoutes from "./challenges";
+import challengeMessagesRoutes from "./challenges/messages";
 import challengeNotesRoutes from "./challenges/notes";
+import challengeWriteupRoutes from "./challenges/writeup";
 import teamsRoutes from "./teams";
+import writeupRoutes from "./writeup";
 import { info, warn, error, logError } from "../../../../utils/logger";
 
 const router = express.Router();
 
+// Les archives d'événement sont lues en mémoire pour être importées
+const archiveUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: 50 * 1024 * 1024, // Limite à 50 Mo
+  },
+});
+
 /**
  * @swagger
  * /api/v1/events:
@@ -129,12 +152,16 @@ router.get("/", authenticateJWT, async (req: Request, res: Response) => {
  *               website:
  *                 type: string
  *                 description: Site web de l'événement
- *               ctfdUrl:
+ *               platform:
+ *                 type: string
+ *                 enum: [CTFD, RCTF]
+ *                 description: Type de plateforme CTF
+ *               platformUrl:
  *                 type: string
- *                 description: URL de l'instance CTFd
- *               ctfdApiKey:
+ *                 description: URL de la plateforme CTF
+ *               platformApiKey:
  *                 type: string
- *                 description: Clé API pour l'instance CTFd
+ *                 description: Clé API (CTFd) ou token d'équipe (rCTF) pour la plateforme. Les résolutions ne sont synchronisées qu'une fois la clé rattachée à une équipe (PUT /api/v1/events/{eventId}/platform-credentials).
  *     responses:
  *       201:
  *         description: Événement créé avec succès
@@ -166,8 +193,14 @@ router.get("/", authenticateJWT, async (req: Request, res: Response) => {
  *                               format: date-time
  *                             website:
  *                               type: string
- *                             ctfdUrl:
+ *                             platform:
  *                               type: string
+ *                               enum: [CTFD, RCTF]
+ *                             platformUrl:
+ *                               type: string
+ *                             hasPlatformApiKey:
+ *                               type: boolean
+ *                               description: Indique si une clé API est configurée (la clé n'est jamais renvoyée)
  *       400:
  *         description: Données d'entrée invalides
  *         content:
@@ -193,8 +226,9 @@ router.post(
         startDate,
         endDate,
         website,
-        ctfdUrl,
-        ctfdApiKey,
+        platform,
+        platformUrl,
+        platformApiKey,
       } = req.body;
       const userId = req.user?.userId;
 
@@ -213,8 +247,9 @@ router.post(
         new Date(startDate),
         new Date(endDate),
         website,
-        ctfdUrl,
-        ctfdApiKey,
+        platform,
+        platformUrl,
+        platformApiKey,
         userId
       );
 
@@ -282,8 +317,14 @@ router.post(
  *                               format: date-time
  *                             website:
  *                               type: string
- *                             ctfdUrl:
+ *                             platform:
+ *                               type: string
+ *                               enum: [CTFD, RCTF]
+ *                             platformUrl:
  *                               type: string
+ *                             hasPlatformApiKey:
+ *                               type: boolean
+ *                               description: Indique si une clé API est configurée (la clé n'est jamais renvoyée)
  *       401:
  *         description: Non authentifié
  *         content:
@@ -348,13 +389,437 @@ router.get(
   }
 );
 
+/**
+ * @swagger
+ * /api/v1/events/{eventId}/scoreboard:
+ *   get:
+ *     summary: Classement d'un événement
+ *     description: Récupère le classement de l'événement depuis sa plateforme CTF
+ *     tags: [Events]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: eventId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: ID de l'événement
+ *     responses:
+ *       200:
+ *         description: Classement récupéré avec succès
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/SuccessResponse'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       type: object
+ *                       properties:
+ *                         scoreboard:
+ *                           type: array
+ *                           items:
+ *                             type: object
+ *                             properties:
+ *                               position:
+ *                                 type: integer
+ *                               name:
+ *                                 type: string
+ *                               score:
+ *                                 type: integer
+ *       400:
+ *         description: Aucune plateforme CTF configurée pour cet événement
+ *       401:
+ *         description: Non authentifié
+ *       403:
+ *         description: Non autorisé à accéder à cet événement
+ *       404:
+ *         description: Événement non trouvé
+ *       502:
+ *         description: Erreur lors de la communication avec la plateforme CTF
+ */
+router.get(
+  "/:eventId/scoreboard",
+  authenticateJWT,
+  async (req: Request, res: Response) => {
+    try {
+      const { eventId } = req.params;
+      const userId = req.user?.userId;
+
+      if (!userId) {
+        return sendError(
+          res,
+          "Utilisateur non authentifié",
+          401,
+          "UNAUTHORIZED"
+        );
+      }
+
+      const scoreboard = await getEventScoreboard(eventId, userId);
+
+      return sendSuccess(res, "Classement récupéré avec succès", {
+        scoreboard,
+      });
+    } catch (error) {
+      logError(
+        error instanceof Error ? error : new Error(String(error)),
+        "Erreur lors de la récupération du classement"
+      );
+      if (error instanceof Error) {
+        if (error.message === "Événement non trouvé") {
+          return sendError(res, error.message, 404, "RESOURCE_NOT_FOUND");
+        }
+        if (error.message === "Non autorisé à accéder à cet événement") {
+          return sendError(res, error.message, 403, "FORBIDDEN_ACCESS");
+        }
+        if (
+          error.message ===
+          "Aucune plateforme CTF configurée pour cet événement"
+        ) {
+          return sendError(res, error.message, 400, "PLATFORM_NOT_CONFIGURED");
+        }
+        if (error.message.startsWith("Erreur de la plateforme CTF")) {
+          return sendError(res, error.message, 502, "PLATFORM_ERROR");
+        }
+      }
+      return sendError(
+        res,
+        "Erreur lors de la récupération du classement",
+        500,
+        "SERVER_ERROR"
+      );
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/v1/events/{eventId}/platform-credentials:
+ *   put:
+ *     summary: Remplacer les identifiants de la plateforme CTF
+ *     description: Remplace la clé API (et éventuellement le type et l'URL) de la plateforme CTF d'un événement. La clé est stockée chiffrée et n'est jamais renvoyée. Les identifiants appartiennent à une équipe de l'événement - seules ses résolutions sur la plateforme sont synchronisées et seuls ses flags y sont relayés. Une fois rattachés, seuls le propriétaire de cette équipe et les administrateurs peuvent les remplacer ; au premier renseignement, le propriétaire d'une équipe inscrite les rattache à son équipe.
+ *     tags: [Events]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: eventId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: ID de l'événement
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - platformApiKey
+ *             properties:
+ *               platform:
+ *                 type: string
+ *                 enum: [CTFD, RCTF]
+ *                 description: Type de plateforme CTF
+ *               platformUrl:
+ *                 type: string
+ *                 description: URL de la plateforme CTF
+ *               platformApiKey:
+ *                 type: string
+ *                 description: Nouvelle clé API de la plateforme
+ *               teamId:
+ *                 type: string
+ *                 format: uuid
+ *                 description: Équipe de l'événement à laquelle appartient la clé (par défaut, l'équipe actuelle ; au premier renseignement, celle du propriétaire qui la renseigne). Seul un administrateur peut la changer, et doit l'indiquer si aucune équipe n'est encore rattachée.
+ *     responses:
+ *       200:
+ *         description: Identifiants mis à jour avec succès
+ *       400:
+ *         description: Données d'entrée invalides
+ *       401:
+ *         description: Non authentifié
+ *       403:
+ *         description: Non autorisé à modifier les identifiants de cet événement
+ *       404:
+ *         description: Événement non trouvé
+ */
+router.put(
+  "/:eventId/platform-credentials",
+  authenticateJWT,
+  validate(updatePlatformCredentialsSchema),
+  async (req: Request, res: Response) => {
+    try {
+      const { eventId } = req.params;
+      const { platform, platformUrl, platformApiKey, teamId } = req.body;
+      const user = req.user;
+
+      if (!user) {
+        return sendError(
+          res,
+          "Utilisateur non authentifié",
+          401,
+          "UNAUTHORIZED"
+        );
+      }
+
+      const event = await updatePlatformCredentials(
+        eventId,
+        user.userId,
+        user.role,
+        { platform, platformUrl, platformApiKey, teamId }
+      );
+
+      return sendSuccess(res, "Identifiants de la plateforme mis à jour", {
+        event,
+      });
+    } catch (error) {
+      logError(
+        error instanceof Error ? error : new Error(String(error)),
+        "Erreur lors de la mise à jour des identifiants de la plateforme"
+      );
+      if (error instanceof Error) {
+        if (error.message === "Événement non trouvé") {
+          return sendError(res, error.message, 404, "RESOURCE_NOT_FOUND");
+        }
+        if (
+          error.message ===
+          "Non autorisé à modifier les identifiants de cet événement"
+        ) {
+          return sendError(res, error.message, 403, "FORBIDDEN_ACTION");
+        }
+        if (
+          error.message === "Le type et l'URL de la plateforme sont requis" ||
+          error.message === "Cette équipe n'est pas inscrite à l'événement" ||
+          error.message === "L'équipe propriétaire des identifiants est requise"
+        ) {
+          return sendError(res, error.message, 400, "INVALID_INPUT");
+        }
+      }
+      return sendError(
+        res,
+        "Erreur lors de la mise à jour des identifiants de la plateforme",
+        500,
+        "SERVER_ERROR"
+      );
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/v1/events/{eventId}/archive:
+ *   get:
+ *     summary: Exporter un événement
+ *     description: Génère une archive zip versionnée de l'événement contenant un manifeste JSON (équipes, challenges, notes et leurs révisions, tentatives de flag, messages des challenges) et les fichiers des ressources. Seules les équipes de l'utilisateur sont exportées, toutes pour un administrateur. La clé d'API de la plateforme n'est jamais exportée.
+ *     tags: [Events]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: eventId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: ID de l'événement
+ *     responses:
+ *       200:
+ *         description: Archive générée avec succès
+ *         content:
+ *           application/zip:
+ *             schema:
+ *               type: string
+ *               format: binary
+ *       401:
+ *         description: Non authentifié
+ *       403:
+ *         description: Non autorisé à exporter cet événement
+ *       404:
+ *         description: Événement non trouvé
+ */
+router.get(
+  "/:eventId/archive",
+  authenticateJWT,
+  async (req: Request, res: Response) => {
+    try {
+      const { eventId } = req.params;
+      const user = req.user;
+
+      if (!user) {
+        return sendError(
+          res,
+          "Utilisateur non authentifié",
+          401,
+          "UNAUTHORIZED"
+        );
+      }
+
+      const { filename, archive } = await exportEventArchive(
+        eventId,
+        user.userId,
+        user.role
+      );
+
+      res.setHeader("Content-Type", "application/zip");
+      res.setHeader(
+        "Content-Disposition",
+        `attachment; filename="${filename}.zip"`
+      );
+      return res.send(Buffer.from(archive));
+    } catch (error) {
+      logError(
+        error instanceof Error ? error : new Error(String(error)),
+        "Erreur lors de l'export de l'événement"
+      );
+      if (error instanceof Error) {
+        if (error.message === "Événement non trouvé") {
+          return sendError(res, error.message, 404, "RESOURCE_NOT_FOUND");
+        }
+        if (error.message === "Non autorisé à exporter cet événement") {
+          return sendError(res, error.message, 403, "FORBIDDEN_ACCESS");
+        }
+      }
+      return sendError(
+        res,
+        "Erreur lors de l'export de l'événement",
+        500,
+        "SERVER_ERROR"
+      );
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/v1/events/import:
+ *   post:
+ *     summary: Importer un événement
+ *     description: Crée un nouvel événement à partir d'une archive exportée par une instance FlagHive. Tous les IDs sont régénérés. Les auteurs sont retrouvés par leur nom d'utilisateur parmi les membres de l'équipe de destination, les autres éléments sont attribués à l'utilisateur qui importe.
+ *     tags: [Events]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: teamConflict
+ *         schema:
+ *           type: string
+ *           enum: [rename, merge]
+ *           default: rename
+ *         description: Traitement d'une équipe dont le nom existe déjà — rename crée une équipe suffixée de "-import", merge importe dans l'équipe existante (propriétaire ou administrateur de l'équipe requis ; une équipe existante ne reçoit qu'une équipe de l'archive, les suivantes sont renommées)
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         multipart/form-data:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - archive
+ *             properties:
+ *               archive:
+ *                 type: string
+ *                 format: binary
+ *                 description: Archive zip de l'événement
+ *     responses:
+ *       201:
+ *         description: Événement importé avec succès, avec le détail des équipes et des utilisateurs retrouvés ou réattribués
+ *       400:
+ *         description: Archive absente, invalide ou de version non prise en charge
+ *       401:
+ *         description: Non authentifié
+ *       403:
+ *         description: Non autorisé à importer dans une équipe existante
+ *       413:
+ *         description: Archive trop volumineuse
+ */
+router.post(
+  "/import",
+  authenticateJWT,
+  archiveUpload.single("archive"),
+  validate(importEventArchiveSchema),
+  async (req: Request, res: Response) => {
+    try {
+      const { teamConflict } = req.query as {
+        teamConflict?: TeamConflictStrategy;
+      };
+      const userId = req.user?.userId;
+      const file = req.file;
+
+      if (!userId) {
+        return sendError(
+          res,
+          "Utilisateur non authentifié",
+          401,
+          "UNAUTHORIZED"
+        );
+      }
+
+      if (!file) {
+        return sendError(res, "Aucun fichier fourni", 400, "NO_FILE_PROVIDED");
+      }
+
+      const result = await importEventArchive(
+        new Uint8Array(file.buffer),
+        userId,
+        teamConflict
+      );
+
+      return sendSuccess(res, "Événement importé avec succès", result, 201);
+    } catch (error) {
+      logError(
+        error instanceof Error ? error : new Error(String(error)),
+        "Erreur lors de l'import de l'événement"
+      );
+      if (error instanceof Error) {
+        if (
+          error.message === "Archive d'événement invalide" ||
+          error.message === "Version d'archive non prise en charge"
+        ) {
+          return sendError(res, error.message, 400, "INVALID_ARCHIVE");
+        }
+        if (error.message === "Archive trop volumineuse") {
+          return sendError(res, error.message, 413, "ARCHIVE_TOO_LARGE");
+        }
+        if (
+          error.message.startsWith(
+            "Non autorisé à importer dans l'équipe existante"
+          )
+        ) {
+          return sendError(res, error.message, 403, "FORBIDDEN_ACTION");
+        }
+      }
+      return sendError(
+        res,
+        "Erreur lors de l'import de l'événement",
+        500,
+        "SERVER_ERROR"
+      );
+    }
+  }
+);
+
 // Monter les sous-routes pour les challenges
 router.use("/:eventId/challenges", challengesRoutes);
 
 // Monter les sous-routes pour les notes des challenges
 router.use("/:eventId/challenges/:challengeId/notes", challengeNotesRoutes);
 
+// Monter les sous-routes pour le chat des challenges
+router.use(
+  "/:eventId/challenges/:challengeId/messages",
+  challengeMessagesRoutes
+);
+
+// Monter les sous-routes pour les writeups des challenges
+router.use("/:eventId/challenges/:challengeId/writeup", challengeWriteupRoutes);
+
 // Monter les sous-routes pour les équipes
 router.use("/:eventId/teams", teamsRoutes);
 
+// Monter les sous-routes pour les writeups de l'événement
+router.use("/:eventId/writeup", writeupRoutes);
+
 export default router;
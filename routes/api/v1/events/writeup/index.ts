@@ -0,0 +1,124 @@
+import type { Request, Response } from "express";
+import express from "express";
+import { authenticateJWT } from "../../../../../middlewares/authMiddleware";
+import { validate } from "../../../../../middlewares/validationMiddleware";
+import { getEventWriteupArchive } from "../../../../../services/writeups/writeupService";
+import { logError } from "../../../../../utils/logger";
+import { sendError } from "../../../../../utils/responseHandler";
+import { eventWriteupSchema } from "../../../../../validation/writeupValidation";
+
+const router = express.Router({ mergeParams: true });
+
+/**
+ * @swagger
+ * /api/v1/events/{eventId}/writeup:
+ *   get:
+ *     summary: Writeups d'un événement
+ *     description: Génère une archive zip des writeups d'une équipe pour un événement, avec un dossier par challenge classé par catégorie, les ressources en pièces jointes et un index
+ *     tags: [Writeups]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: eventId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: ID de l'événement
+ *       - in: query
+ *         name: teamId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: ID de l'équipe
+ *       - in: query
+ *         name: exclude
+ *         schema:
+ *           type: string
+ *         description: IDs des challenges, notes, tentatives de flag ou ressources à exclure, séparés par des virgules
+ *     responses:
+ *       200:
+ *         description: Archive générée avec succès
+ *         content:
+ *           application/zip:
+ *             schema:
+ *               type: string
+ *               format: binary
+ *       400:
+ *         description: Paramètres invalides
+ *       401:
+ *         description: Non authentifié
+ *       403:
+ *         description: Équipe non associée à l'événement ou non autorisé à accéder à ses writeups
+ *       404:
+ *         description: Événement non trouvé
+ */
+router.get(
+  "/",
+  authenticateJWT,
+  validate(eventWriteupSchema),
+  async (req: Request, res: Response) => {
+    try {
+      const { eventId } = req.params;
+      const { teamId, exclude } = req.query as {
+        teamId: string;
+        exclude?: string;
+      };
+      const userId = req.user?.userId;
+
+      if (!userId) {
+        return sendError(
+          res,
+          "Utilisateur non authentifié",
+          401,
+          "NOT_AUTHENTICATED"
+        );
+      }
+
+      const { filename, archive } = await getEventWriteupArchive(
+        eventId,
+        teamId,
+        userId,
+        exclude ? exclude.split(",") : []
+      );
+
+      res.setHeader("Content-Type", "application/zip");
+      res.setHeader(
+        "Content-Disposition",
+        `attachment; filename="${filename}.zip"`
+      );
+      return res.send(Buffer.from(archive));
+    } catch (error) {
+      logError(
+        error instanceof Error ? error : new Error(String(error)),
+        "Erreur lors de la génération des writeups"
+      );
+      if (error instanceof Error) {
+        if (error.message === "Événement non trouvé") {
+          return sendError(res, error.message, 404, "RESOURCE_NOT_FOUND");
+        }
+        if (
+          error.message === "Cette équipe n'est pas associée à cet événement"
+        ) {
+          return sendError(res, error.message, 403, "FORBIDDEN_ACTION");
+        }
+        if (
+          error.message ===
+          "Non autorisé à accéder aux writeups de cette équipe"
+        ) {
+          return sendError(res, error.message, 403, "FORBIDDEN_ACCESS");
+        }
+      }
+      return sendError(
+        res,
+        "Erreur lors de la génération des writeups",
+        500,
+        "SERVER_ERROR"
+      );
+    }
+  }
+);
+
+export default router;
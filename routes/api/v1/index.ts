@@ -3,7 +3,11 @@ import { Router } from "express";
 import authRoutes from "./auth";
 import csrfRoutes from "./csrf";
 import eventsRoutes from "./events";
+import knowledgeRoutes from "./knowledge";
+import notificationsRoutes from "./notifications";
+import searchRoutes from "./search";
 import teamsRoutes from "./teams";
+import tokensRoutes from "./tokens";
 
 /**
  * @swagger
@@ -41,6 +45,10 @@ export const register = (app: Express): void => {
   router.use("/auth", authRoutes);
   router.use("/teams", teamsRoutes);
   router.use("/events", eventsRoutes);
+  router.use("/notifications", notificationsRoutes);
+  router.use("/knowledge", knowledgeRoutes);
+  router.use("/search", searchRoutes);
+  router.use("/tokens", tokensRoutes);
   router.use("/csrf", csrfRoutes);
 
   // Monter toutes les routes API v1 sous /api/v1
@@ -0,0 +1,229 @@
+import type { Request, Response } from "express";
+import express from "express";
+import { authenticateJWT } from "../../../../middlewares/authMiddleware";
+import { validate } from "../../../../middlewares/validationMiddleware";
+import {
+  getKnowledgeBase,
+  getKnowledgeCategories,
+} from "../../../../services/knowledge/knowledgeBaseService";
+import { logError } from "../../../../utils/logger";
+import { sendError, sendSuccess } from "../../../../utils/responseHandler";
+import { getKnowledgeBaseSchema } from "../../../../validation/knowledgeValidation";
+
+const router = express.Router();
+
+/**
+ * @swagger
+ * /api/v1/knowledge:
+ *   get:
+ *     summary: Base de connaissances
+ *     description: Liste paginée des challenges résolus par les équipes de l'utilisateur, tous événements confondus, du plus récent au plus ancien. Chaque entrée contient l'événement, l'équipe, les notes et les tentatives de flag réussies.
+ *     tags: [Knowledge]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: category
+ *         schema:
+ *           type: string
+ *         description: Catégorie des challenges (insensible à la casse)
+ *       - in: query
+ *         name: tags
+ *         schema:
+ *           type: string
+ *         description: Tags séparés par des virgules, un challenge doit en avoir au moins un
+ *       - in: query
+ *         name: q
+ *         schema:
+ *           type: string
+ *         description: Texte recherché dans le nom et la description
+ *       - in: query
+ *         name: teamId
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Limite la liste à une équipe de l'utilisateur
+ *       - in: query
+ *         name: cursor
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: ID de la dernière entrée de la page précédente
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 100
+ *           default: 20
+ *         description: Nombre d'entrées par page
+ *     responses:
+ *       200:
+ *         description: Base de connaissances récupérée avec succès
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/SuccessResponse'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       type: object
+ *                       properties:
+ *                         entries:
+ *                           type: array
+ *                           items:
+ *                             type: object
+ *                         nextCursor:
+ *                           type: string
+ *                           format: uuid
+ *                           nullable: true
+ *       400:
+ *         description: Paramètres invalides
+ *       401:
+ *         description: Non authentifié
+ *       403:
+ *         description: Non autorisé à accéder à cette équipe
+ */
+router.get(
+  "/",
+  authenticateJWT,
+  validate(getKnowledgeBaseSchema),
+  async (req: Request, res: Response) => {
+    try {
+      const { category, tags, q, teamId, cursor, limit } = req.query as {
+        category?: string;
+        tags?: string;
+        q?: string;
+        teamId?: string;
+        cursor?: string;
+        limit?: string;
+      };
+      const userId = req.user?.userId;
+
+      if (!userId) {
+        return sendError(
+          res,
+          "Utilisateur non authentifié",
+          401,
+          "NOT_AUTHENTICATED"
+        );
+      }
+
+      const page = await getKnowledgeBase(
+        userId,
+        {
+          category: category?.trim() || undefined,
+          tags: tags ? tags.split(",").filter((tag) => tag.trim()) : undefined,
+          q: q?.trim() || undefined,
+          teamId,
+        },
+        cursor,
+        limit ? Number(limit) : undefined
+      );
+
+      return sendSuccess(
+        res,
+        "Base de connaissances récupérée avec succès",
+        page
+      );
+    } catch (error) {
+      logError(
+        error instanceof Error ? error : new Error(String(error)),
+        "Erreur lors de la récupération de la base de connaissances"
+      );
+      if (
+        error instanceof Error &&
+        error.message === "Non autorisé à accéder à cette équipe"
+      ) {
+        return sendError(res, error.message, 403, "FORBIDDEN_ACCESS");
+      }
+      return sendError(
+        res,
+        "Erreur lors de la récupération de la base de connaissances",
+        500,
+        "SERVER_ERROR"
+      );
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/v1/knowledge/categories:
+ *   get:
+ *     summary: Catégories de la base de connaissances
+ *     description: Catégories et tags des challenges résolus par les équipes de l'utilisateur, avec le nombre de challenges pour chacun
+ *     tags: [Knowledge]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Catégories récupérées avec succès
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/SuccessResponse'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       type: object
+ *                       properties:
+ *                         categories:
+ *                           type: array
+ *                           items:
+ *                             type: object
+ *                             properties:
+ *                               category:
+ *                                 type: string
+ *                                 nullable: true
+ *                               count:
+ *                                 type: integer
+ *                         tags:
+ *                           type: array
+ *                           items:
+ *                             type: object
+ *                             properties:
+ *                               tag:
+ *                                 type: string
+ *                               count:
+ *                                 type: integer
+ *       401:
+ *         description: Non authentifié
+ */
+router.get(
+  "/categories",
+  authenticateJWT,
+  async (req: Request, res: Response) => {
+    try {
+      const userId = req.user?.userId;
+
+      if (!userId) {
+        return sendError(
+          res,
+          "Utilisateur non authentifié",
+          401,
+          "NOT_AUTHENTICATED"
+        );
+      }
+
+      const categories = await getKnowledgeCategories(userId);
+
+      return sendSuccess(res, "Catégories récupérées avec succès", categories);
+    } catch (error) {
+      logError(
+        error instanceof Error ? error : new Error(String(error)),
+        "Erreur lors de la récupération des catégories"
+      );
+      return sendError(
+        res,
+        "Erreur lors de la récupération des catégories",
+        500,
+        "SERVER_ERROR"
+      );
+    }
+  }
+);
+
+export default router;
@@ -0,0 +1,260 @@
+import type { Request, Response } from "express";
+import express from "express";
+import { authenticateJWT } from "../../../../middlewares/authMiddleware";
+import { validate } from "../../../../middlewares/validationMiddleware";
+import {
+  getNotifications,
+  markAllNotificationsRead,
+  markNotificationRead,
+} from "../../../../services/notifications/notificationService";
+import { logError } from "../../../../utils/logger";
+import { sendError, sendSuccess } from "../../../../utils/responseHandler";
+import {
+  getNotificationsSchema,
+  notificationIdSchema,
+} from "../../../../validation/notificationValidation";
+
+const router = express.Router();
+
+/**
+ * @swagger
+ * /api/v1/notifications:
+ *   get:
+ *     summary: Notifications de l'utilisateur
+ *     description: Récupère une page de notifications de l'utilisateur connecté (mentions dans le chat), des plus récentes aux plus anciennes, avec le nombre de notifications non lues
+ *     tags: [Notifications]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: unread
+ *         schema:
+ *           type: string
+ *           enum: ["true", "false"]
+ *         description: Ne renvoyer que les notifications non lues
+ *       - in: query
+ *         name: cursor
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: ID de la dernière notification de la page précédente (nextCursor)
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 200
+ *           default: 50
+ *         description: Nombre de notifications par page
+ *     responses:
+ *       200:
+ *         description: Notifications récupérées avec succès
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/SuccessResponse'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       type: object
+ *                       properties:
+ *                         notifications:
+ *                           type: array
+ *                           items:
+ *                             type: object
+ *                             properties:
+ *                               id:
+ *                                 type: string
+ *                                 format: uuid
+ *                               type:
+ *                                 type: string
+ *                                 enum: [MENTION]
+ *                               readAt:
+ *                                 type: string
+ *                                 format: date-time
+ *                                 nullable: true
+ *                               message:
+ *                                 type: object
+ *                         unreadCount:
+ *                           type: integer
+ *                         nextCursor:
+ *                           type: string
+ *                           format: uuid
+ *                           nullable: true
+ *       400:
+ *         description: Paramètres invalides
+ *       401:
+ *         description: Non authentifié
+ */
+router.get(
+  "/",
+  authenticateJWT,
+  validate(getNotificationsSchema),
+  async (req: Request, res: Response) => {
+    try {
+      const { unread, cursor, limit } = req.query as {
+        unread?: string;
+        cursor?: string;
+        limit?: string;
+      };
+      const userId = req.user?.userId;
+
+      if (!userId) {
+        return sendError(
+          res,
+          "Utilisateur non authentifié",
+          401,
+          "NOT_AUTHENTICATED"
+        );
+      }
+
+      const page = await getNotifications(
+        userId,
+        unread === "true",
+        cursor,
+        limit ? Number(limit) : undefined
+      );
+
+      return sendSuccess(res, "Notifications récupérées avec succès", page);
+    } catch (error) {
+      logError(
+        error instanceof Error ? error : new Error(String(error)),
+        "Erreur lors de la récupération des notifications"
+      );
+      return sendError(
+        res,
+        "Erreur lors de la récupération des notifications",
+        500,
+        "SERVER_ERROR"
+      );
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/v1/notifications/read:
+ *   post:
+ *     summary: Tout marquer comme lu
+ *     description: Marque toutes les notifications de l'utilisateur connecté comme lues
+ *     tags: [Notifications]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Notifications marquées comme lues
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/SuccessResponse'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       type: object
+ *                       properties:
+ *                         count:
+ *                           type: integer
+ *       401:
+ *         description: Non authentifié
+ */
+router.post("/read", authenticateJWT, async (req: Request, res: Response) => {
+  try {
+    const userId = req.user?.userId;
+
+    if (!userId) {
+      return sendError(
+        res,
+        "Utilisateur non authentifié",
+        401,
+        "NOT_AUTHENTICATED"
+      );
+    }
+
+    const count = await markAllNotificationsRead(userId);
+
+    return sendSuccess(res, "Notifications marquées comme lues", { count });
+  } catch (error) {
+    logError(
+      error instanceof Error ? error : new Error(String(error)),
+      "Erreur lors du marquage des notifications"
+    );
+    return sendError(
+      res,
+      "Erreur lors du marquage des notifications",
+      500,
+      "SERVER_ERROR"
+    );
+  }
+});
+
+/**
+ * @swagger
+ * /api/v1/notifications/{notificationId}/read:
+ *   post:
+ *     summary: Marquer une notification comme lue
+ *     description: Marque une notification de l'utilisateur connecté comme lue
+ *     tags: [Notifications]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: notificationId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: ID de la notification
+ *     responses:
+ *       200:
+ *         description: Notification marquée comme lue
+ *       401:
+ *         description: Non authentifié
+ *       404:
+ *         description: Notification non trouvée
+ */
+router.post(
+  "/:notificationId/read",
+  authenticateJWT,
+  validate(notificationIdSchema),
+  async (req: Request, res: Response) => {
+    try {
+      const { notificationId } = req.params;
+      const userId = req.user?.userId;
+
+      if (!userId) {
+        return sendError(
+          res,
+          "Utilisateur non authentifié",
+          401,
+          "NOT_AUTHENTICATED"
+        );
+      }
+
+      const notification = await markNotificationRead(notificationId, userId);
+
+      return sendSuccess(res, "Notification marquée comme lue", {
+        notification,
+      });
+    } catch (error) {
+      logError(
+        error instanceof Error ? error : new Error(String(error)),
+        "Erreur lors du marquage de la notification"
+      );
+      if (error instanceof Error) {
+        if (error.message === "Notification non trouvée") {
+          return sendError(res, error.message, 404, "RESOURCE_NOT_FOUND");
+        }
+      }
+      return sendError(
+        res,
+        "Erreur lors du marquage de la notification",
+        500,
+        "SERVER_ERROR"
+      );
+    }
+  }
+);
+
+export default router;
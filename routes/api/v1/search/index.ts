@@ -0,0 +1,181 @@
+import type { Request, Response } from "express";
+import express from "express";
+import { authenticateJWT } from "../../../../middlewares/authMiddleware";
+import { validate } from "../../../../middlewares/validationMiddleware";
+import type { SearchType } from "../../../../services/search/searchService";
+import { search } from "../../../../services/search/searchService";
+import { logError } from "../../../../utils/logger";
+import { sendError, sendSuccess } from "../../../../utils/responseHandler";
+import { searchSchema } from "../../../../validation/searchValidation";
+
+const router = express.Router();
+
+/**
+ * @swagger
+ * /api/v1/search:
+ *   get:
+ *     summary: Recherche plein texte
+ *     description: Recherche dans les challenges (nom et description), les notes, les messages et les ressources (nom du fichier et tags) des équipes de l'utilisateur. Les résultats sont regroupés par type et classés par pertinence, avec des extraits où les termes trouvés sont entourés de <mark>.
+ *     tags: [Search]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: q
+ *         required: true
+ *         schema:
+ *           type: string
+ *           minLength: 2
+ *           maxLength: 200
+ *         description: Termes recherchés. Les guillemets cherchent une expression exacte, "or" une alternative et "-" exclut un terme.
+ *       - in: query
+ *         name: types
+ *         schema:
+ *           type: string
+ *         description: Types à rechercher parmi challenges, notes, messages et resources, séparés par des virgules (tous par défaut)
+ *       - in: query
+ *         name: eventId
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Limite la recherche à un événement (les messages du chat de l'équipe sont alors écartés)
+ *       - in: query
+ *         name: teamId
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Limite la recherche à une équipe de l'utilisateur
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 50
+ *           default: 10
+ *         description: Nombre maximum de résultats par type
+ *     responses:
+ *       200:
+ *         description: Résultats de la recherche
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/SuccessResponse'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       type: object
+ *                       properties:
+ *                         challenges:
+ *                           type: array
+ *                           items:
+ *                             type: object
+ *                             properties:
+ *                               id:
+ *                                 type: string
+ *                                 format: uuid
+ *                               name:
+ *                                 type: string
+ *                               highlight:
+ *                                 type: string
+ *                               snippet:
+ *                                 type: string
+ *                                 nullable: true
+ *                         notes:
+ *                           type: array
+ *                           items:
+ *                             type: object
+ *                             properties:
+ *                               id:
+ *                                 type: string
+ *                                 format: uuid
+ *                               challengeId:
+ *                                 type: string
+ *                                 format: uuid
+ *                               snippet:
+ *                                 type: string
+ *                         messages:
+ *                           type: array
+ *                           items:
+ *                             type: object
+ *                             properties:
+ *                               id:
+ *                                 type: string
+ *                                 format: uuid
+ *                               teamId:
+ *                                 type: string
+ *                                 format: uuid
+ *                               challengeId:
+ *                                 type: string
+ *                                 format: uuid
+ *                                 nullable: true
+ *                               snippet:
+ *                                 type: string
+ *                         resources:
+ *                           type: array
+ *                           items:
+ *                             type: object
+ *                             properties:
+ *                               id:
+ *                                 type: string
+ *                                 format: uuid
+ *                               filename:
+ *                                 type: string
+ *                               highlight:
+ *                                 type: string
+ *       400:
+ *         description: Paramètres invalides
+ *       401:
+ *         description: Non authentifié
+ *       403:
+ *         description: Non autorisé à rechercher dans cette équipe
+ */
+router.get(
+  "/",
+  authenticateJWT,
+  validate(searchSchema),
+  async (req: Request, res: Response) => {
+    try {
+      const { q, types, eventId, teamId, limit } = req.query as {
+        q: string;
+        types?: string;
+        eventId?: string;
+        teamId?: string;
+        limit?: string;
+      };
+      const userId = req.user?.userId;
+
+      if (!userId) {
+        return sendError(
+          res,
+          "Utilisateur non authentifié",
+          401,
+          "NOT_AUTHENTICATED"
+        );
+      }
+
+      const results = await search(userId, q.trim(), {
+        types: types ? (types.split(",") as SearchType[]) : undefined,
+        eventId,
+        teamId,
+        limit: limit ? Number(limit) : undefined,
+      });
+
+      return sendSuccess(res, "Recherche effectuée avec succès", results);
+    } catch (error) {
+      logError(
+        error instanceof Error ? error : new Error(String(error)),
+        "Erreur lors de la recherche"
+      );
+      if (
+        error instanceof Error &&
+        error.message === "Non autorisé à rechercher dans cette équipe"
+      ) {
+        return sendError(res, error.message, 403, "FORBIDDEN_ACCESS");
+      }
+      return sendError(res, "Erreur lors de la recherche", 500, "SERVER_ERROR");
+    }
+  }
+);
+
+export default router;
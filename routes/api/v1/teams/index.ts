@@ -7,8 +7,14 @@ import {
   getUserTeams,
   joinTeamWithInviteCode,
 } from "../../../../services/teams/teamService";
+import { setTeamTwoFactorRequirement } from "../../../../services/twoFactorService";
 import { sendError, sendSuccess } from "../../../../utils/responseHandler";
-import { joinTeamSchema } from "../../../../validation/teamValidation";
+import {
+  joinTeamSchema,
+  teamTwoFactorSchema,
+} from "../../../../validation/teamValidation";
+import endpointRoutes from "./endpoints";
+import messageRoutes from "./messages";
 import { info, warn, error, logError } from "../../../../utils/logger";
 
 // Create router instance
@@ -268,6 +274,8 @@ router.get("/:teamId", authenticateJWT, async (req: Request, res: Response) => {
  *         description: Données d'entrée invalides
  *       401:
  *         description: Non authentifié
+ *       403:
+ *         description: L'équipe exige la double authentification
  *       404:
  *         description: Équipe non trouvée
  */
@@ -304,6 +312,9 @@ router.post(
         if (error.message === "Vous êtes déjà membre de cette équipe") {
           return sendError(res, error.message, 400, "ALREADY_TEAM_MEMBER");
         }
+        if (error.message === "Cette équipe exige la double authentification") {
+          return sendError(res, error.message, 403, "TWO_FACTOR_REQUIRED");
+        }
       }
       return sendError(
         res,
@@ -315,4 +326,136 @@ router.post(
   }
 );
 
+/**
+ * @swagger
+ * /api/v1/teams/{teamId}/two-factor:
+ *   put:
+ *     summary: Exiger la double authentification
+ *     description: Exige (ou non) la double authentification pour tous les membres de l'équipe. Réservé au propriétaire, qui doit l'avoir activée. Les membres sans double authentification ne peuvent plus utiliser l'API, hors routes d'authentification, jusqu'à son activation.
+ *     tags: [Équipes]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: teamId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: ID de l'équipe
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - required
+ *             properties:
+ *               required:
+ *                 type: boolean
+ *                 example: true
+ *     responses:
+ *       200:
+ *         description: Exigence mise à jour
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 message:
+ *                   type: string
+ *                   example: Exigence de double authentification mise à jour
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     team:
+ *                       type: object
+ *                       properties:
+ *                         id:
+ *                           type: string
+ *                           format: uuid
+ *                         name:
+ *                           type: string
+ *                         requireTwoFactor:
+ *                           type: boolean
+ *                     membersWithoutTwoFactor:
+ *                       type: integer
+ *                       description: Membres qui doivent encore activer la double authentification
+ *       400:
+ *         description: Données d'entrée invalides
+ *       401:
+ *         description: Non authentifié
+ *       403:
+ *         description: Non propriétaire, ou double authentification du propriétaire non activée
+ *       404:
+ *         description: Équipe non trouvée
+ */
+router.put(
+  "/:teamId/two-factor",
+  authenticateJWT,
+  validate(teamTwoFactorSchema),
+  async (req: Request, res: Response) => {
+    try {
+      const { teamId } = req.params;
+      const { required } = req.body;
+      const userId = req.user?.userId;
+
+      if (!userId) {
+        return sendError(
+          res,
+          "Utilisateur non authentifié",
+          401,
+          "NOT_AUTHENTICATED"
+        );
+      }
+
+      const result = await setTeamTwoFactorRequirement(
+        teamId,
+        userId,
+        required
+      );
+
+      return sendSuccess(
+        res,
+        "Exigence de double authentification mise à jour",
+        result
+      );
+    } catch (error) {
+      logError(
+        error instanceof Error ? error : new Error(String(error)),
+        "Erreur lors de la mise à jour de l'exigence de double authentification"
+      );
+      if (error instanceof Error) {
+        if (error.message === "Équipe non trouvée") {
+          return sendError(res, error.message, 404, "TEAM_NOT_FOUND");
+        }
+        if (
+          error.message ===
+            "Seul le propriétaire de l'équipe peut exiger la double authentification" ||
+          error.message ===
+            "Activez la double authentification avant de l'exiger pour l'équipe"
+        ) {
+          return sendError(res, error.message, 403, "FORBIDDEN_ACTION");
+        }
+      }
+      return sendError(
+        res,
+        "Erreur lors de la mise à jour de l'exigence de double authentification",
+        500,
+        "SERVER_ERROR"
+      );
+    }
+  }
+);
+
+// Monter les sous-routes pour les request catchers
+router.use("/:teamId/endpoints", endpointRoutes);
+
+// Monter les sous-routes pour le chat de l'équipe
+router.use("/:teamId/messages", messageRoutes);
+
 export default router;
@@ -0,0 +1,296 @@
+import type { Request, Response } from "express";
+import express from "express";
+import { authenticateJWT } from "../../../../middlewares/authMiddleware";
+import { validate } from "../../../../middlewares/validationMiddleware";
+import type { ApiTokenScope } from "../../../../services/apiTokenService";
+import {
+  API_TOKEN_SCOPES,
+  createApiToken,
+  getApiTokens,
+  revokeApiToken,
+} from "../../../../services/apiTokenService";
+import { logError } from "../../../../utils/logger";
+import { sendError, sendSuccess } from "../../../../utils/responseHandler";
+import {
+  apiTokenIdSchema,
+  createApiTokenSchema,
+} from "../../../../validation/apiTokenValidation";
+
+const router = express.Router();
+
+/**
+ * @swagger
+ * /api/v1/tokens:
+ *   get:
+ *     summary: Tokens d'API personnels
+ *     description: Liste les tokens d'API de l'utilisateur connecté (sans leur valeur) et les portées disponibles
+ *     tags: [Tokens]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Tokens récupérés avec succès
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/SuccessResponse'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       type: object
+ *                       properties:
+ *                         tokens:
+ *                           type: array
+ *                           items:
+ *                             type: object
+ *                             properties:
+ *                               id:
+ *                                 type: string
+ *                                 format: uuid
+ *                               name:
+ *                                 type: string
+ *                               prefix:
+ *                                 type: string
+ *                                 description: Début du token, pour le reconnaître
+ *                                 example: fhp_Ab3dE9
+ *                               scopes:
+ *                                 type: array
+ *                                 items:
+ *                                   type: string
+ *                               expiresAt:
+ *                                 type: string
+ *                                 format: date-time
+ *                                 nullable: true
+ *                               lastUsedAt:
+ *                                 type: string
+ *                                 format: date-time
+ *                                 nullable: true
+ *                               createdAt:
+ *                                 type: string
+ *                                 format: date-time
+ *                         scopes:
+ *                           type: array
+ *                           items:
+ *                             type: object
+ *                             properties:
+ *                               scope:
+ *                                 type: string
+ *                               description:
+ *                                 type: string
+ *       401:
+ *         description: Non authentifié
+ */
+router.get("/", authenticateJWT, async (req: Request, res: Response) => {
+  try {
+    const userId = req.user?.userId;
+
+    if (!userId) {
+      return sendError(
+        res,
+        "Utilisateur non authentifié",
+        401,
+        "NOT_AUTHENTICATED"
+      );
+    }
+
+    const tokens = await getApiTokens(userId);
+
+    return sendSuccess(res, "Tokens récupérés avec succès", {
+      tokens,
+      scopes: API_TOKEN_SCOPES,
+    });
+  } catch (error) {
+    logError(
+      error instanceof Error ? error : new Error(String(error)),
+      "Erreur lors de la récupération des tokens"
+    );
+    return sendError(
+      res,
+      "Erreur lors de la récupération des tokens",
+      500,
+      "SERVER_ERROR"
+    );
+  }
+});
+
+/**
+ * @swagger
+ * /api/v1/tokens:
+ *   post:
+ *     summary: Créer un token d'API
+ *     description: Crée un token d'API personnel pour les scripts, à envoyer dans l'en-tête "Authorization: Bearer fhp_...". Le token n'est affiché qu'à sa création. Il ne donne accès qu'aux routes de ses portées et n'est pas soumis à la protection CSRF.
+ *     tags: [Tokens]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - name
+ *               - scopes
+ *             properties:
+ *               name:
+ *                 type: string
+ *                 example: exploit-runner
+ *               scopes:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                   enum: [read, flags:write, notes:write, resources:write, messages:write, challenges:write]
+ *                 example: [read, flags:write, notes:write]
+ *               expiresAt:
+ *                 type: string
+ *                 format: date-time
+ *                 description: Date d'expiration, sans expiration si absente
+ *     responses:
+ *       201:
+ *         description: Token créé avec succès
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/SuccessResponse'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       type: object
+ *                       properties:
+ *                         token:
+ *                           type: string
+ *                           description: Valeur du token, affichée une seule fois
+ *                         apiToken:
+ *                           type: object
+ *       400:
+ *         description: Données d'entrée invalides
+ *       401:
+ *         description: Non authentifié
+ *       409:
+ *         description: Un token avec ce nom existe déjà
+ */
+router.post(
+  "/",
+  authenticateJWT,
+  validate(createApiTokenSchema),
+  async (req: Request, res: Response) => {
+    try {
+      const { name, scopes, expiresAt } = req.body as {
+        name: string;
+        scopes: ApiTokenScope[];
+        expiresAt?: string;
+      };
+      const userId = req.user?.userId;
+
+      if (!userId) {
+        return sendError(
+          res,
+          "Utilisateur non authentifié",
+          401,
+          "NOT_AUTHENTICATED"
+        );
+      }
+
+      const { apiToken, token } = await createApiToken(
+        userId,
+        name.trim(),
+        scopes,
+        expiresAt ? new Date(expiresAt) : undefined
+      );
+
+      return sendSuccess(
+        res,
+        "Token créé avec succès. Copiez-le maintenant, il ne sera plus affiché.",
+        { token, apiToken },
+        201
+      );
+    } catch (error) {
+      logError(
+        error instanceof Error ? error : new Error(String(error)),
+        "Erreur lors de la création du token"
+      );
+      if (
+        error instanceof Error &&
+        error.message === "Un token avec ce nom existe déjà"
+      ) {
+        return sendError(res, error.message, 409, "TOKEN_NAME_TAKEN");
+      }
+      return sendError(
+        res,
+        "Erreur lors de la création du token",
+        500,
+        "SERVER_ERROR"
+      );
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/v1/tokens/{tokenId}:
+ *   delete:
+ *     summary: Révoquer un token d'API
+ *     description: Supprime un token d'API de l'utilisateur connecté, qui est refusé immédiatement
+ *     tags: [Tokens]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: tokenId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: ID du token
+ *     responses:
+ *       200:
+ *         description: Token révoqué
+ *       400:
+ *         description: Paramètres invalides
+ *       401:
+ *         description: Non authentifié
+ *       404:
+ *         description: Token non trouvé
+ */
+router.delete(
+  "/:tokenId",
+  authenticateJWT,
+  validate(apiTokenIdSchema),
+  async (req: Request, res: Response) => {
+    try {
+      const { tokenId } = req.params;
+      const userId = req.user?.userId;
+
+      if (!userId) {
+        return sendError(
+          res,
+          "Utilisateur non authentifié",
+          401,
+          "NOT_AUTHENTICATED"
+        );
+      }
+
+      await revokeApiToken(tokenId, userId);
+
+      return sendSuccess(res, "Token révoqué");
+    } catch (error) {
+      logError(
+        error instanceof Error ? error : new Error(String(error)),
+        "Erreur lors de la révocation du token"
+      );
+      if (error instanceof Error && error.message === "Token non trouvé") {
+        return sendError(res, error.message, 404, "RESOURCE_NOT_FOUND");
+      }
+      return sendError(
+        res,
+        "Erreur lors de la révocation du token",
+        500,
+        "SERVER_ERROR"
+      );
+    }
+  }
+);
+
+export default router;
@@ -0,0 +1,104 @@
+import type { Express, Request, Response } from "express";
+import express from "express";
+import { rateLimit } from "express-rate-limit";
+import { captureRequest } from "../../services/endpoints/endpointService";
+import { logError } from "../../utils/logger";
+import { FORBIDDEN_CATCHER_HEADERS } from "../../validation/endpointValidation";
+
+const router = express.Router();
+
+// Les cibles d'un challenge peuvent envoyer beaucoup de requêtes en rafale
+const catcherLimiter = rateLimit({
+  windowMs: 60 * 1000, // 1 minute
+  limit: 300, // Limite chaque IP à 300 requêtes par minute
+  standardHeaders: "draft-7",
+  legacyHeaders: false,
+  message: "Trop de requêtes, veuillez réessayer plus tard.",
+});
+
+// Conserve le corps brut quel que soit le Content-Type
+router.use(express.raw({ type: () => true, limit: "1mb" }));
+
+/**
+ * Enregistre la requête reçue et renvoie la réponse configurée sur l'endpoint
+ */
+const handleCatcherRequest = async (req: Request, res: Response) => {
+  try {
+    const { token } = req.params;
+    const subPath = req.params[0];
+
+    const response = await captureRequest(token, {
+      method: req.method,
+      url: req.originalUrl,
+      path: subPath ? `/${subPath}` : "/",
+      headers: req.headers,
+      body:
+        Buffer.isBuffer(req.body) && req.body.length > 0
+          ? req.body.toString("utf8")
+          : undefined,
+      ip: req.ip,
+    });
+
+    res.status(response.status || 200);
+    for (const [name, value] of Object.entries(response.headers || {})) {
+      if (!FORBIDDEN_CATCHER_HEADERS.includes(name.toLowerCase())) {
+        res.set(name, value);
+      }
+    }
+    // La réponse est servie sur l'origine de l'API : son contenu est isolé
+    // dans une origine opaque et son type n'est pas deviné
+    res.set({
+      "Content-Security-Policy": "sandbox",
+      "X-Content-Type-Options": "nosniff",
+    });
+    return res.send(response.body || "");
+  } catch (error) {
+    if (
+      error instanceof Error &&
+      (error.message === "Endpoint non trouvé" ||
+        error.message === "Endpoint expiré")
+    ) {
+      return res.status(404).send("Not Found");
+    }
+    logError(
+      error instanceof Error ? error : new Error(String(error)),
+      "Erreur lors de la capture de la requête"
+    );
+    return res.status(500).send("Internal Server Error");
+  }
+};
+
+/**
+ * @swagger
+ * /c/{token}:
+ *   get:
+ *     summary: Request catcher public
+ *     description: |
+ *       Enregistre toute requête reçue (toutes méthodes, tous sous-chemins /c/{token}/...)
+ *       et renvoie la réponse configurée sur l'endpoint. Aucune authentification n'est requise.
+ *     tags: [Endpoints]
+ *     parameters:
+ *       - in: path
+ *         name: token
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Token de l'endpoint
+ *     responses:
+ *       200:
+ *         description: Réponse configurée sur l'endpoint (statut, en-têtes et corps personnalisables)
+ *       404:
+ *         description: Endpoint inexistant ou expiré
+ *       429:
+ *         description: Trop de requêtes
+ */
+router.all("/:token", catcherLimiter, handleCatcherRequest);
+router.all("/:token/*", catcherLimiter, handleCatcherRequest);
+
+/**
+ * Enregistre les routes publiques des request catchers
+ * @param app Instance Express
+ */
+export const register = (app: Express): void => {
+  app.use("/c", router);
+};
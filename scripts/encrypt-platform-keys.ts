@@ -0,0 +1,36 @@
+/**
+ * Migration des données : chiffre les clés API des plateformes CTF stockées
+ * en clair avant l'introduction du chiffrement.
+ *
+ * Utilisation : `bun scripts/encrypt-platform-keys.ts` avec la variable
+ * ENCRYPTION_KEY de production. Le script peut être relancé sans risque, les
+ * clés déjà chiffrées sont ignorées.
+ */
+import { prisma } from "../prisma/client";
+import { encryptSecret, isEncryptedSecret } from "../utils/secretCipher";
+
+const events = await prisma.event.findMany({
+  where: { platformApiKey: { not: null } },
+  select: { id: true, name: true, platformApiKey: true },
+});
+
+let encrypted = 0;
+
+for (const event of events) {
+  if (!event.platformApiKey || isEncryptedSecret(event.platformApiKey)) {
+    continue;
+  }
+
+  await prisma.event.update({
+    where: { id: event.id },
+    data: { platformApiKey: encryptSecret(event.platformApiKey) },
+  });
+  encrypted++;
+  console.log(`Clé chiffrée pour l'événement ${event.name}`);
+}
+
+console.log(
+  `${encrypted} clé(s) chiffrée(s) sur ${events.length} événement(s)`
+);
+
+await prisma.$disconnect();
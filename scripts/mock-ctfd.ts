@@ -0,0 +1,149 @@
+/**
+ * Serveur CTFd factice pour tester l'intégration en local
+ *
+ * Utilisation : `bun scripts/mock-ctfd.ts` puis créer un événement avec
+ * platform=CTFD, platformUrl=http://localhost:8000 et
+ * platformApiKey=mock-api-key
+ */
+
+const PORT = parseInt(process.env.MOCK_CTFD_PORT || "8000");
+const API_KEY = process.env.MOCK_CTFD_API_KEY || "mock-api-key";
+
+const challenges = [
+  {
+    id: 1,
+    name: "Baby Web",
+    category: "web",
+    value: 100,
+    description: "Trouvez le flag caché dans la page d'accueil.",
+    flag: "flag{baby_web}",
+  },
+  {
+    id: 2,
+    name: "Heap Heaven",
+    category: "pwn",
+    value: 500,
+    description: "Un classique du tcache poisoning.",
+    flag: "flag{tcache_poisoning}",
+    files: ["/files/5f1c0a7e/heap_heaven.tar.gz?token=mock"],
+  },
+  {
+    id: 3,
+    name: "Padding Party",
+    category: "crypto",
+    value: 300,
+    description: "L'oracle répond toujours.",
+    flag: "flag{padding_oracle}",
+  },
+];
+
+// Résolutions de l'équipe propriétaire du token
+const solves = [
+  {
+    challenge_id: 1,
+    date: "2025-03-21T14:32:10.000Z",
+    type: "correct",
+  },
+];
+
+const json = (data: unknown, status = 200, success = status < 400) =>
+  Response.json({ success, data }, { status });
+
+// Nombre de soumissions incorrectes avant limitation
+const RATE_LIMIT = 10;
+let wrongAttempts = 0;
+
+const handleAttempt = async (req: Request) => {
+  const { challenge_id, submission } = (await req.json()) as {
+    challenge_id: number;
+    submission: string;
+  };
+
+  const challenge = challenges.find((c) => c.id === challenge_id);
+  if (!challenge) {
+    return json(null, 404);
+  }
+
+  if (solves.some((s) => s.challenge_id === challenge_id)) {
+    return json({ status: "already_solved", message: "Déjà résolu" });
+  }
+
+  if (wrongAttempts >= RATE_LIMIT) {
+    return json(
+      { status: "ratelimited", message: "Vous soumettez trop vite" },
+      429,
+      true
+    );
+  }
+
+  if (submission !== challenge.flag) {
+    wrongAttempts++;
+    return json({ status: "incorrect", message: "Incorrect" });
+  }
+
+  solves.push({
+    challenge_id,
+    date: new Date().toISOString(),
+    type: "correct",
+  });
+  return json({ status: "correct", message: "Correct" });
+};
+
+Bun.serve({
+  port: PORT,
+  fetch(req) {
+    const url = new URL(req.url);
+
+    if (req.headers.get("Authorization") !== `Token ${API_KEY}`) {
+      return json({ message: "Token invalide" }, 403);
+    }
+
+    if (url.pathname === "/api/v1/challenges") {
+      return json(
+        challenges.map(
+          ({ description, flag, files, ...challenge }) => challenge
+        )
+      );
+    }
+
+    if (
+      url.pathname === "/api/v1/challenges/attempt" &&
+      req.method === "POST"
+    ) {
+      return handleAttempt(req);
+    }
+
+    if (url.pathname.startsWith("/files/")) {
+      return new Response("contenu factice du fichier joint\n", {
+        headers: { "Content-Type": "application/gzip" },
+      });
+    }
+
+    if (url.pathname === "/api/v1/scoreboard") {
+      return json([
+        { pos: 1, name: "FlagHive", score: 1200 },
+        { pos: 2, name: "Rivaux", score: 900 },
+      ]);
+    }
+
+    if (url.pathname === "/api/v1/teams/me/solves") {
+      return json(solves);
+    }
+
+    const challengeMatch = url.pathname.match(/^\/api\/v1\/challenges\/(\d+)$/);
+    if (challengeMatch) {
+      const challenge = challenges.find(
+        (c) => c.id === parseInt(challengeMatch[1])
+      );
+      if (!challenge) {
+        return json(null, 404);
+      }
+      const { flag, ...publicChallenge } = challenge;
+      return json(publicChallenge);
+    }
+
+    return json(null, 404);
+  },
+});
+
+console.log(`Serveur CTFd factice démarré sur http://localhost:${PORT}`);
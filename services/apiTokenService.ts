@@ -0,0 +1,235 @@
+import * as crypto from "crypto";
+import type { Request } from "express";
+import { prisma } from "../prisma/client";
+
+/**
+ * Préfixe des tokens d'API personnels, qui les distingue des JWT
+ */
+export const API_TOKEN_PREFIX = "fhp_";
+
+// Intervalle minimal entre deux mises à jour de la dernière utilisation
+const LAST_USED_INTERVAL = 60 * 1000;
+
+/**
+ * Portées des tokens d'API. Une requête authentifiée par token n'est
+ * autorisée que si une règle de sa portée correspond à la méthode et au
+ * chemin : tout le reste (gestion des tokens, sessions, équipes...) est
+ * réservé aux sessions.
+ */
+const API_TOKEN_SCOPE_RULES = {
+  read: {
+    description:
+      "Lecture des événements, challenges, notes, ressources, messages et de la recherche",
+    rules: [
+      {
+        methods: ["GET", "HEAD"],
+        pattern: /^\/(events|teams|search|knowledge)(\/.*)?$/,
+      },
+    ],
+  },
+  "flags:write": {
+    description: "Soumission de flags et commentaires des tentatives",
+    rules: [
+      {
+        methods: ["POST"],
+        pattern: /^\/events\/[^/]+\/challenges\/[^/]+\/solve$/,
+      },
+      {
+        methods: ["POST"],
+        pattern:
+          /^\/events\/[^/]+\/challenges\/[^/]+\/flagAttempts\/[^/]+\/comment$/,
+      },
+    ],
+  },
+  "notes:write": {
+    description: "Création, modification et suppression de notes",
+    rules: [
+      {
+        methods: ["POST", "PUT", "PATCH", "DELETE"],
+        pattern: /^\/events\/[^/]+\/challenges\/[^/]+\/notes(\/.*)?$/,
+      },
+    ],
+  },
+  "resources:write": {
+    description: "Ajout, modification et suppression de ressources",
+    rules: [
+      {
+        methods: ["POST", "PUT", "PATCH", "DELETE"],
+        pattern: /^\/events\/[^/]+\/challenges\/[^/]+\/resources(\/.*)?$/,
+      },
+    ],
+  },
+  "messages:write": {
+    description: "Envoi de messages dans le chat des équipes et des challenges",
+    rules: [
+      {
+        methods: ["POST", "PUT", "PATCH", "DELETE"],
+        pattern:
+          /^\/(events\/[^/]+\/challenges\/[^/]+|teams\/[^/]+)\/messages(\/.*)?$/,
+      },
+    ],
+  },
+  "challenges:write": {
+    description: "Création, import et assignation de challenges",
+    rules: [
+      {
+        methods: ["POST"],
+        pattern: /^\/events\/[^/]+\/challenges(\/import|\/[^/]+\/assign)?$/,
+      },
+    ],
+  },
+};
+
+export type ApiTokenScope = keyof typeof API_TOKEN_SCOPE_RULES;
+
+/**
+ * Portées disponibles, avec leur description
+ */
+export const API_TOKEN_SCOPES = Object.entries(API_TOKEN_SCOPE_RULES).map(
+  ([scope, { description }]) => ({ scope: scope as ApiTokenScope, description })
+);
+
+/**
+ * Hash SHA-256 d'un token d'API, seule forme stockée en base
+ */
+const hashApiToken = (token: string): string => {
+  return crypto.createHash("sha256").update(token).digest("hex");
+};
+
+const apiTokenSelect = {
+  id: true,
+  name: true,
+  prefix: true,
+  scopes: true,
+  expiresAt: true,
+  lastUsedAt: true,
+  createdAt: true,
+};
+
+/**
+ * Récupère le token d'API de l'en-tête Authorization, s'il y en a un
+ */
+export const getRequestApiToken = (req: Request): string | undefined => {
+  const authHeader = req.headers.authorization;
+
+  if (authHeader && authHeader.startsWith(`Bearer ${API_TOKEN_PREFIX}`)) {
+    return authHeader.split(" ")[1];
+  }
+
+  return undefined;
+};
+
+/**
+ * Indique si une portée autorise une requête, d'après sa méthode et son
+ * chemin relatif à /api/v1
+ */
+export const isRequestAllowedByScopes = (
+  scopes: string[],
+  method: string,
+  path: string
+): boolean => {
+  return scopes.some((scope) =>
+    (API_TOKEN_SCOPE_RULES[scope as ApiTokenScope]?.rules || []).some(
+      (rule) => rule.methods.includes(method) && rule.pattern.test(path)
+    )
+  );
+};
+
+/**
+ * Crée un token d'API personnel. Le token en clair n'est renvoyé qu'ici : seul
+ * son hash est conservé.
+ */
+export const createApiToken = async (
+  userId: string,
+  name: string,
+  scopes: ApiTokenScope[],
+  expiresAt?: Date
+) => {
+  const existing = await prisma.apiToken.findUnique({
+    where: { userId_name: { userId, name } },
+  });
+
+  if (existing) {
+    throw new Error("Un token avec ce nom existe déjà");
+  }
+
+  const token = `${API_TOKEN_PREFIX}${crypto.randomBytes(32).toString("base64url")}`;
+
+  const apiToken = await prisma.apiToken.create({
+    data: {
+      userId,
+      name,
+      tokenHash: hashApiToken(token),
+      prefix: token.slice(0, API_TOKEN_PREFIX.length + 6),
+      scopes: [...new Set(scopes)],
+      expiresAt,
+    },
+    select: apiTokenSelect,
+  });
+
+  return { apiToken, token };
+};
+
+/**
+ * Liste les tokens d'API de l'utilisateur, sans leur valeur
+ */
+export const getApiTokens = async (userId: string) => {
+  return await prisma.apiToken.findMany({
+    where: { userId },
+    select: apiTokenSelect,
+    orderBy: { createdAt: "desc" },
+  });
+};
+
+/**
+ * Révoque (supprime) un token d'API de l'utilisateur
+ */
+export const revokeApiToken = async (tokenId: string, userId: string) => {
+  const { count } = await prisma.apiToken.deleteMany({
+    where: { id: tokenId, userId },
+  });
+
+  if (count === 0) {
+    throw new Error("Token non trouvé");
+  }
+};
+
+/**
+ * Vérifie un token d'API et renvoie son utilisateur et ses portées, en notant
+ * sa dernière utilisation
+ */
+export const verifyApiToken = async (token: string) => {
+  const apiToken = await prisma.apiToken.findUnique({
+    where: { tokenHash: hashApiToken(token) },
+    include: { user: true },
+  });
+
+  if (
+    !apiToken ||
+    (apiToken.expiresAt && apiToken.expiresAt < new Date()) ||
+    !apiToken.user.active
+  ) {
+    throw new Error("Token d'API invalide ou expiré");
+  }
+
+  if (
+    !apiToken.lastUsedAt ||
+    Date.now() - apiToken.lastUsedAt.getTime() > LAST_USED_INTERVAL
+  ) {
+    await prisma.apiToken.update({
+      where: { id: apiToken.id },
+      data: { lastUsedAt: new Date() },
+    });
+  }
+
+  return {
+    tokenId: apiToken.id,
+    scopes: apiToken.scopes,
+    user: {
+      userId: apiToken.user.id,
+      username: apiToken.user.username,
+      email: apiToken.user.email,
+      role: apiToken.user.role,
+    },
+  };
+};
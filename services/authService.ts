@@ -2,8 +2,17 @@ import type { User } from "@prisma/client";
 import * as jose from "jose";
 import { logError } from "../utils/logger";
 import config from "../config/config";
+import type { SessionClient } from "./sessionService";
+import {
+  createSession,
+  rotateSession,
+  validateSession,
+} from "./sessionService";
+import { verifySecondFactor } from "./twoFactorService";
 import {
   findUserByUsername,
+  needsPasswordRehash,
+  rehashPassword,
   updateLastLogin,
   verifyPassword,
 } from "./userService";
@@ -17,10 +26,16 @@ export type JwtPayload = {
   username: string;
   email: string;
   role: string;
+  sessionId: string;
 };
 
+// Durée de validité du challenge entre le mot de passe et le second facteur
+const TWO_FACTOR_CHALLENGE_TTL = "5m";
+const TWO_FACTOR_CHALLENGE_PURPOSE = "two-factor";
+
 /**
- * Configuration du cookie JWT
+ * Configuration du cookie JWT. Sa durée de vie suit l'expiration du token
+ * d'accès (voir setJWTCookie).
  */
 export const jwtCookieConfig = {
   name: "auth_token",
@@ -28,11 +43,25 @@ export const jwtCookieConfig = {
     httpOnly: true,
     secure: config.nodeEnv === "production",
     sameSite: "strict" as const,
-    maxAge: 3600000, // 1 heure en millisecondes
     path: "/",
   },
 };
 
+/**
+ * Configuration du cookie du refresh token, envoyé uniquement aux routes
+ * d'authentification
+ */
+export const refreshTokenCookieConfig = {
+  name: "refresh_token",
+  options: {
+    httpOnly: true,
+    secure: config.nodeEnv === "production",
+    sameSite: "strict" as const,
+    maxAge: config.refreshTokenTtl * 1000,
+    path: "/api/v1/auth",
+  },
+};
+
 /**
  * Génère un JWT
  */
@@ -70,10 +99,46 @@ export const verifyJWT = async (
 };
 
 /**
- * Définit le token JWT dans un cookie
+ * Vérifie un token d'accès : signature et expiration du JWT, puis session
+ * toujours active
+ */
+export const verifyAccessToken = async (token: string): Promise<JwtPayload> => {
+  const payload = await verifyJWT(token);
+
+  // Les tokens émis avant les sessions ne peuvent pas être révoqués
+  if (!payload.sessionId) {
+    throw new Error("Session expirée ou révoquée");
+  }
+
+  await validateSession(payload.sessionId);
+
+  return payload;
+};
+
+/**
+ * Définit le token JWT dans un cookie, qui expire avec le token
  */
 export const setJWTCookie = (res: Response, token: string): void => {
-  res.cookie(jwtCookieConfig.name, token, jwtCookieConfig.options);
+  const { exp } = jose.decodeJwt(token);
+
+  res.cookie(jwtCookieConfig.name, token, {
+    ...jwtCookieConfig.options,
+    maxAge: exp ? exp * 1000 - Date.now() : undefined,
+  });
+};
+
+/**
+ * Définit le refresh token dans un cookie
+ */
+export const setRefreshTokenCookie = (
+  res: Response,
+  refreshToken: string
+): void => {
+  res.cookie(
+    refreshTokenCookieConfig.name,
+    refreshToken,
+    refreshTokenCookieConfig.options
+  );
 };
 
 /**
@@ -89,32 +154,155 @@ export const clearJWTCookie = (res: Response): void => {
 };
 
 /**
- * Authentifie un utilisateur et génère un token JWT
+ * Supprime le cookie du refresh token
+ */
+export const clearRefreshTokenCookie = (res: Response): void => {
+  res.clearCookie(refreshTokenCookieConfig.name, {
+    httpOnly: true,
+    secure: config.nodeEnv === "production",
+    sameSite: "strict",
+    path: refreshTokenCookieConfig.options.path,
+  });
+};
+
+/**
+ * Émet le token d'accès et le refresh token d'une session dans leurs cookies
+ */
+const issueSessionTokens = async (
+  user: User,
+  sessionId: string,
+  refreshToken: string,
+  res: Response
+): Promise<void> => {
+  const payload: JwtPayload = {
+    userId: user.id,
+    username: user.username,
+    email: user.email,
+    role: user.role,
+    sessionId,
+  };
+
+  setJWTCookie(res, await generateJWT(payload));
+  setRefreshTokenCookie(res, refreshToken);
+};
+
+/**
+ * Ouvre une session pour un utilisateur authentifié
+ */
+const startUserSession = async (
+  user: User,
+  client: SessionClient,
+  res: Response
+): Promise<void> => {
+  // Met à jour la date de dernière connexion
+  await updateLastLogin(user.id);
+
+  const { session, refreshToken } = await createSession(user.id, client);
+
+  await issueSessionTokens(user, session.id, refreshToken, res);
+};
+
+/**
+ * Génère le challenge de double authentification, un JWT de courte durée sans
+ * session : il ne permet pas d'accéder à l'API (voir verifyAccessToken)
+ */
+const generateTwoFactorChallenge = async (userId: string): Promise<string> => {
+  const secretKey = new TextEncoder().encode(config.jwtSecret);
+  return await new jose.SignJWT({
+    userId,
+    purpose: TWO_FACTOR_CHALLENGE_PURPOSE,
+  })
+    .setProtectedHeader({ alg: "HS256" })
+    .setIssuedAt()
+    .setExpirationTime(TWO_FACTOR_CHALLENGE_TTL)
+    .sign(secretKey);
+};
+
+/**
+ * Authentifie un utilisateur et génère un token JWT. Si la double
+ * authentification est activée, aucune session n'est ouverte : un challenge
+ * est renvoyé, à compléter avec completeTwoFactorLogin.
  */
 export const authenticateUser = async (
   username: string,
   password: string,
+  client: SessionClient,
   res: Response
-): Promise<{ user: User } | null> => {
+): Promise<{ user: User; twoFactorChallenge?: string } | null> => {
   const user = await findUserByUsername(username);
 
-  if (!user || !verifyPassword(password, user.hashedPassword)) {
+  if (!user || !(await verifyPassword(password, user.hashedPassword))) {
     return null;
   }
 
-  // Met à jour la date de dernière connexion
-  await updateLastLogin(user.id);
+  // Les anciens hash sont mis à niveau dès que le mot de passe est connu
+  if (needsPasswordRehash(user.hashedPassword)) {
+    await rehashPassword(user.id, password);
+  }
 
-  const payload: JwtPayload = {
-    userId: user.id,
-    username: user.username,
-    email: user.email,
-    role: user.role,
-  };
+  if (user.twoFactorEnabledAt) {
+    return {
+      user,
+      twoFactorChallenge: await generateTwoFactorChallenge(user.id),
+    };
+  }
+
+  await startUserSession(user, client, res);
+
+  return { user };
+};
+
+/**
+ * Termine une connexion avec double authentification : vérifie le challenge
+ * puis le code (TOTP ou code de secours), et ouvre la session
+ */
+export const completeTwoFactorLogin = async (
+  challenge: string,
+  code: string,
+  client: SessionClient,
+  res: Response
+): Promise<{ user: User }> => {
+  let userId: string;
+
+  try {
+    const secretKey = new TextEncoder().encode(config.jwtSecret);
+    const { payload } = await jose.jwtVerify(challenge, secretKey);
+
+    if (
+      payload.purpose !== TWO_FACTOR_CHALLENGE_PURPOSE ||
+      typeof payload.userId !== "string"
+    ) {
+      throw new Error("Objet du token invalide");
+    }
 
-  const token = await generateJWT(payload);
+    userId = payload.userId;
+  } catch (error) {
+    throw new Error("Challenge de double authentification invalide ou expiré");
+  }
+
+  const user = await verifySecondFactor(userId, code);
+
+  await startUserSession(user, client, res);
+
+  return { user };
+};
+
+/**
+ * Renouvelle une session : nouveau token d'accès et nouveau refresh token,
+ * l'ancien devenant inutilisable
+ */
+export const refreshUserSession = async (
+  refreshToken: string,
+  client: SessionClient,
+  res: Response
+): Promise<{ user: User }> => {
+  const {
+    session,
+    user,
+    refreshToken: newRefreshToken,
+  } = await rotateSession(refreshToken, client);
 
-  setJWTCookie(res, token);
+  await issueSessionTokens(user, session.id, newRefreshToken, res);
 
   return { user };
 };
@@ -0,0 +1,112 @@
+import { beforeEach, describe, expect, mock, test } from "bun:test";
+
+const PLATFORM_TEAM = "team-platform";
+const OTHER_TEAM = "team-other";
+
+const event = {
+  id: "event-1",
+  platform: "CTFD",
+  platformUrl: "https://ctf.example.com",
+  platformApiKey: "cle-chiffree",
+  platformTeamId: PLATFORM_TEAM,
+};
+
+let challenge: Record<string, unknown>;
+
+const prisma = {
+  event: { findUnique: mock(async () => event) },
+  challenge: {
+    findUnique: mock(async () => challenge),
+    update: mock(async () => challenge),
+  },
+  teamMember: { findUnique: mock(async () => ({ role: "MEMBER" })) },
+  user: { findUnique: mock(async () => ({ username: "alice" })) },
+};
+
+const submitFlag = mock(async () => ({
+  verdict: "CORRECT" as const,
+  message: "Correct",
+}));
+const createFlagAttempt = mock(async () => ({}));
+
+mock.module("../../prisma/client", () => ({ prisma, default: prisma }));
+mock.module("../platforms/platformService", () => ({
+  hasPlatform: () => true,
+  getPlatformAdapter: () => ({ submitFlag }),
+}));
+mock.module("../flagAttempts/flagAttemptService", () => ({
+  createFlagAttempt,
+}));
+mock.module("../messages/messageService", () => ({
+  postSystemMessage: mock(async () => ({})),
+}));
+
+const { solveChallenge } = await import("./challengeService");
+
+const buildChallenge = (teamId: string) => ({
+  id: "challenge-1",
+  name: "Heap",
+  points: 100,
+  flag: "flag{local}",
+  solved: false,
+  externalId: "42",
+  eventId: event.id,
+  teamId,
+});
+
+describe("solveChallenge", () => {
+  beforeEach(() => {
+    submitFlag.mockClear();
+    createFlagAttempt.mockClear();
+  });
+
+  test("relaie le flag à la plateforme pour l'équipe propriétaire des identifiants", async () => {
+    challenge = buildChallenge(PLATFORM_TEAM);
+
+    const result = await solveChallenge(
+      "challenge-1",
+      event.id,
+      "user-1",
+      "flag{distant}"
+    );
+
+    expect(submitFlag).toHaveBeenCalledWith("42", "flag{distant}");
+    expect(result).toEqual({ solved: true, points: 100, verdict: "CORRECT" });
+  });
+
+  test("vérifie localement le flag d'une autre équipe de l'événement", async () => {
+    challenge = buildChallenge(OTHER_TEAM);
+
+    const result = await solveChallenge(
+      "challenge-1",
+      event.id,
+      "user-1",
+      "flag{local}"
+    );
+
+    expect(submitFlag).not.toHaveBeenCalled();
+    expect(result).toEqual({ solved: true, points: 100, verdict: undefined });
+  });
+
+  test("refuse localement un flag erroné d'une autre équipe sans le relayer", async () => {
+    challenge = buildChallenge(OTHER_TEAM);
+
+    const result = await solveChallenge(
+      "challenge-1",
+      event.id,
+      "user-1",
+      "flag{faux}"
+    );
+
+    expect(submitFlag).not.toHaveBeenCalled();
+    expect(result.solved).toBe(false);
+    expect(createFlagAttempt).toHaveBeenCalledWith(
+      "flag{faux}",
+      false,
+      "Tentative échouée",
+      "user-1",
+      "challenge-1",
+      undefined
+    );
+  });
+});
@@ -1,5 +1,23 @@
+import type { FlagVerdict } from "@prisma/client";
 import { prisma } from "../../prisma/client";
+import { logError } from "../../utils/logger";
+import type { UpdateChallengeInput } from "../../validation/challengeValidation";
 import { createFlagAttempt } from "../flagAttempts/flagAttemptService";
+import { postSystemMessage } from "../messages/messageService";
+import { getPlatformAdapter, hasPlatform } from "../platforms/platformService";
+import type { PlatformAdapter, PlatformChallenge } from "../platforms/types";
+import {
+  addResourceToChallenge,
+  findExistingResource,
+  hashFileContent,
+} from "./resourceService";
+
+/**
+ * Normalise les tags pour la recherche dans la base de connaissances
+ */
+const normalizeTags = (tags: string[]) => [
+  ...new Set(tags.map((tag) => tag.trim().toLowerCase())),
+];
 
 /**
  * Crée un nouveau challenge
@@ -11,7 +29,8 @@ export const createChallenge = async (
   points: string | undefined,
   teamId: string,
   eventId: string,
-  userId: string
+  userId: string,
+  tags: string[] = []
 ) => {
   // Vérifier si l'événement existe
   const event = await prisma.event.findUnique({
@@ -74,6 +93,7 @@ export const createChallenge = async (
       description,
       category,
       points: points ? parseInt(points) : undefined,
+      tags: normalizeTags(tags),
       teamId,
       eventId,
     },
@@ -244,6 +264,74 @@ export const getChallengeById = async (
   return challenge;
 };
 
+/**
+ * Met à jour un challenge, y compris ses tags
+ */
+export const updateChallenge = async (
+  challengeId: string,
+  eventId: string,
+  userId: string,
+  data: UpdateChallengeInput
+) => {
+  const challenge = await prisma.challenge.findUnique({
+    where: { id: challengeId },
+  });
+
+  if (!challenge) {
+    throw new Error("Challenge non trouvé");
+  }
+
+  // Vérifier si le challenge appartient à l'événement spécifié
+  if (challenge.eventId !== eventId) {
+    throw new Error("Challenge non trouvé dans cet événement");
+  }
+
+  // Vérifier si l'utilisateur est membre de l'équipe du challenge
+  const teamMember = await prisma.teamMember.findUnique({
+    where: {
+      userId_teamId: {
+        userId,
+        teamId: challenge.teamId,
+      },
+    },
+  });
+
+  if (!teamMember) {
+    throw new Error("Non autorisé à modifier ce challenge");
+  }
+
+  // Vérifier que le nouveau nom n'est pas déjà utilisé
+  if (data.name && data.name !== challenge.name) {
+    const existingChallenge = await prisma.challenge.findUnique({
+      where: {
+        name_teamId_eventId: {
+          name: data.name,
+          teamId: challenge.teamId,
+          eventId,
+        },
+      },
+    });
+
+    if (existingChallenge) {
+      throw new Error(
+        "Un challenge avec ce nom existe déjà pour cet événement et cette équipe"
+      );
+    }
+  }
+
+  return prisma.challenge.update({
+    where: { id: challengeId },
+    data: {
+      name: data.name,
+      description: data.description,
+      category: data.category,
+      points: data.points,
+      flag: data.flag,
+      tags: data.tags ? normalizeTags(data.tags) : undefined,
+    },
+  });
+};
+
 /**
  * Assigne un utilisateur à un challenge
  */
@@ -315,12 +403,19 @@ export const assignUserToChallenge = async (
   }
 
   // Assigner l'utilisateur au challenge
-  return await prisma.challengeAssignment.create({
+  const assignment = await prisma.challengeAssignment.create({
     data: {
       challengeId,
       userId: targetUserId,
     },
   });
+
+  // Annoncer l'assignation dans le chat de l'équipe et du challenge
+  const content = `${targetUser.username} a été assigné au challenge ${challenge.name}`;
+  await postSystemMessage(challenge.teamId, content, userId);
+  await postSystemMessage(challenge.teamId, content, userId, challengeId);
+
+  return assignment;
 };
 
 /**
@@ -374,20 +469,62 @@ export const solveChallenge = async (
     throw new Error("Challenge déjà résolu");
   }
 
-  // Vérifier le flag
-  const isSuccess = challenge.flag === flag;
+  let isSuccess: boolean;
+  let verdict: FlagVerdict | undefined;
+  let comment: string;
+
+  // Seule l'équipe propriétaire des identifiants de la plateforme peut y
+  // soumettre : les autres équipes gardent la vérification locale
+  if (
+    hasPlatform(event) &&
+    challenge.externalId &&
+    event.platformTeamId === challenge.teamId
+  ) {
+    // Relayer la soumission à la plateforme, seule juge du flag
+    let submission: Awaited<ReturnType<PlatformAdapter["submitFlag"]>>;
+    try {
+      submission = await getPlatformAdapter(event).submitFlag(
+        challenge.externalId,
+        flag
+      );
+    } catch (error) {
+      if (
+        error instanceof Error &&
+        error.message.startsWith("Erreur de la plateforme CTF")
+      ) {
+        throw error;
+      }
+
+      // Réseau, délai dépassé ou réponse illisible : la plateforme n'a pas
+      // pu juger le flag
+      logError(
+        error instanceof Error ? error : new Error(String(error)),
+        `Soumission du flag du challenge ${challengeId} à la plateforme CTF`
+      );
+      throw new Error("Plateforme CTF injoignable");
+    }
+
+    verdict = submission.verdict;
+    isSuccess = verdict === "CORRECT";
+    comment = `Plateforme : ${submission.message}`;
+  } else {
+    // Vérifier le flag
+    isSuccess = challenge.flag === flag;
+    comment = isSuccess ? "Tentative réussie" : "Tentative échouée";
+  }
 
   // Enregistrer la tentative de flag
   await createFlagAttempt(
     flag,
     isSuccess,
-    isSuccess ? "Tentative réussie" : "Tentative échouée",
+    comment,
     userId,
-    challengeId
+    challengeId,
+    verdict
   );
 
   if (!isSuccess) {
-    return { solved: false };
+    return { solved: false, verdict };
   }
 
   // Marquer le challenge comme résolu
@@ -396,5 +533,239 @@ export const solveChallenge = async (
     data: { solved: true, solvedAt: new Date() },
   });
 
-  return { solved: true, points: challenge.points || 0 };
+  // Annoncer la résolution dans le chat de l'équipe et du challenge
+  const solver = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { username: true },
+  });
+  const content = `${solver?.username || "Un membre"} a résolu le challenge ${challenge.name} (+${challenge.points || 0} points)`;
+  await postSystemMessage(challenge.teamId, content, userId);
+  await postSystemMessage(challenge.teamId, content, userId, challengeId);
+
+  return { solved: true, points: challenge.points || 0, verdict };
+};
+
+/**
+ * Importe les challenges d'un événement depuis sa plateforme CTF
+ */
+export const importChallengesFromPlatform = async (
+  eventId: string,
+  teamId: string,
+  userId: string
+) => {
+  // Vérifier si l'événement existe
+  const event = await prisma.event.findUnique({
+    where: { id: eventId },
+  });
+
+  if (!event) {
+    throw new Error("Événement non trouvé");
+  }
+
+  const adapter = getPlatformAdapter(event);
+
+  // Vérifier si l'équipe est associée à l'événement
+  const eventTeam = await prisma.eventTeam.findUnique({
+    where: {
+      eventId_teamId: {
+        eventId,
+        teamId,
+      },
+    },
+  });
+
+  if (!eventTeam) {
+    throw new Error("Cette équipe n'est pas associée à cet événement");
+  }
+
+  // Vérifier si l'utilisateur est membre de l'équipe
+  const teamMember = await prisma.teamMember.findUnique({
+    where: {
+      userId_teamId: {
+        userId,
+        teamId,
+      },
+    },
+  });
+
+  if (!teamMember) {
+    throw new Error("Vous n'êtes pas membre de cette équipe");
+  }
+
+  // Les identifiants de la plateforme ne servent qu'à l'équipe qui les a
+  // fournis
+  if (event.platformTeamId !== teamId) {
+    throw new Error(
+      "Les identifiants de la plateforme appartiennent à une autre équipe"
+    );
+  }
+
+  const platformChallenges = await adapter.listChallenges();
+
+  let created = 0;
+  let updated = 0;
+  const createdNames: string[] = [];
+  const files = { downloaded: 0, skipped: 0, failed: 0 };
+
+  for (const platformChallenge of platformChallenges) {
+    const challenge = await upsertPlatformChallenge(
+      platformChallenge,
+      eventId,
+      teamId
+    );
+
+    if (challenge.created) {
+      created++;
+      createdNames.push(platformChallenge.name);
+      await postSystemMessage(
+        teamId,
+        `Challenge ${platformChallenge.name} importé depuis la plateforme CTF`,
+        userId,
+        challenge.id
+      );
+    } else {
+      updated++;
+    }
+
+    const fileStats = await importPlatformFiles(
+      adapter,
+      platformChallenge,
+      challenge.id,
+      eventId,
+      userId
+    );
+    files.downloaded += fileStats.downloaded;
+    files.skipped += fileStats.skipped;
+    files.failed += fileStats.failed;
+  }
+
+  // Un seul message récapitulatif dans le canal de l'équipe
+  if (createdNames.length > 0) {
+    await postSystemMessage(
+      teamId,
+      `${createdNames.length} nouveau(x) challenge(s) importé(s) depuis la plateforme CTF : ${createdNames.join(", ")}`,
+      userId
+    );
+  }
+
+  return { total: platformChallenges.length, created, updated, files };
+};
+
+/**
+ * Crée ou met à jour un challenge importé depuis la plateforme
+ */
+const upsertPlatformChallenge = async (
+  platformChallenge: PlatformChallenge,
+  eventId: string,
+  teamId: string
+): Promise<{ id: string; created: boolean }> => {
+  const { externalId } = platformChallenge;
+
+  const data = {
+    name: platformChallenge.name,
+    description: platformChallenge.description,
+    category: platformChallenge.category,
+    points: platformChallenge.points,
+  };
+
+  const existingChallenge = await prisma.challenge.findUnique({
+    where: {
+      externalId_eventId_teamId: {
+        externalId,
+        eventId,
+        teamId,
+      },
+    },
+  });
+
+  if (existingChallenge) {
+    await prisma.challenge.update({
+      where: { id: existingChallenge.id },
+      data,
+    });
+    return { id: existingChallenge.id, created: false };
+  }
+
+  // Un challenge saisi à la main avec le même nom est rattaché à la plateforme
+  const namesakeChallenge = await prisma.challenge.findUnique({
+    where: {
+      name_teamId_eventId: {
+        name: platformChallenge.name,
+        teamId,
+        eventId,
+      },
+    },
+  });
+
+  if (namesakeChallenge) {
+    await prisma.challenge.update({
+      where: { id: namesakeChallenge.id },
+      data: { ...data, externalId },
+    });
+    return { id: namesakeChallenge.id, created: false };
+  }
+
+  const challenge = await prisma.challenge.create({
+    data: {
+      ...data,
+      externalId,
+      teamId,
+      eventId,
+    },
+  });
+  return { id: challenge.id, created: true };
+};
+
+/**
+ * Télécharge les fichiers officiels d'un challenge dans ses ressources
+ *
+ * Les fichiers déjà récupérés (même URL source ou même contenu) sont ignorés.
+ */
+const importPlatformFiles = async (
+  adapter: PlatformAdapter,
+  platformChallenge: PlatformChallenge,
+  challengeId: string,
+  eventId: string,
+  userId: string
+) => {
+  const stats = { downloaded: 0, skipped: 0, failed: 0 };
+
+  for (const file of platformChallenge.files) {
+    try {
+      if (await findExistingResource(challengeId, { sourceUrl: file.url })) {
+        stats.skipped++;
+        continue;
+      }
+
+      const { name, mimeType, content } = await adapter.downloadFile(file);
+
+      const sha256 = hashFileContent(content);
+      if (await findExistingResource(challengeId, { sha256 })) {
+        stats.skipped++;
+        continue;
+      }
+
+      await addResourceToChallenge(
+        challengeId,
+        eventId,
+        userId,
+        new File([content], name, { type: mimeType }),
+        {
+          description: "Fichier officiel de la plateforme CTF",
+          type: "official",
+          official: true,
+          sourceUrl: file.url,
+        }
+      );
+      stats.downloaded++;
+    } catch (error) {
+      logError(
+        error instanceof Error ? error : new Error(String(error)),
+        `Téléchargement du fichier ${file.name} du challenge ${challengeId}`
+      );
+      stats.failed++;
+    }
+  }
+
+  return stats;
 };
@@ -1,8 +1,10 @@
 import type { Upload } from "@prisma/client";
 import Bun from "bun";
+import * as crypto from "crypto";
 import * as fs from "fs";
 import * as path from "path";
 import { prisma } from "../../prisma/client";
+import { postSystemMessage } from "../messages/messageService";
 
 // Étendre le type Upload pour inclure le champ metadata
 type UploadWithMetadata = Upload & {
@@ -17,6 +19,9 @@ export type ResourceMetadata = {
   type?: string;
   tags?: string[];
   visibility?: "team" | "challenge" | "public";
+  official?: boolean;
+  sourceUrl?: string;
+  sha256?: string;
 };
 
 /**
@@ -94,6 +99,13 @@ const ensureUploadDir = (challengeId: string): string => {
   return uploadDir;
 };
 
+/**
+ * Calcule l'empreinte SHA-256 du contenu d'un fichier
+ */
+export const hashFileContent = (buffer: ArrayBuffer): string => {
+  return crypto.createHash("sha256").update(Buffer.from(buffer)).digest("hex");
+};
+
 /**
  * Ajoute une ressource à un challenge
  */
@@ -132,13 +144,50 @@ export const addResourceToChallenge = async (
       teamId: challenge.teamId,
       challengeId,
       // @ts-ignore - Le champ metadata existe dans le schéma mais pas encore dans les types générés
-      metadata: metadata,
+      metadata: { ...metadata, sha256: hashFileContent(buffer) },
     },
   })) as UploadWithMetadata;
 
+  // Les fichiers officiels sont annoncés avec l'import de leur challenge
+  if (!metadata.official) {
+    const uploader = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { username: true },
+    });
+    const content = `${uploader?.username || "Un membre"} a ajouté la ressource ${originalFilename} au challenge ${challenge.name}`;
+    await postSystemMessage(challenge.teamId, content, userId);
+    await postSystemMessage(challenge.teamId, content, userId, challengeId);
+  }
+
   return upload;
 };
 
+/**
+ * Indique si une ressource du challenge correspond déjà à une source ou à un
+ * contenu donné
+ */
+export const findExistingResource = async (
+  challengeId: string,
+  criteria: { sourceUrl?: string; sha256?: string }
+) => {
+  const conditions = Object.entries(criteria)
+    .filter(([, value]) => value)
+    .map(([key, value]) => ({
+      metadata: { path: [key], equals: value },
+    }));
+
+  if (conditions.length === 0) {
+    return null;
+  }
+
+  return await prisma.upload.findFirst({
+    where: {
+      challengeId,
+      OR: conditions,
+    },
+  });
+};
+
 /**
  * Récupère toutes les ressources d'un challenge
  */
@@ -332,6 +381,8 @@ export const updateResource = async (
     const buffer = await file.arrayBuffer();
     await Bun.write(filePath, buffer);
 
+    updatedData.metadata.sha256 = hashFileContent(buffer);
+
     updatedData = {
       ...updatedData,
       filename: originalFilename,
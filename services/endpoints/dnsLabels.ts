@@ -0,0 +1,95 @@
+const BASE32_ALPHABET = "abcdefghijklmnopqrstuvwxyz234567";
+
+/**
+ * Découpe un nom interrogé sous la zone des DNS catchers : le label qui
+ * précède la zone est le token de l'endpoint, les labels à sa gauche sont les
+ * données exfiltrées
+ */
+export const splitDnsName = (
+  name: string,
+  domain: string
+): { token: string; dataLabels: string[] } | null => {
+  const normalized = name.toLowerCase().replace(/\.$/, "");
+  const suffix = `.${domain}`;
+
+  if (!normalized.endsWith(suffix)) {
+    return null;
+  }
+
+  const labels = normalized.slice(0, -suffix.length).split(".");
+  const token = labels.pop();
+
+  if (!token) {
+    return null;
+  }
+
+  return { token, dataLabels: labels };
+};
+
+/**
+ * Indique si le texte décodé est lisible (pas de caractères de contrôle
+ * hormis les espaces usuels)
+ */
+const isPrintable = (text: string): boolean => {
+  return text.length > 0 && !/[\u0000-\u0008\u000e-\u001f\ufffd]/.test(text);
+};
+
+/**
+ * Décode une chaîne hexadécimale, ou renvoie null
+ */
+const decodeHex = (value: string): string | null => {
+  if (value.length % 2 !== 0 || !/^[0-9a-f]+$/.test(value)) {
+    return null;
+  }
+
+  return Buffer.from(value, "hex").toString("utf8");
+};
+
+/**
+ * Décode une chaîne base32 (RFC 4648, sans padding), ou renvoie null
+ */
+const decodeBase32 = (value: string): string | null => {
+  const input = value.replace(/=+$/, "");
+
+  if (!/^[a-z2-7]+$/.test(input)) {
+    return null;
+  }
+
+  let bits = 0;
+  let buffer = 0;
+  const bytes: number[] = [];
+
+  for (const char of input) {
+    buffer = (buffer << 5) | BASE32_ALPHABET.indexOf(char);
+    bits += 5;
+
+    if (bits >= 8) {
+      bits -= 8;
+      bytes.push((buffer >> bits) & 0xff);
+    }
+  }
+
+  return Buffer.from(bytes).toString("utf8");
+};
+
+/**
+ * Tente de décoder les labels exfiltrés, en hexadécimal puis en base32.
+ * Les labels sont concaténés car les données longues sont découpées en
+ * plusieurs labels de 63 caractères au plus.
+ */
+export const decodeDnsLabels = (labels: string[]): string | null => {
+  const joined = labels.join("");
+
+  if (!joined) {
+    return null;
+  }
+
+  for (const decode of [decodeHex, decodeBase32]) {
+    const decoded = decode(joined);
+    if (decoded !== null && isPrintable(decoded)) {
+      return decoded;
+    }
+  }
+
+  return null;
+};
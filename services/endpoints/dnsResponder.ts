@@ -0,0 +1,227 @@
+import dgram from "dgram";
+import net from "net";
+import config from "../../config/config";
+import { info, logError } from "../../utils/logger";
+import { captureDnsQuery } from "./endpointService";
+
+/**
+ * Question d'une requête DNS
+ */
+type DnsQuestion = {
+  name: string;
+  type: number;
+  qclass: number;
+  // Fin de la section question dans le message, pour recopier la question
+  end: number;
+};
+
+const DNS_HEADER_LENGTH = 12;
+const DNS_TYPE_A = 1;
+const DNS_CLASS_IN = 1;
+const DNS_RCODE_FORMERR = 1;
+const DNS_RCODE_REFUSED = 5;
+
+// Noms usuels des types de requêtes, les autres sont notés TYPE<n>
+const DNS_TYPE_NAMES: Record<number, string> = {
+  1: "A",
+  2: "NS",
+  5: "CNAME",
+  6: "SOA",
+  12: "PTR",
+  15: "MX",
+  16: "TXT",
+  28: "AAAA",
+  33: "SRV",
+  255: "ANY",
+};
+
+/**
+ * Lit la première question d'un message DNS
+ */
+const parseQuestion = (message: Buffer): DnsQuestion | null => {
+  if (message.length < DNS_HEADER_LENGTH || message.readUInt16BE(4) < 1) {
+    return null;
+  }
+
+  const labels: string[] = [];
+  let offset = DNS_HEADER_LENGTH;
+
+  while (offset < message.length) {
+    const length = message[offset];
+
+    if (length === 0) {
+      offset++;
+      break;
+    }
+
+    // Les requêtes n'utilisent pas la compression dans la question
+    if (length > 63 || offset + 1 + length > message.length) {
+      return null;
+    }
+
+    labels.push(message.toString("latin1", offset + 1, offset + 1 + length));
+    offset += 1 + length;
+  }
+
+  if (offset + 4 > message.length) {
+    return null;
+  }
+
+  return {
+    name: labels.join("."),
+    type: message.readUInt16BE(offset),
+    qclass: message.readUInt16BE(offset + 2),
+    end: offset + 4,
+  };
+};
+
+/**
+ * Construit la réponse autoritaire à une requête : un enregistrement A vers
+ * l'adresse configurée pour les noms de la zone, aucune réponse sinon
+ */
+const buildResponse = (
+  message: Buffer,
+  question: DnsQuestion | null
+): Buffer => {
+  const header = Buffer.alloc(DNS_HEADER_LENGTH);
+  message.copy(header, 0, 0, 2);
+
+  const requestFlags = message.length >= 4 ? message.readUInt16BE(2) : 0;
+  const opcode = requestFlags & 0x7800;
+  const recursionDesired = requestFlags & 0x0100;
+
+  if (!question) {
+    header.writeUInt16BE(0x8000 | opcode | DNS_RCODE_FORMERR, 2);
+    return header;
+  }
+
+  const inZone =
+    question.name.toLowerCase() === config.dns.domain ||
+    question.name.toLowerCase().endsWith(`.${config.dns.domain}`);
+  const answerA =
+    inZone && question.type === DNS_TYPE_A && question.qclass === DNS_CLASS_IN;
+
+  // QR + AA dans la zone, REFUSED en dehors
+  header.writeUInt16BE(
+    inZone
+      ? 0x8000 | opcode | 0x0400 | recursionDesired
+      : 0x8000 | opcode | recursionDesired | DNS_RCODE_REFUSED,
+    2
+  );
+  header.writeUInt16BE(1, 4);
+  header.writeUInt16BE(answerA ? 1 : 0, 6);
+
+  const questionSection = message.subarray(DNS_HEADER_LENGTH, question.end);
+
+  if (!answerA) {
+    return Buffer.concat([header, questionSection]);
+  }
+
+  const answer = Buffer.alloc(16);
+  answer.writeUInt16BE(0xc000 | DNS_HEADER_LENGTH, 0); // Pointeur vers le nom de la question
+  answer.writeUInt16BE(DNS_TYPE_A, 2);
+  answer.writeUInt16BE(DNS_CLASS_IN, 4);
+  answer.writeUInt32BE(0, 6); // TTL nul pour que chaque résolution nous parvienne
+  answer.writeUInt16BE(4, 10);
+  config.dns.responseIp
+    .split(".")
+    .forEach((byte, index) =>
+      answer.writeUInt8(Number(byte) & 0xff, 12 + index)
+    );
+
+  return Buffer.concat([header, questionSection, answer]);
+};
+
+/**
+ * Traite une requête DNS reçue : enregistre la question si elle vise un DNS
+ * catcher, puis renvoie la réponse à émettre
+ */
+const handleDnsMessage = (
+  message: Buffer,
+  resolverIp: string | undefined,
+  protocol: "udp" | "tcp"
+): Buffer => {
+  const question = parseQuestion(message);
+
+  if (question) {
+    captureDnsQuery({
+      name: question.name,
+      type: DNS_TYPE_NAMES[question.type] || `TYPE${question.type}`,
+      resolverIp,
+      protocol,
+    }).catch((error) =>
+      logError(
+        error instanceof Error ? error : new Error(String(error)),
+        `Enregistrement de la requête DNS ${question.name}`
+      )
+    );
+  }
+
+  return buildResponse(message, question);
+};
+
+/**
+ * Démarre le serveur DNS autoritaire des DNS catchers, en UDP et en TCP
+ */
+export const startDnsResponder = () => {
+  if (config.dns.port <= 0) {
+    info("Serveur DNS des DNS catchers désactivé");
+    return;
+  }
+
+  const udpServer = dgram.createSocket("udp4");
+
+  udpServer.on("message", (message, remote) => {
+    udpServer.send(
+      handleDnsMessage(message, remote.address, "udp"),
+      remote.port,
+      remote.address
+    );
+  });
+
+  udpServer.on("error", (error) =>
+    logError(error, "Serveur DNS des DNS catchers (UDP)")
+  );
+
+  udpServer.bind(config.dns.port);
+
+  // En TCP, chaque message est précédé de sa longueur sur deux octets
+  const tcpServer = net.createServer((socket) => {
+    let pending = Buffer.alloc(0);
+
+    socket.on("data", (chunk: Buffer) => {
+      pending = Buffer.concat([pending, chunk]);
+
+      while (pending.length >= 2) {
+        const length = pending.readUInt16BE(0);
+        if (pending.length < 2 + length) {
+          break;
+        }
+
+        const response = handleDnsMessage(
+          pending.subarray(2, 2 + length),
+          socket.remoteAddress,
+          "tcp"
+        );
+        const prefix = Buffer.alloc(2);
+        prefix.writeUInt16BE(response.length, 0);
+        socket.write(Buffer.concat([prefix, response]));
+
+        pending = pending.subarray(2 + length);
+      }
+    });
+
+    socket.on("error", () => socket.destroy());
+    socket.setTimeout(10000, () => socket.destroy());
+  });
+
+  tcpServer.on("error", (error) =>
+    logError(error, "Serveur DNS des DNS catchers (TCP)")
+  );
+
+  tcpServer.listen(config.dns.port, () => {
+    info(
+      `Serveur DNS des DNS catchers démarré sur le port ${config.dns.port} (zone ${config.dns.domain})`
+    );
+  });
+};
@@ -0,0 +1,847 @@
+import type {
+  Request as CapturedRequestRow,
+  Endpoint,
+  EndpointType,
+} from "@prisma/client";
+import { Prisma } from "@prisma/client";
+import type { WebSocket } from "ws";
+import crypto from "crypto";
+import config from "../../config/config";
+import { prisma } from "../../prisma/client";
+import { checkTeamMembership } from "../teams/teamService";
+import { buildHar, getReplayHeaders, toCurlCommand } from "./requestExport";
+import { decodeDnsLabels, splitDnsName } from "./dnsLabels";
+import { resolveReplayTarget, sendReplayRequest } from "./replayClient";
+import { publishCapturedRequest } from "./requestStream";
+import type { EndpointRule } from "./responseRules";
+import { resolveRuleResponse } from "./responseRules";
+import type { ShellMessage } from "./shellListenerService";
+import {
+  addShellViewer,
+  allocateShellPort,
+  getActiveShellSessionIds,
+  sendShellInput,
+  startShellListener,
+  stopShellListener,
+} from "./shellListenerService";
+
+/**
+ * Réponse renvoyée par un request catcher
+ */
+export type CatcherResponse = {
+  status?: number;
+  headers?: Record<string, string>;
+  body?: string | null;
+};
+
+/**
+ * Requête HTTP reçue par un request catcher
+ */
+export type CapturedRequest = {
+  method: string;
+  url: string;
+  path: string;
+  headers: Record<string, string | string[] | undefined>;
+  body?: string;
+  ip?: string;
+};
+
+/**
+ * Nombre de requêtes renvoyées par page d'historique
+ */
+export const REQUESTS_PAGE_SIZE = 50;
+
+/**
+ * Durée maximale d'un rejeu de requête, en millisecondes
+ */
+const REPLAY_TIMEOUT = 10000;
+
+/**
+ * Taille maximale lue pour le corps d'une réponse rejouée, en octets
+ */
+const REPLAY_MAX_BODY_LENGTH = 1024 * 1024;
+
+/**
+ * Nombre de tentatives d'enregistrement des règles en cas de conflit de
+ * version
+ */
+const RULES_SAVE_ATTEMPTS = 3;
+
+/**
+ * Format d'export des requêtes capturées
+ */
+export type RequestExportFormat = "har" | "curl";
+
+/**
+ * Génère un token d'endpoint unique et difficile à deviner
+ */
+export const generateEndpointToken = (): string => {
+  return crypto.randomBytes(16).toString("hex");
+};
+
+/**
+ * Construit l'URL publique d'un endpoint
+ */
+export const getEndpointUrl = (token: string): string => {
+  return `${config.publicUrl.replace(/\/+$/, "")}/c/${token}`;
+};
+
+/**
+ * Requête DNS reçue par le serveur DNS des DNS catchers
+ */
+export type CapturedDnsQuery = {
+  name: string;
+  type: string;
+  resolverIp?: string;
+  protocol: "udp" | "tcp";
+};
+
+/**
+ * Ajoute l'adresse publique à un endpoint avant de le renvoyer : l'URL d'un
+ * request catcher, l'hôte:port du listener d'un reverse shell ou le domaine
+ * d'un DNS catcher
+ */
+const withUrl = <T extends Endpoint>(endpoint: T) => ({
+  ...endpoint,
+  url:
+    endpoint.type === "REQUEST_CATCHER" ? getEndpointUrl(endpoint.token) : null,
+  listener:
+    endpoint.type === "REVERSE_SHELL" && endpoint.port
+      ? `${config.shell.publicHost}:${endpoint.port}`
+      : null,
+  domain:
+    endpoint.type === "DNS_CATCHER"
+      ? `${endpoint.token}.${config.dns.domain}`
+      : null,
+});
+
+/**
+ * Récupère un endpoint de l'équipe après vérification de l'accès
+ */
+const getTeamEndpoint = async (
+  endpointId: string,
+  teamId: string,
+  userId: string
+) => {
+  await checkTeamMembership(
+    teamId,
+    userId,
+    "Non autorisé à accéder aux endpoints de cette équipe"
+  );
+
+  const endpoint = await prisma.endpoint.findUnique({
+    where: { id: endpointId },
+  });
+
+  if (!endpoint || endpoint.teamId !== teamId) {
+    throw new Error("Endpoint non trouvé");
+  }
+
+  return endpoint;
+};
+
+/**
+ * Crée un endpoint pour une équipe : un request catcher, ou un reverse shell
+ * dont le listener TCP est ouvert immédiatement
+ */
+export const createEndpoint = async (
+  teamId: string,
+  userId: string,
+  name: string,
+  type: EndpointType,
+  expiresAt: Date | undefined,
+  response: CatcherResponse
+) => {
+  await checkTeamMembership(
+    teamId,
+    userId,
+    "Non autorisé à créer un endpoint pour cette équipe"
+  );
+
+  const port = type === "REVERSE_SHELL" ? await allocateShellPort() : null;
+
+  const endpoint = await prisma.endpoint.create({
+    data: {
+      name,
+      type,
+      token: generateEndpointToken(),
+      teamId,
+      expiresAt,
+      port,
+      responseStatus: response.status,
+      responseHeaders: response.headers,
+      responseBody: response.body,
+    },
+  });
+
+  if (port) {
+    try {
+      await startShellListener({ id: endpoint.id, port });
+    } catch (error) {
+      await prisma.endpoint.delete({ where: { id: endpoint.id } });
+      throw new Error("Impossible d'ouvrir le listener du reverse shell");
+    }
+  }
+
+  return withUrl(endpoint);
+};
+
+/**
+ * Récupère les endpoints d'une équipe
+ */
+export const getEndpointsByTeam = async (teamId: string, userId: string) => {
+  await checkTeamMembership(
+    teamId,
+    userId,
+    "Non autorisé à accéder aux endpoints de cette équipe"
+  );
+
+  const endpoints = await prisma.endpoint.findMany({
+    where: { teamId },
+    include: {
+      _count: {
+        select: { requests: true },
+      },
+    },
+    orderBy: { createdAt: "desc" },
+  });
+
+  return endpoints.map(withUrl);
+};
+
+/**
+ * Récupère un endpoint par son ID
+ */
+export const getEndpointById = async (
+  endpointId: string,
+  teamId: string,
+  userId: string
+) => {
+  const endpoint = await getTeamEndpoint(endpointId, teamId, userId);
+
+  return withUrl(endpoint);
+};
+
+/**
+ * Met à jour un endpoint (nom, expiration, réponse renvoyée)
+ */
+export const updateEndpoint = async (
+  endpointId: string,
+  teamId: string,
+  userId: string,
+  data: {
+    name?: string;
+    expiresAt?: Date | null;
+    response?: CatcherResponse;
+  }
+) => {
+  await getTeamEndpoint(endpointId, teamId, userId);
+
+  const endpoint = await prisma.endpoint.update({
+    where: { id: endpointId },
+    data: {
+      name: data.name,
+      expiresAt: data.expiresAt,
+      responseStatus: data.response?.status,
+      responseHeaders: data.response?.headers,
+      responseBody: data.response?.body,
+    },
+  });
+
+  // Une nouvelle date d'expiration peut fermer ou rouvrir le listener
+  if (endpoint.type === "REVERSE_SHELL" && endpoint.port) {
+    if (endpoint.expiresAt && endpoint.expiresAt <= new Date()) {
+      stopShellListener(endpoint.id);
+    } else {
+      await startShellListener({ id: endpoint.id, port: endpoint.port });
+    }
+  }
+
+  return withUrl(endpoint);
+};
+
+/**
+ * Supprime un endpoint et les requêtes capturées
+ */
+export const deleteEndpoint = async (
+  endpointId: string,
+  teamId: string,
+  userId: string
+) => {
+  await getTeamEndpoint(endpointId, teamId, userId);
+
+  stopShellListener(endpointId);
+
+  await prisma.endpoint.delete({
+    where: { id: endpointId },
+  });
+
+  return true;
+};
+
+/**
+ * Récupère une page de requêtes capturées par un endpoint, de la plus récente
+ * à la plus ancienne. Le curseur est l'ID de la dernière requête de la page
+ * précédente.
+ */
+export const getEndpointRequests = async (
+  endpointId: string,
+  teamId: string,
+  userId: string,
+  cursor?: string,
+  limit: number = REQUESTS_PAGE_SIZE
+) => {
+  await getTeamEndpoint(endpointId, teamId, userId);
+
+  const requests = await prisma.request.findMany({
+    where: { endpointId },
+    orderBy: [{ createdAt: "desc" }, { id: "desc" }],
+    take: limit + 1,
+    ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
+  });
+
+  const hasMore = requests.length > limit;
+  const page = hasMore ? requests.slice(0, limit) : requests;
+
+  return {
+    requests: page,
+    nextCursor: hasMore ? page[page.length - 1].id : null,
+  };
+};
+
+/**
+ * Récupère une requête capturée par un endpoint de l'équipe
+ */
+const getCapturedRequest = async (
+  requestId: string,
+  endpointId: string,
+  teamId: string,
+  userId: string
+) => {
+  await getTeamEndpoint(endpointId, teamId, userId);
+
+  const request = await prisma.request.findUnique({
+    where: { id: requestId },
+  });
+
+  if (!request || request.endpointId !== endpointId) {
+    throw new Error("Requête non trouvée");
+  }
+
+  return request;
+};
+
+/**
+ * Met en forme des requêtes capturées en HAR ou en commandes curl
+ */
+const formatRequestExport = (
+  requests: CapturedRequestRow[],
+  format: RequestExportFormat,
+  filename: string,
+  targetUrl?: string
+) => {
+  if (format === "curl") {
+    return {
+      filename: `${filename}.sh`,
+      contentType: "text/x-shellscript; charset=utf-8",
+      content: requests
+        .map((request) => toCurlCommand(request, targetUrl))
+        .join("\n\n"),
+    };
+  }
+
+  return {
+    filename: `${filename}.har`,
+    contentType: "application/json; charset=utf-8",
+    content: JSON.stringify(buildHar(requests), null, 2),
+  };
+};
+
+/**
+ * Exporte tout l'historique d'un endpoint, de la plus ancienne à la plus
+ * récente requête
+ */
+export const exportEndpointRequests = async (
+  endpointId: string,
+  teamId: string,
+  userId: string,
+  format: RequestExportFormat,
+  targetUrl?: string
+) => {
+  const endpoint = await getTeamEndpoint(endpointId, teamId, userId);
+
+  const requests = await prisma.request.findMany({
+    where: { endpointId },
+    orderBy: [{ createdAt: "asc" }, { id: "asc" }],
+  });
+
+  return formatRequestExport(
+    requests,
+    format,
+    `endpoint-${endpoint.token}`,
+    targetUrl
+  );
+};
+
+/**
+ * Exporte une requête capturée
+ */
+export const exportCapturedRequest = async (
+  requestId: string,
+  endpointId: string,
+  teamId: string,
+  userId: string,
+  format: RequestExportFormat,
+  targetUrl?: string
+) => {
+  const request = await getCapturedRequest(
+    requestId,
+    endpointId,
+    teamId,
+    userId
+  );
+
+  return formatRequestExport(
+    [request],
+    format,
+    `request-${request.id}`,
+    targetUrl
+  );
+};
+
+/**
+ * Renvoie une requête capturée vers une URL cible et enregistre la réponse
+ * obtenue à côté de la requête d'origine. La cible doit être autorisée par la
+ * configuration et résoudre vers des adresses publiques uniquement.
+ */
+export const replayCapturedRequest = async (
+  requestId: string,
+  endpointId: string,
+  teamId: string,
+  userId: string,
+  targetUrl: string
+) => {
+  const request = await getCapturedRequest(
+    requestId,
+    endpointId,
+    teamId,
+    userId
+  );
+
+  const target = await resolveReplayTarget(targetUrl);
+
+  const startedAt = Date.now();
+  let result: {
+    responseStatus?: number;
+    responseHeaders?: Record<string, string>;
+    responseBody?: string;
+    error?: string;
+  };
+
+  try {
+    const response = await sendReplayRequest(target, {
+      method: request.method,
+      headers: getReplayHeaders(request),
+      body: ["GET", "HEAD"].includes(request.method)
+        ? undefined
+        : request.body || undefined,
+      timeout: REPLAY_TIMEOUT,
+      maxBodyLength: REPLAY_MAX_BODY_LENGTH,
+    });
+
+    result = {
+      responseStatus: response.status,
+      responseHeaders: response.headers,
+      responseBody: response.body,
+    };
+  } catch (error) {
+    result = {
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+
+  return await prisma.requestReplay.create({
+    data: {
+      requestId,
+      userId,
+      targetUrl,
+      durationMs: Date.now() - startedAt,
+      ...result,
+    },
+  });
+};
+
+/**
+ * Récupère les rejeux d'une requête capturée, du plus récent au plus ancien
+ */
+export const getRequestReplays = async (
+  requestId: string,
+  endpointId: string,
+  teamId: string,
+  userId: string
+) => {
+  await getCapturedRequest(requestId, endpointId, teamId, userId);
+
+  return await prisma.requestReplay.findMany({
+    where: { requestId },
+    include: {
+      user: {
+        select: {
+          id: true,
+          username: true,
+        },
+      },
+    },
+    orderBy: { createdAt: "desc" },
+  });
+};
+
+/**
+ * Récupère une page de requêtes DNS reçues par un DNS catcher, de la plus
+ * récente à la plus ancienne
+ */
+export const getDnsQueries = async (
+  endpointId: string,
+  teamId: string,
+  userId: string,
+  cursor?: string,
+  limit: number = REQUESTS_PAGE_SIZE
+) => {
+  await getTeamEndpoint(endpointId, teamId, userId);
+
+  const queries = await prisma.dnsQuery.findMany({
+    where: { endpointId },
+    orderBy: [{ createdAt: "desc" }, { id: "desc" }],
+    take: limit + 1,
+    ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
+  });
+
+  const hasMore = queries.length > limit;
+  const page = hasMore ? queries.slice(0, limit) : queries;
+
+  return {
+    queries: page,
+    nextCursor: hasMore ? page[page.length - 1].id : null,
+  };
+};
+
+/**
+ * Enregistre une requête DNS si elle vise un DNS catcher actif
+ * @returns true si la requête a été enregistrée
+ */
+export const captureDnsQuery = async (
+  query: CapturedDnsQuery
+): Promise<boolean> => {
+  const parts = splitDnsName(query.name, config.dns.domain);
+
+  if (!parts) {
+    return false;
+  }
+
+  const endpoint = await prisma.endpoint.findUnique({
+    where: { token: parts.token },
+  });
+
+  if (
+    !endpoint ||
+    endpoint.type !== "DNS_CATCHER" ||
+    (endpoint.expiresAt && endpoint.expiresAt < new Date())
+  ) {
+    return false;
+  }
+
+  await prisma.dnsQuery.create({
+    data: {
+      endpointId: endpoint.id,
+      name: query.name.toLowerCase(),
+      type: query.type,
+      resolverIp: query.resolverIp,
+      protocol: query.protocol,
+      decoded: decodeDnsLabels(parts.dataLabels),
+    },
+  });
+
+  return true;
+};
+
+/**
+ * Récupère les sessions reçues par un reverse shell
+ */
+export const getShellSessions = async (
+  endpointId: string,
+  teamId: string,
+  userId: string
+) => {
+  await getTeamEndpoint(endpointId, teamId, userId);
+
+  const activeSessionIds = getActiveShellSessionIds(endpointId);
+  const sessions = await prisma.shellSession.findMany({
+    where: { endpointId },
+    include: {
+      _count: {
+        select: { chunks: true },
+      },
+    },
+    orderBy: { startedAt: "desc" },
+  });
+
+  return sessions.map((session) => ({
+    ...session,
+    active: activeSessionIds.includes(session.id),
+  }));
+};
+
+/**
+ * Récupère le transcript complet d'une session de reverse shell
+ */
+export const getShellTranscript = async (
+  sessionId: string,
+  endpointId: string,
+  teamId: string,
+  userId: string
+) => {
+  await getTeamEndpoint(endpointId, teamId, userId);
+
+  const session = await prisma.shellSession.findUnique({
+    where: { id: sessionId },
+    include: {
+      chunks: {
+        include: {
+          user: {
+            select: {
+              id: true,
+              username: true,
+            },
+          },
+        },
+        orderBy: { createdAt: "asc" },
+      },
+    },
+  });
+
+  if (!session || session.endpointId !== endpointId) {
+    throw new Error("Session non trouvée");
+  }
+
+  return session;
+};
+
+/**
+ * Connecte la WebSocket d'un membre de l'équipe à un reverse shell : il reçoit
+ * la sortie de toutes les sessions et peut envoyer des saisies
+ */
+export const attachShellViewer = async (
+  socket: WebSocket,
+  endpointId: string,
+  teamId: string,
+  userId: string
+) => {
+  const endpoint = await getTeamEndpoint(endpointId, teamId, userId);
+
+  if (endpoint.type !== "REVERSE_SHELL") {
+    throw new Error("Cet endpoint n'est pas un reverse shell");
+  }
+
+  const unsubscribe = addShellViewer(endpointId, socket);
+  socket.on("close", unsubscribe);
+
+  socket.on("message", (raw) => {
+    try {
+      const message = JSON.parse(raw.toString());
+
+      if (message.type !== "input" || typeof message.data !== "string") {
+        throw new Error("Message invalide");
+      }
+
+      sendShellInput(
+        endpointId,
+        userId,
+        message.data,
+        typeof message.sessionId === "string" ? message.sessionId : undefined
+      );
+    } catch (error) {
+      const reply: ShellMessage = {
+        type: "error",
+        message:
+          error instanceof SyntaxError
+            ? "Message invalide"
+            : error instanceof Error
+              ? error.message
+              : String(error),
+      };
+      socket.send(JSON.stringify(reply));
+    }
+  });
+};
+
+/**
+ * Récupère la version la plus récente des règles de réponse d'un endpoint
+ */
+const getLatestRuleSet = async (endpointId: string) => {
+  return await prisma.endpointRuleSet.findFirst({
+    where: { endpointId },
+    orderBy: { version: "desc" },
+    include: {
+      author: {
+        select: {
+          id: true,
+          username: true,
+        },
+      },
+    },
+  });
+};
+
+/**
+ * Récupère les règles de réponse actuellement servies par un endpoint
+ */
+export const getEndpointRules = async (
+  endpointId: string,
+  teamId: string,
+  userId: string
+) => {
+  await getTeamEndpoint(endpointId, teamId, userId);
+
+  const ruleSet = await getLatestRuleSet(endpointId);
+
+  if (!ruleSet) {
+    return { version: 0, rules: [], author: null, createdAt: null };
+  }
+
+  return ruleSet;
+};
+
+/**
+ * Remplace les règles de réponse d'un endpoint en créant une nouvelle version
+ */
+export const updateEndpointRules = async (
+  endpointId: string,
+  teamId: string,
+  userId: string,
+  rules: EndpointRule[]
+) => {
+  await getTeamEndpoint(endpointId, teamId, userId);
+
+  // Deux enregistrements simultanés peuvent calculer le même numéro de
+  // version : le second est alors refusé par la contrainte d'unicité et
+  // retenté avec le numéro suivant
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await prisma.$transaction(async (tx) => {
+        const latest = await tx.endpointRuleSet.findFirst({
+          where: { endpointId },
+          orderBy: { version: "desc" },
+          select: { version: true },
+        });
+
+        return await tx.endpointRuleSet.create({
+          data: {
+            endpointId,
+            authorId: userId,
+            version: (latest?.version || 0) + 1,
+            rules: rules as Prisma.InputJsonValue,
+          },
+          include: {
+            author: {
+              select: {
+                id: true,
+                username: true,
+              },
+            },
+          },
+        });
+      });
+    } catch (error) {
+      if (
+        !(error instanceof Prisma.PrismaClientKnownRequestError) ||
+        error.code !== "P2002"
+      ) {
+        throw error;
+      }
+
+      if (attempt >= RULES_SAVE_ATTEMPTS) {
+        throw new Error(
+          "Les règles ont été modifiées simultanément, veuillez réessayer"
+        );
+      }
+    }
+  }
+};
+
+/**
+ * Récupère l'historique des versions des règles de réponse d'un endpoint
+ */
+export const getEndpointRuleHistory = async (
+  endpointId: string,
+  teamId: string,
+  userId: string
+) => {
+  await getTeamEndpoint(endpointId, teamId, userId);
+
+  return await prisma.endpointRuleSet.findMany({
+    where: { endpointId },
+    orderBy: { version: "desc" },
+    include: {
+      author: {
+        select: {
+          id: true,
+          username: true,
+        },
+      },
+    },
+  });
+};
+
+/**
+ * Enregistre une requête reçue sur un request catcher et renvoie la réponse
+ * à servir
+ */
+export const captureRequest = async (
+  token: string,
+  request: CapturedRequest
+): Promise<CatcherResponse> => {
+  const endpoint = await prisma.endpoint.findUnique({
+    where: { token },
+  });
+
+  if (!endpoint || endpoint.type !== "REQUEST_CATCHER") {
+    throw new Error("Endpoint non trouvé");
+  }
+
+  if (endpoint.expiresAt && endpoint.expiresAt < new Date()) {
+    throw new Error("Endpoint expiré");
+  }
+
+  const captured = await prisma.request.create({
+    data: {
+      method: request.method,
+      url: request.url,
+      path: request.path,
+      headers: request.headers as Prisma.InputJsonValue,
+      body: request.body,
+      ip: request.ip,
+      endpointId: endpoint.id,
+    },
+  });
+
+  publishCapturedRequest(captured);
+
+  const ruleSet = await getLatestRuleSet(endpoint.id);
+  const ruleResponse = ruleSet
+    ? resolveRuleResponse(
+        ruleSet.rules as EndpointRule[],
+        request.method,
+        request.path
+      )
+    : null;
+
+  if (ruleResponse) {
+    return ruleResponse;
+  }
+
+  return {
+    status: endpoint.responseStatus,
+    headers: (endpoint.responseHeaders as Record<string, string>) || {},
+    body: endpoint.responseBody,
+  };
+};
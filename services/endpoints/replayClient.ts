@@ -0,0 +1,239 @@
+import { promises as dns } from "dns";
+import http from "http";
+import https from "https";
+import net from "net";
+import config from "../../config/config";
+
+/**
+ * Réponse obtenue en rejouant une requête
+ */
+export type ReplayResponse = {
+  status: number;
+  headers: Record<string, string>;
+  body: string;
+};
+
+/**
+ * Cible d'un rejeu, dont l'adresse IP est résolue une seule fois puis
+ * réutilisée pour la connexion (un second DNS ne peut pas la changer)
+ */
+type ReplayTarget = {
+  url: URL;
+  address: string;
+  family: 4 | 6;
+};
+
+// Plages réservées : boucle locale, réseaux privés, lien local, adresses
+// uniques locales, multicast... Le serveur ne doit jamais les atteindre.
+const blockedAddresses = new net.BlockList();
+for (const [address, prefix] of [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.0.2.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+  ["198.51.100.0", 24],
+  ["203.0.113.0", 24],
+  ["224.0.0.0", 4],
+  ["240.0.0.0", 4],
+] as const) {
+  blockedAddresses.addSubnet(address, prefix, "ipv4");
+}
+for (const [address, prefix] of [
+  ["::", 128],
+  ["::1", 128],
+  ["64:ff9b::", 96],
+  ["100::", 64],
+  ["2001:db8::", 32],
+  ["fc00::", 7],
+  ["fe80::", 10],
+  ["ff00::", 8],
+] as const) {
+  blockedAddresses.addSubnet(address, prefix, "ipv6");
+}
+
+/**
+ * Indique si une adresse IP est publique. Les adresses IPv4 encapsulées dans
+ * de l'IPv6 (::ffff:a.b.c.d) sont vérifiées comme des adresses IPv4.
+ */
+const isPublicAddress = (address: string, family: 4 | 6): boolean => {
+  if (family === 6) {
+    const mapped = address.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/i);
+    if (mapped) {
+      return isPublicAddress(mapped[1], 4);
+    }
+  }
+
+  return !blockedAddresses.check(address, family === 4 ? "ipv4" : "ipv6");
+};
+
+/**
+ * Indique si un hôte figure dans la liste des hôtes autorisés au rejeu.
+ * "*.example.com" autorise tous les sous-domaines de example.com.
+ */
+const isAllowedHost = (hostname: string): boolean => {
+  return config.replay.allowedHosts.some((pattern) =>
+    pattern.startsWith("*.")
+      ? hostname.endsWith(pattern.slice(1))
+      : hostname === pattern
+  );
+};
+
+/**
+ * Vérifie une URL cible de rejeu et résout son hôte : l'hôte doit être
+ * autorisé par la configuration et toutes ses adresses doivent être publiques
+ */
+export const resolveReplayTarget = async (
+  targetUrl: string
+): Promise<ReplayTarget> => {
+  if (config.replay.allowedHosts.length === 0) {
+    throw new Error("Le rejeu de requêtes est désactivé");
+  }
+
+  const url = new URL(targetUrl);
+  const hostname = url.hostname.toLowerCase().replace(/^\[|\]$/g, "");
+
+  if (!["http:", "https:"].includes(url.protocol) || !isAllowedHost(hostname)) {
+    throw new Error("Hôte cible non autorisé");
+  }
+
+  let addresses: { address: string; family: number }[];
+  try {
+    addresses = net.isIP(hostname)
+      ? [{ address: hostname, family: net.isIP(hostname) }]
+      : await dns.lookup(hostname, { all: true, verbatim: true });
+  } catch (error) {
+    throw new Error("Hôte cible introuvable");
+  }
+
+  if (
+    addresses.length === 0 ||
+    addresses.some(
+      ({ address, family }) => !isPublicAddress(address, family as 4 | 6)
+    )
+  ) {
+    throw new Error("Hôte cible non autorisé");
+  }
+
+  const [{ address, family }] = addresses;
+
+  return { url, address, family: family as 4 | 6 };
+};
+
+/**
+ * Envoie une requête vers une cible résolue, en se connectant à l'adresse
+ * vérifiée. Le corps de la réponse est lu au plus jusqu'à maxBodyLength
+ * octets, puis la connexion est coupée.
+ */
+export const sendReplayRequest = (
+  target: ReplayTarget,
+  options: {
+    method: string;
+    headers: { name: string; value: string }[];
+    body?: string;
+    timeout: number;
+    maxBodyLength: number;
+  }
+): Promise<ReplayResponse> => {
+  const headers: Record<string, string | string[]> = {};
+  for (const { name, value } of options.headers) {
+    const existing = headers[name];
+    headers[name] =
+      existing === undefined ? value : ([] as string[]).concat(existing, value);
+  }
+
+  const client = target.url.protocol === "https:" ? https : http;
+
+  return new Promise((resolve, reject) => {
+    // Durée maximale de l'ensemble du rejeu, lecture du corps comprise
+    const timer = setTimeout(() => {
+      request.destroy(new Error("Délai de réponse dépassé"));
+    }, options.timeout);
+
+    const request = client.request(
+      target.url,
+      {
+        method: options.method,
+        headers,
+        // Connexion à l'adresse vérifiée, le certificat restant celui de l'hôte
+        lookup: (_hostname, lookupOptions, callback) => {
+          if (lookupOptions.all) {
+            callback(null, [
+              { address: target.address, family: target.family },
+            ]);
+          } else {
+            callback(null, target.address, target.family);
+          }
+        },
+        servername: net.isIP(target.url.hostname)
+          ? undefined
+          : target.url.hostname,
+      },
+      (response) => {
+        const chunks: Buffer[] = [];
+        let length = 0;
+        let settled = false;
+
+        const finish = () => {
+          if (settled) {
+            return;
+          }
+          settled = true;
+          clearTimeout(timer);
+
+          const responseHeaders: Record<string, string> = {};
+          for (const [name, value] of Object.entries(response.headers)) {
+            if (value !== undefined) {
+              responseHeaders[name] = Array.isArray(value)
+                ? value.join(", ")
+                : value;
+            }
+          }
+
+          resolve({
+            status: response.statusCode || 0,
+            headers: responseHeaders,
+            body: Buffer.concat(chunks)
+              .subarray(0, options.maxBodyLength)
+              .toString("utf8"),
+          });
+        };
+
+        response.on("data", (chunk: Buffer) => {
+          if (settled) {
+            return;
+          }
+          chunks.push(chunk);
+          length += chunk.length;
+          if (length >= options.maxBodyLength) {
+            finish();
+            request.destroy();
+          }
+        });
+        response.on("end", finish);
+        response.on("error", (error) => {
+          if (!settled) {
+            settled = true;
+            clearTimeout(timer);
+            reject(error);
+          }
+        });
+      }
+    );
+
+    request.on("error", (error) => {
+      clearTimeout(timer);
+      reject(error);
+    });
+
+    if (options.body) {
+      request.write(options.body);
+    }
+    request.end();
+  });
+};
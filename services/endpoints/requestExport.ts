@@ -0,0 +1,144 @@
+import type { Request as CapturedRequestRow } from "@prisma/client";
+import config from "../../config/config";
+
+type HarNameValue = { name: string; value: string };
+
+// En-têtes propres à la connexion d'origine, à ne pas renvoyer tels quels
+const HOP_BY_HOP_HEADERS = new Set([
+  "host",
+  "connection",
+  "content-length",
+  "keep-alive",
+  "proxy-connection",
+  "te",
+  "trailer",
+  "transfer-encoding",
+  "upgrade",
+]);
+
+/**
+ * Reconstitue l'URL absolue à laquelle la requête a été reçue
+ */
+export const getCapturedRequestUrl = (request: CapturedRequestRow): string => {
+  return new URL(request.url, config.publicUrl).toString();
+};
+
+/**
+ * Aplatit les en-têtes capturés en paires nom/valeur
+ */
+const getHeaderList = (request: CapturedRequestRow): HarNameValue[] => {
+  const headers = (request.headers || {}) as Record<
+    string,
+    string | string[] | undefined
+  >;
+
+  return Object.entries(headers).flatMap(([name, value]) => {
+    if (value === undefined) {
+      return [];
+    }
+    return (Array.isArray(value) ? value : [value]).map((item) => ({
+      name,
+      value: item,
+    }));
+  });
+};
+
+/**
+ * En-têtes à renvoyer lors d'un rejeu ou dans une commande curl
+ */
+export const getReplayHeaders = (
+  request: CapturedRequestRow
+): HarNameValue[] => {
+  return getHeaderList(request).filter(
+    ({ name }) => !HOP_BY_HOP_HEADERS.has(name.toLowerCase())
+  );
+};
+
+/**
+ * Convertit une requête capturée en entrée HAR 1.2
+ */
+const toHarEntry = (request: CapturedRequestRow) => {
+  const url = getCapturedRequestUrl(request);
+  const headers = getHeaderList(request);
+  const contentType =
+    headers.find(({ name }) => name.toLowerCase() === "content-type")?.value ||
+    "application/octet-stream";
+
+  return {
+    startedDateTime: request.createdAt.toISOString(),
+    time: 0,
+    request: {
+      method: request.method,
+      url,
+      httpVersion: "HTTP/1.1",
+      cookies: [],
+      headers,
+      queryString: Array.from(new URL(url).searchParams.entries()).map(
+        ([name, value]) => ({ name, value })
+      ),
+      ...(request.body
+        ? { postData: { mimeType: contentType, text: request.body } }
+        : {}),
+      headersSize: -1,
+      bodySize: request.body ? Buffer.byteLength(request.body) : 0,
+    },
+    // La réponse servie par le catcher n'est pas conservée
+    response: {
+      status: 0,
+      statusText: "",
+      httpVersion: "",
+      cookies: [],
+      headers: [],
+      content: { size: 0, mimeType: "x-unknown" },
+      redirectURL: "",
+      headersSize: -1,
+      bodySize: -1,
+    },
+    cache: {},
+    timings: { send: 0, wait: 0, receive: 0 },
+    comment: request.ip ? `Reçue de ${request.ip}` : undefined,
+  };
+};
+
+/**
+ * Construit un document HAR à partir de requêtes capturées
+ */
+export const buildHar = (requests: CapturedRequestRow[]) => {
+  return {
+    log: {
+      version: "1.2",
+      creator: { name: "FlagHive", version: "1.0" },
+      entries: requests.map(toHarEntry),
+    },
+  };
+};
+
+/**
+ * Échappe une valeur pour un shell POSIX
+ */
+const shellQuote = (value: string): string => {
+  return `'${value.replace(/'/g, "'\\''")}'`;
+};
+
+/**
+ * Convertit une requête capturée en commande curl prête à l'emploi, vers
+ * l'URL d'origine ou vers une cible donnée
+ */
+export const toCurlCommand = (
+  request: CapturedRequestRow,
+  targetUrl?: string
+): string => {
+  const parts = [
+    `curl -X ${request.method} ${shellQuote(targetUrl || getCapturedRequestUrl(request))}`,
+  ];
+
+  for (const { name, value } of getReplayHeaders(request)) {
+    parts.push(`-H ${shellQuote(`${name}: ${value}`)}`);
+  }
+
+  if (request.body) {
+    parts.push(`--data-raw ${shellQuote(request.body)}`);
+  }
+
+  return parts.join(" \\\n  ");
+};
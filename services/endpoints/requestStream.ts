@@ -0,0 +1,28 @@
+import type { Request as CapturedRequestRow } from "@prisma/client";
+import { EventEmitter } from "events";
+
+// Bus en mémoire : une clé par endpoint, chaque abonné reçoit les requêtes capturées
+const requestEvents = new EventEmitter();
+requestEvents.setMaxListeners(0);
+
+/**
+ * Diffuse une requête capturée aux abonnés de son endpoint
+ */
+export const publishCapturedRequest = (request: CapturedRequestRow): void => {
+  requestEvents.emit(request.endpointId, request);
+};
+
+/**
+ * Abonne un listener aux requêtes capturées d'un endpoint
+ * @returns Fonction de désabonnement
+ */
+export const subscribeToEndpoint = (
+  endpointId: string,
+  listener: (request: CapturedRequestRow) => void
+): (() => void) => {
+  requestEvents.on(endpointId, listener);
+
+  return () => {
+    requestEvents.off(endpointId, listener);
+  };
+};
@@ -0,0 +1,85 @@
+import { describe, expect, test } from "bun:test";
+import { resolveRuleResponse, type EndpointRule } from "./responseRules";
+
+const rule = (path: string, method?: string): EndpointRule => ({
+  name: path,
+  method,
+  path,
+  body: path,
+});
+
+const matchedRule = (rules: EndpointRule[], method: string, path: string) =>
+  resolveRuleResponse(rules, method, path)?.body ?? null;
+
+describe("resolveRuleResponse", () => {
+  test("compare le chemin exact sans étoile", () => {
+    const rules = [rule("/admin")];
+
+    expect(matchedRule(rules, "GET", "/admin")).toBe("/admin");
+    expect(matchedRule(rules, "GET", "/admin/users")).toBeNull();
+    expect(matchedRule(rules, "GET", "/adm")).toBeNull();
+  });
+
+  test("une étoile absorbe n'importe quelle suite de caractères", () => {
+    const rules = [rule("/api/*/users/*")];
+
+    expect(matchedRule(rules, "GET", "/api/v1/users/42")).toBe(
+      "/api/*/users/*"
+    );
+    expect(matchedRule(rules, "GET", "/api/v1/v2/users/")).toBe(
+      "/api/*/users/*"
+    );
+    expect(matchedRule(rules, "GET", "/api/v1/groups/42")).toBeNull();
+  });
+
+  test("revient à la dernière étoile quand un préfixe trompe la comparaison", () => {
+    const rules = [rule("*.php")];
+
+    expect(matchedRule(rules, "GET", "/index.phtml.php")).toBe("*.php");
+    expect(matchedRule(rules, "GET", "/index.php.bak")).toBeNull();
+  });
+
+  test("les caractères spéciaux des expressions régulières sont littéraux", () => {
+    const rules = [rule("/file.(txt)?")];
+
+    expect(matchedRule(rules, "GET", "/file.(txt)?")).toBe("/file.(txt)?");
+    expect(matchedRule(rules, "GET", "/fileXtxt")).toBeNull();
+  });
+
+  test("reste rapide sur un motif à nombreuses étoiles qui échoue", () => {
+    const rules = [rule(`${"*a".repeat(30)}b`)];
+    const path = "a".repeat(5000);
+
+    const start = performance.now();
+    expect(matchedRule(rules, "GET", path)).toBeNull();
+    expect(performance.now() - start).toBeLessThan(1000);
+  });
+
+  test("filtre par méthode, sans tenir compte de la casse", () => {
+    const rules = [rule("/login", "post"), rule("/*", "*")];
+
+    expect(matchedRule(rules, "POST", "/login")).toBe("/login");
+    expect(matchedRule(rules, "get", "/login")).toBe("/*");
+  });
+
+  test("la première règle applicable l'emporte et la redirection ajoute Location", () => {
+    const response = resolveRuleResponse(
+      [
+        { path: "/go", redirect: "https://example.com" },
+        { path: "/*", status: 404 },
+      ],
+      "GET",
+      "/go"
+    );
+
+    expect(response).toEqual({
+      status: 302,
+      headers: { Location: "https://example.com" },
+      body: null,
+    });
+  });
+
+  test("renvoie null si aucune règle ne correspond", () => {
+    expect(resolveRuleResponse([rule("/a")], "GET", "/b")).toBeNull();
+  });
+});
@@ -0,0 +1,104 @@
+import type { CatcherResponse } from "./endpointService";
+
+/**
+ * Règle de réponse d'un request catcher : la première règle dont la méthode et
+ * le chemin correspondent détermine la réponse servie
+ */
+export type EndpointRule = {
+  name?: string;
+  method?: string;
+  path: string;
+  status?: number;
+  headers?: Record<string, string>;
+  body?: string;
+  redirect?: string;
+};
+
+/**
+ * Indique si un chemin correspond à un motif (`*` = n'importe quelle suite de
+ * caractères). La comparaison ne revient qu'à la dernière étoile rencontrée :
+ * sa durée reste bornée par le produit des longueurs du motif et du chemin,
+ * quel que soit le nombre d'étoiles.
+ */
+const matchPathPattern = (pattern: string, path: string): boolean => {
+  let patternIndex = 0;
+  let pathIndex = 0;
+  let starIndex = -1;
+  let starPathIndex = 0;
+
+  while (pathIndex < path.length) {
+    if (
+      patternIndex < pattern.length &&
+      pattern[patternIndex] !== "*" &&
+      pattern[patternIndex] === path[pathIndex]
+    ) {
+      patternIndex++;
+      pathIndex++;
+    } else if (patternIndex < pattern.length && pattern[patternIndex] === "*") {
+      starIndex = patternIndex++;
+      starPathIndex = pathIndex;
+    } else if (starIndex !== -1) {
+      // L'étoile précédente absorbe un caractère de plus
+      patternIndex = starIndex + 1;
+      pathIndex = ++starPathIndex;
+    } else {
+      return false;
+    }
+  }
+
+  while (patternIndex < pattern.length && pattern[patternIndex] === "*") {
+    patternIndex++;
+  }
+
+  return patternIndex === pattern.length;
+};
+
+/**
+ * Indique si une règle s'applique à la requête reçue
+ */
+const ruleMatches = (rule: EndpointRule, method: string, path: string) => {
+  if (
+    rule.method &&
+    rule.method !== "*" &&
+    rule.method.toUpperCase() !== method
+  ) {
+    return false;
+  }
+
+  return matchPathPattern(rule.path, path);
+};
+
+/**
+ * Construit la réponse à servir pour une règle
+ */
+const buildRuleResponse = (rule: EndpointRule): CatcherResponse => {
+  if (rule.redirect) {
+    return {
+      status: rule.status || 302,
+      headers: { ...rule.headers, Location: rule.redirect },
+      body: rule.body ?? null,
+    };
+  }
+
+  return {
+    status: rule.status || 200,
+    headers: rule.headers || {},
+    body: rule.body ?? null,
+  };
+};
+
+/**
+ * Cherche la première règle applicable et renvoie sa réponse, ou null si
+ * aucune règle ne correspond
+ */
+export const resolveRuleResponse = (
+  rules: EndpointRule[],
+  method: string,
+  path: string
+): CatcherResponse | null => {
+  const rule = rules.find((candidate) =>
+    ruleMatches(candidate, method.toUpperCase(), path)
+  );
+
+  return rule ? buildRuleResponse(rule) : null;
+};
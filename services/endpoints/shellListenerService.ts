@@ -0,0 +1,355 @@
+import type { ShellDirection } from "@prisma/client";
+import net from "net";
+import type { WebSocket } from "ws";
+import config from "../../config/config";
+import { prisma } from "../../prisma/client";
+import { info, logError } from "../../utils/logger";
+
+/**
+ * Message envoyé aux membres de l'équipe qui suivent un reverse shell
+ */
+export type ShellMessage =
+  | {
+      type: "session";
+      event: "opened" | "closed";
+      session: { id: string; remoteAddress: string | null };
+    }
+  | {
+      type: "output" | "input";
+      sessionId: string;
+      data: string;
+      userId?: string;
+    }
+  | { type: "error"; message: string };
+
+type ShellConnection = {
+  socket: net.Socket;
+  // Écritures du transcript sérialisées pour conserver l'ordre des fragments
+  transcript: Promise<unknown>;
+};
+
+type ShellListener = {
+  endpointId: string;
+  port: number;
+  server: net.Server;
+  sessions: Map<string, ShellConnection>;
+  viewers: Set<WebSocket>;
+};
+
+// Listeners TCP actifs, indexés par ID d'endpoint
+const listeners = new Map<string, ShellListener>();
+
+/**
+ * Envoie un message à tous les membres connectés au reverse shell
+ */
+const broadcast = (listener: ShellListener, message: ShellMessage) => {
+  const payload = JSON.stringify(message);
+
+  for (const viewer of listener.viewers) {
+    if (viewer.readyState === viewer.OPEN) {
+      viewer.send(payload);
+    }
+  }
+};
+
+/**
+ * Ajoute un fragment au transcript d'une session, dans l'ordre de réception
+ */
+const appendToTranscript = (
+  connection: ShellConnection,
+  sessionId: string,
+  direction: ShellDirection,
+  data: string,
+  userId?: string
+) => {
+  connection.transcript = connection.transcript
+    .then(() =>
+      prisma.shellChunk.create({
+        data: { sessionId, direction, data, userId },
+      })
+    )
+    .catch((error) =>
+      logError(
+        error instanceof Error ? error : new Error(String(error)),
+        `Enregistrement du transcript de la session ${sessionId}`
+      )
+    );
+};
+
+/**
+ * Prend en charge une connexion entrante sur le listener d'un reverse shell
+ */
+const handleShellConnection = async (
+  listener: ShellListener,
+  socket: net.Socket
+) => {
+  const session = await prisma.shellSession.create({
+    data: {
+      endpointId: listener.endpointId,
+      remoteAddress: socket.remoteAddress,
+    },
+  });
+
+  const connection: ShellConnection = {
+    socket,
+    transcript: Promise.resolve(),
+  };
+  listener.sessions.set(session.id, connection);
+
+  broadcast(listener, {
+    type: "session",
+    event: "opened",
+    session: { id: session.id, remoteAddress: session.remoteAddress },
+  });
+
+  socket.on("data", (chunk: Buffer) => {
+    const data = chunk.toString("utf8");
+    broadcast(listener, { type: "output", sessionId: session.id, data });
+    appendToTranscript(connection, session.id, "OUTPUT", data);
+  });
+
+  // L'erreur est toujours suivie d'un événement close
+  socket.on("error", () => {});
+
+  socket.on("close", async () => {
+    listener.sessions.delete(session.id);
+
+    try {
+      await connection.transcript;
+      await prisma.shellSession.update({
+        where: { id: session.id },
+        data: { endedAt: new Date() },
+      });
+    } catch (error) {
+      logError(
+        error instanceof Error ? error : new Error(String(error)),
+        `Fermeture de la session de reverse shell ${session.id}`
+      );
+    }
+
+    broadcast(listener, {
+      type: "session",
+      event: "closed",
+      session: { id: session.id, remoteAddress: session.remoteAddress },
+    });
+  });
+};
+
+/**
+ * Choisit un port libre dans la plage configurée pour un nouveau reverse shell
+ */
+export const allocateShellPort = async (): Promise<number> => {
+  const activeEndpoints = await prisma.endpoint.findMany({
+    where: {
+      type: "REVERSE_SHELL",
+      port: { not: null },
+      OR: [{ expiresAt: null }, { expiresAt: { gt: new Date() } }],
+    },
+    select: { port: true },
+  });
+
+  const usedPorts = new Set(activeEndpoints.map((endpoint) => endpoint.port));
+  for (const listener of listeners.values()) {
+    usedPorts.add(listener.port);
+  }
+
+  for (let port = config.shell.portMin; port <= config.shell.portMax; port++) {
+    if (!usedPorts.has(port)) {
+      return port;
+    }
+  }
+
+  throw new Error("Aucun port disponible pour un nouveau reverse shell");
+};
+
+/**
+ * Ouvre le listener TCP d'un reverse shell
+ */
+export const startShellListener = (endpoint: {
+  id: string;
+  port: number;
+}): Promise<void> => {
+  if (listeners.has(endpoint.id)) {
+    return Promise.resolve();
+  }
+
+  return new Promise((resolve, reject) => {
+    const listener: ShellListener = {
+      endpointId: endpoint.id,
+      port: endpoint.port,
+      server: net.createServer(),
+      sessions: new Map(),
+      viewers: new Set(),
+    };
+
+    listener.server.on("connection", (socket) => {
+      handleShellConnection(listener, socket).catch((error) => {
+        logError(
+          error instanceof Error ? error : new Error(String(error)),
+          `Connexion au reverse shell ${endpoint.id}`
+        );
+        socket.destroy();
+      });
+    });
+
+    listener.server.once("error", reject);
+    listener.server.listen(endpoint.port, () => {
+      listeners.set(endpoint.id, listener);
+      resolve();
+    });
+  });
+};
+
+/**
+ * Ferme le listener d'un reverse shell, ses sessions et les WebSockets
+ * des membres connectés
+ */
+export const stopShellListener = (endpointId: string): void => {
+  const listener = listeners.get(endpointId);
+
+  if (!listener) {
+    return;
+  }
+
+  listeners.delete(endpointId);
+  listener.server.close();
+
+  for (const { socket } of listener.sessions.values()) {
+    socket.destroy();
+  }
+
+  for (const viewer of listener.viewers) {
+    viewer.close(1000, "Reverse shell fermé");
+  }
+};
+
+/**
+ * Abonne la WebSocket d'un membre de l'équipe au reverse shell
+ * @returns Fonction de désabonnement
+ */
+export const addShellViewer = (
+  endpointId: string,
+  viewer: WebSocket
+): (() => void) => {
+  const listener = listeners.get(endpointId);
+
+  if (!listener) {
+    throw new Error("Reverse shell inactif");
+  }
+
+  listener.viewers.add(viewer);
+
+  return () => {
+    listener.viewers.delete(viewer);
+  };
+};
+
+/**
+ * Renvoie les sessions actuellement connectées à un reverse shell
+ */
+export const getActiveShellSessionIds = (endpointId: string): string[] => {
+  const listener = listeners.get(endpointId);
+
+  return listener ? Array.from(listener.sessions.keys()) : [];
+};
+
+/**
+ * Envoie une saisie d'un membre de l'équipe vers le shell distant. Sans
+ * sessionId, la dernière session ouverte est utilisée.
+ */
+export const sendShellInput = (
+  endpointId: string,
+  userId: string,
+  data: string,
+  sessionId?: string
+): void => {
+  const listener = listeners.get(endpointId);
+
+  if (!listener) {
+    throw new Error("Reverse shell inactif");
+  }
+
+  const targetId =
+    sessionId || Array.from(listener.sessions.keys()).pop() || null;
+  const connection = targetId ? listener.sessions.get(targetId) : undefined;
+
+  if (!targetId || !connection) {
+    throw new Error("Aucune session de reverse shell connectée");
+  }
+
+  connection.socket.write(data);
+  appendToTranscript(connection, targetId, "INPUT", data, userId);
+  broadcast(listener, { type: "input", sessionId: targetId, data, userId });
+};
+
+/**
+ * Rouvre au démarrage les listeners des reverse shells non expirés
+ */
+export const startShellListeners = async () => {
+  const endpoints = await prisma.endpoint.findMany({
+    where: {
+      type: "REVERSE_SHELL",
+      port: { not: null },
+      OR: [{ expiresAt: null }, { expiresAt: { gt: new Date() } }],
+    },
+    select: { id: true, port: true },
+  });
+
+  for (const endpoint of endpoints) {
+    try {
+      await startShellListener({
+        id: endpoint.id,
+        port: endpoint.port as number,
+      });
+    } catch (error) {
+      logError(
+        error instanceof Error ? error : new Error(String(error)),
+        `Ouverture du listener du reverse shell ${endpoint.id}`
+      );
+    }
+  }
+};
+
+/**
+ * Ferme les listeners des reverse shells dont la date d'expiration est passée
+ */
+export const cleanupExpiredShells = async () => {
+  if (listeners.size === 0) {
+    return;
+  }
+
+  const expired = await prisma.endpoint.findMany({
+    where: {
+      id: { in: Array.from(listeners.keys()) },
+      expiresAt: { lte: new Date() },
+    },
+    select: { id: true },
+  });
+
+  for (const endpoint of expired) {
+    stopShellListener(endpoint.id);
+    info(`Reverse shell ${endpoint.id} expiré, listener fermé`);
+  }
+};
+
+/**
+ * Démarre les listeners existants et le nettoyage périodique des reverse
+ * shells expirés
+ */
+export const startShellJob = () => {
+  startShellListeners().catch((error) =>
+    logError(
+      error instanceof Error ? error : new Error(String(error)),
+      "Ouverture des listeners de reverse shell"
+    )
+  );
+
+  setInterval(() => {
+    cleanupExpiredShells().catch((error) =>
+      logError(
+        error instanceof Error ? error : new Error(String(error)),
+        "Nettoyage des reverse shells expirés"
+      )
+    );
+  }, config.shell.cleanupInterval * 1000);
+};
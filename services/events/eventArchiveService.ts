@@ -0,0 +1,660 @@
+import { randomUUID } from "crypto";
+import type { Prisma } from "@prisma/client";
+import { strFromU8, strToU8, Unzip, UnzipInflate, zipSync } from "fflate";
+import type { Zippable } from "fflate";
+import * as fs from "fs";
+import * as path from "path";
+import { prisma } from "../../prisma/client";
+import { logError } from "../../utils/logger";
+import type { EventArchiveManifest } from "../../validation/eventArchiveValidation";
+import {
+  EVENT_ARCHIVE_FORMAT,
+  EVENT_ARCHIVE_VERSION,
+  eventArchiveManifestSchema,
+} from "../../validation/eventArchiveValidation";
+import { generateInviteCode } from "../teams/teamService";
+import { slugify } from "../writeups/writeupMarkdown";
+
+// Taille décompressée maximale acceptée à l'import
+const MAX_ARCHIVE_CONTENT_SIZE = 500 * 1024 * 1024;
+
+// Taille des morceaux d'archive décompressés à la fois : chaque étape ne peut
+// produire qu'un volume borné avant la vérification de la taille
+const ARCHIVE_CHUNK_SIZE = 16 * 1024;
+
+// Longueur maximale d'un nom d'équipe
+const MAX_TEAM_NAME_LENGTH = 50;
+
+/**
+ * Stratégie en cas d'équipe existante portant le même nom : créer une équipe
+ * renommée, ou importer dans l'équipe existante
+ */
+export type TeamConflictStrategy = "rename" | "merge";
+
+const archiveChallengeInclude = {
+  notes: {
+    include: {
+      revisions: { orderBy: { version: "asc" as const } },
+    },
+    orderBy: { createdAt: "asc" as const },
+  },
+  flagAttempts: { orderBy: { createdAt: "asc" as const } },
+  messages: { orderBy: { createdAt: "asc" as const } },
+  uploads: { orderBy: { createdAt: "asc" as const } },
+};
+
+/**
+ * Exporte un événement dans une archive zip versionnée : un manifeste JSON
+ * et les fichiers des ressources. Seules les équipes de l'utilisateur sont
+ * exportées, toutes pour un administrateur.
+ *
+ * Le chat de l'équipe, commun à tous ses événements, n'est pas exporté :
+ * seuls les canaux des challenges le sont.
+ */
+export const exportEventArchive = async (
+  eventId: string,
+  userId: string,
+  userRole: string
+) => {
+  const isAdmin = userRole === "ADMIN";
+  const event = await prisma.event.findUnique({
+    where: { id: eventId },
+    include: {
+      teams: {
+        where: isAdmin ? {} : { team: { members: { some: { userId } } } },
+        include: { team: true },
+      },
+    },
+  });
+
+  if (!event) {
+    throw new Error("Événement non trouvé");
+  }
+
+  if (event.teams.length === 0) {
+    throw new Error("Non autorisé à exporter cet événement");
+  }
+
+  const files: Zippable = {};
+  const userIds = new Set<string>();
+
+  const teams = [];
+  for (const { team } of event.teams) {
+    const challenges = await prisma.challenge.findMany({
+      where: { eventId, teamId: team.id },
+      include: archiveChallengeInclude,
+      orderBy: { createdAt: "asc" },
+    });
+
+    teams.push({
+      id: team.id,
+      name: team.name,
+      description: team.description,
+      challenges: await Promise.all(
+        challenges.map(async (challenge) => {
+          const resources = [];
+          for (const upload of challenge.uploads) {
+            const filePath = path.join(process.cwd(), "uploads", upload.path);
+
+            // Une ressource dont le fichier a disparu n'est pas exportée
+            if (!fs.existsSync(filePath)) {
+              continue;
+            }
+
+            const file = `files/${upload.id}`;
+            files[file] = new Uint8Array(await fs.promises.readFile(filePath));
+            userIds.add(upload.userId);
+            resources.push({
+              id: upload.id,
+              filename: upload.filename,
+              mimeType: upload.mimeType,
+              size: upload.size,
+              userId: upload.userId,
+              metadata: (upload.metadata as Record<string, unknown>) || null,
+              createdAt: upload.createdAt,
+              file,
+            });
+          }
+
+          challenge.notes.forEach((note) => {
+            userIds.add(note.userId);
+            note.revisions.forEach((revision) => userIds.add(revision.userId));
+          });
+          challenge.flagAttempts.forEach((attempt) => {
+            if (attempt.userId) {
+              userIds.add(attempt.userId);
+            }
+          });
+          challenge.messages.forEach((message) => userIds.add(message.userId));
+
+          return {
+            id: challenge.id,
+            name: challenge.name,
+            description: challenge.description,
+            category: challenge.category,
+            points: challenge.points,
+            flag: challenge.flag,
+            solved: challenge.solved,
+            solvedAt: challenge.solvedAt,
+            externalId: challenge.externalId,
+            tags: challenge.tags,
+            createdAt: challenge.createdAt,
+            notes: challenge.notes.map((note) => ({
+              id: note.id,
+              content: note.content,
+              userId: note.userId,
+              shared: note.sharedChallengeId !== null,
+              createdAt: note.createdAt,
+              updatedAt: note.updatedAt,
+              revisions: note.revisions.map((revision) => ({
+                version: revision.version,
+                content: revision.content,
+                userId: revision.userId,
+                restoredFromVersion: revision.restoredFromVersion,
+                createdAt: revision.createdAt,
+              })),
+            })),
+            flagAttempts: challenge.flagAttempts.map((attempt) => ({
+              flagValue: attempt.flagValue,
+              isSuccess: attempt.isSuccess,
+              comment: attempt.comment,
+              source: attempt.source,
+              verdict: attempt.verdict,
+              userId: attempt.userId,
+              createdAt: attempt.createdAt,
+            })),
+            messages: challenge.messages.map((message) => ({
+              id: message.id,
+              content: message.content,
+              userId: message.userId,
+              type: message.type,
+              parentId: message.parentId,
+              createdAt: message.createdAt,
+              editedAt: message.editedAt,
+            })),
+            resources,
+          };
+        })
+      ),
+    });
+  }
+
+  const users = await prisma.user.findMany({
+    where: { id: { in: [...userIds] } },
+    select: { id: true, username: true },
+  });
+
+  // La clé d'API de la plateforme n'est jamais exportée
+  const manifest: EventArchiveManifest = {
+    format: EVENT_ARCHIVE_FORMAT,
+    version: EVENT_ARCHIVE_VERSION,
+    exportedAt: new Date(),
+    event: {
+      name: event.name,
+      description: event.description,
+      startDate: event.startDate,
+      endDate: event.endDate,
+      website: event.website,
+      platform: event.platform,
+      platformUrl: event.platformUrl,
+      logoUrl: event.logoUrl,
+    },
+    users,
+    teams,
+  };
+
+  files["manifest.json"] = strToU8(JSON.stringify(manifest, null, 2));
+
+  return {
+    filename: `${slugify(event.name)}-archive`,
+    archive: zipSync(files),
+  };
+};
+
+/**
+ * Décompresse une archive zip. La taille est comptée sur les octets réellement
+ * décompressés, les tailles annoncées par l'archive n'étant pas fiables : la
+ * décompression s'arrête dès que la limite est dépassée.
+ */
+const inflateArchive = (buffer: Uint8Array) => {
+  const chunks: Record<string, Uint8Array[]> = {};
+  let totalSize = 0;
+  let failure: Error | null = null;
+
+  const unzip = new Unzip((file) => {
+    const fileChunks: Uint8Array[] = [];
+    chunks[file.name] = fileChunks;
+
+    file.ondata = (error, data) => {
+      if (failure) {
+        return;
+      }
+      if (error) {
+        failure = new Error("Archive d'événement invalide");
+        return;
+      }
+
+      totalSize += data.length;
+      if (totalSize > MAX_ARCHIVE_CONTENT_SIZE) {
+        failure = new Error("Archive trop volumineuse");
+        file.terminate();
+        return;
+      }
+
+      fileChunks.push(data);
+    };
+    file.start();
+  });
+  unzip.register(UnzipInflate);
+
+  try {
+    for (
+      let offset = 0;
+      offset < buffer.length && !failure;
+      offset += ARCHIVE_CHUNK_SIZE
+    ) {
+      const end = offset + ARCHIVE_CHUNK_SIZE;
+      unzip.push(buffer.subarray(offset, end), end >= buffer.length);
+    }
+  } catch {
+    throw failure ?? new Error("Archive d'événement invalide");
+  }
+
+  if (failure) {
+    throw failure;
+  }
+
+  const entries: Record<string, Uint8Array> = {};
+  for (const [name, fileChunks] of Object.entries(chunks)) {
+    const entry = new Uint8Array(
+      fileChunks.reduce((size, chunk) => size + chunk.length, 0)
+    );
+    let offset = 0;
+    for (const chunk of fileChunks) {
+      entry.set(chunk, offset);
+      offset += chunk.length;
+    }
+    entries[name] = entry;
+  }
+
+  return entries;
+};
+
+/**
+ * Lit et valide le manifeste d'une archive d'événement
+ */
+const readArchive = (buffer: Uint8Array) => {
+  const entries = inflateArchive(buffer);
+
+  if (!entries["manifest.json"]) {
+    throw new Error("Archive d'événement invalide");
+  }
+
+  let raw: { format?: unknown; version?: unknown };
+  try {
+    raw = JSON.parse(strFromU8(entries["manifest.json"]));
+  } catch {
+    throw new Error("Archive d'événement invalide");
+  }
+
+  if (raw.format !== EVENT_ARCHIVE_FORMAT) {
+    throw new Error("Archive d'événement invalide");
+  }
+
+  if (typeof raw.version !== "number" || raw.version > EVENT_ARCHIVE_VERSION) {
+    throw new Error("Version d'archive non prise en charge");
+  }
+
+  const result = eventArchiveManifestSchema.safeParse(raw);
+  if (!result.success) {
+    throw new Error("Archive d'événement invalide");
+  }
+
+  return { manifest: result.data, entries };
+};
+
+/**
+ * Trouve un nom d'équipe libre en suffixant le nom d'origine, sans dépasser
+ * la longueur autorisée ni reprendre un nom déjà retenu pour l'import
+ */
+const getAvailableTeamName = async (name: string, reserved: Set<string>) => {
+  for (let index = 1; ; index++) {
+    const suffix = index === 1 ? "-import" : `-import-${index}`;
+    const candidate = `${name.slice(0, MAX_TEAM_NAME_LENGTH - suffix.length)}${suffix}`;
+    const existing = await prisma.team.findUnique({
+      where: { name: candidate },
+    });
+    if (!existing && !reserved.has(candidate)) {
+      return candidate;
+    }
+  }
+};
+
+/**
+ * Détermine l'équipe de destination d'une équipe de l'archive. Une équipe
+ * existante ne reçoit qu'une seule équipe de l'archive : les suivantes qui
+ * portent le même nom sont renommées.
+ */
+const resolveTeam = async (
+  archiveTeam: EventArchiveManifest["teams"][number],
+  userId: string,
+  teamConflict: TeamConflictStrategy,
+  reserved: Set<string>
+) => {
+  const existing = await prisma.team.findUnique({
+    where: { name: archiveTeam.name },
+  });
+
+  if (!existing && !reserved.has(archiveTeam.name)) {
+    return { teamId: null, name: archiveTeam.name, status: "created" as const };
+  }
+
+  // Une équipe déjà retenue comme destination de cet import n'est pas
+  // fusionnée une seconde fois
+  if (!existing || teamConflict === "rename" || reserved.has(existing.name)) {
+    return {
+      teamId: null,
+      name: await getAvailableTeamName(archiveTeam.name, reserved),
+      status: "renamed" as const,
+    };
+  }
+
+  // Fusion : réservée aux administrateurs de l'équipe existante
+  const teamMember = await prisma.teamMember.findUnique({
+    where: {
+      userId_teamId: {
+        userId,
+        teamId: existing.id,
+      },
+    },
+  });
+
+  if (!teamMember || teamMember.role === "MEMBER") {
+    throw new Error(
+      `Non autorisé à importer dans l'équipe existante ${existing.name}`
+    );
+  }
+
+  return {
+    teamId: existing.id,
+    name: existing.name,
+    status: "merged" as const,
+  };
+};
+
+/**
+ * Importe une archive d'événement dans un nouvel événement. Tous les IDs sont
+ * régénérés.
+ *
+ * Les équipes dont le nom existe déjà sont renommées ou fusionnées selon la
+ * stratégie choisie. Les auteurs sont retrouvés par leur nom d'utilisateur
+ * parmi les membres de l'équipe de destination ; les autres éléments sont
+ * attribués à l'utilisateur qui importe.
+ */
+export const importEventArchive = async (
+  buffer: Uint8Array,
+  userId: string,
+  teamConflict: TeamConflictStrategy = "rename"
+) => {
+  const { manifest, entries } = readArchive(buffer);
+  const usernames = new Map(
+    manifest.users.map((user) => [user.id, user.username])
+  );
+
+  const reserved = new Set<string>();
+  const destinations: ({
+    archiveTeam: EventArchiveManifest["teams"][number];
+  } & Awaited<ReturnType<typeof resolveTeam>>)[] = [];
+  for (const archiveTeam of manifest.teams) {
+    const destination = await resolveTeam(
+      archiveTeam,
+      userId,
+      teamConflict,
+      reserved
+    );
+    reserved.add(destination.name);
+    destinations.push({ archiveTeam, ...destination });
+  }
+
+  const pendingFiles: { filePath: string; content: Uint8Array }[] = [];
+  const report = {
+    teams: [] as { name: string; importedAs: string; status: string }[],
+    users: { matched: new Set<string>(), reassigned: new Set<string>() },
+    challenges: 0,
+    notes: 0,
+    flagAttempts: 0,
+    messages: 0,
+    resources: 0,
+  };
+
+  const event = await prisma.$transaction(
+    async (tx) => {
+      const event = await tx.event.create({
+        data: {
+          name: manifest.event.name,
+          description: manifest.event.description,
+          startDate: manifest.event.startDate,
+          endDate: manifest.event.endDate,
+          website: manifest.event.website,
+          platform: manifest.event.platform,
+          platformUrl: manifest.event.platformUrl,
+          logoUrl: manifest.event.logoUrl,
+        },
+      });
+
+      for (const destination of destinations) {
+        const { archiveTeam } = destination;
+        let teamId = destination.teamId;
+
+        if (!teamId) {
+          const team = await tx.team.create({
+            data: {
+              name: destination.name,
+              description: archiveTeam.description,
+              inviteCode: generateInviteCode(),
+              ownerId: userId,
+              members: {
+                create: { userId, role: "OWNER" },
+              },
+            },
+          });
+          teamId = team.id;
+        }
+
+        await tx.eventTeam.create({
+          data: { eventId: event.id, teamId },
+        });
+
+        report.teams.push({
+          name: archiveTeam.name,
+          importedAs: destination.name,
+          status: destination.status,
+        });
+
+        // Auteurs : membres de l'équipe de destination ayant le même nom
+        const members = await tx.teamMember.findMany({
+          where: { teamId },
+          include: { user: { select: { id: true, username: true } } },
+        });
+        const memberIds = new Map(
+          members.map((member) => [member.user.username, member.user.id])
+        );
+        const mapUser = (archiveUserId: string) => {
+          const username = usernames.get(archiveUserId);
+          const memberId = username ? memberIds.get(username) : undefined;
+
+          if (memberId) {
+            report.users.matched.add(username as string);
+            return memberId;
+          }
+
+          report.users.reassigned.add(username || archiveUserId);
+          return userId;
+        };
+
+        for (const archiveChallenge of archiveTeam.challenges) {
+          const challengeId = randomUUID();
+
+          await tx.challenge.create({
+            data: {
+              id: challengeId,
+              name: archiveChallenge.name,
+              description: archiveChallenge.description,
+              category: archiveChallenge.category,
+              points: archiveChallenge.points,
+              flag: archiveChallenge.flag,
+              solved: archiveChallenge.solved,
+              solvedAt: archiveChallenge.solvedAt,
+              externalId: archiveChallenge.externalId,
+              tags: archiveChallenge.tags,
+              createdAt: archiveChallenge.createdAt,
+              eventId: event.id,
+              teamId,
+            },
+          });
+          report.challenges++;
+
+          for (const note of archiveChallenge.notes) {
+            const revisions = note.revisions.length
+              ? note.revisions
+              : [
+                  {
+                    version: 1,
+                    content: note.content,
+                    userId: note.userId,
+                    restoredFromVersion: null,
+                    createdAt: note.updatedAt,
+                  },
+                ];
+
+            await tx.note.create({
+              data: {
+                content: note.content,
+                challengeId,
+                userId: mapUser(note.userId),
+                sharedChallengeId: note.shared ? challengeId : null,
+                createdAt: note.createdAt,
+                updatedAt: note.updatedAt,
+                revisions: {
+                  create: revisions.map((revision) => ({
+                    version: revision.version,
+                    content: revision.content,
+                    userId: mapUser(revision.userId),
+                    restoredFromVersion: revision.restoredFromVersion,
+                    createdAt: revision.createdAt,
+                  })),
+                },
+              },
+            });
+            report.notes++;
+          }
+
+          await tx.flagAttempt.createMany({
+            data: archiveChallenge.flagAttempts.map((attempt) => ({
+              flagValue: attempt.flagValue,
+              isSuccess: attempt.isSuccess,
+              comment: attempt.comment,
+              source: attempt.source,
+              verdict: attempt.verdict,
+              userId: attempt.userId ? mapUser(attempt.userId) : null,
+              challengeId,
+              createdAt: attempt.createdAt,
+            })),
+          });
+          report.flagAttempts += archiveChallenge.flagAttempts.length;
+
+          // Nouveaux IDs des messages, pour rattacher les réponses à leur fil
+          const messageIds = new Map(
+            archiveChallenge.messages.map((message) => [
+              message.id,
+              randomUUID(),
+            ])
+          );
+          const messages = archiveChallenge.messages.map((message) => ({
+            id: messageIds.get(message.id) as string,
+            content: message.content,
+            userId: mapUser(message.userId),
+            teamId,
+            challengeId,
+            type: message.type,
+            parentId: message.parentId
+              ? messageIds.get(message.parentId) || null
+              : null,
+            createdAt: message.createdAt,
+            editedAt: message.editedAt,
+          }));
+
+          // Les messages d'origine avant leurs réponses
+          await tx.message.createMany({
+            data: messages.filter((message) => !message.parentId),
+          });
+          await tx.message.createMany({
+            data: messages.filter((message) => message.parentId),
+          });
+          report.messages += messages.length;
+
+          for (const resource of archiveChallenge.resources) {
+            const content = entries[resource.file];
+
+            if (!content) {
+              continue;
+            }
+
+            const extension = path.extname(resource.filename);
+            const relativePath = path.join(
+              "challenges",
+              challengeId,
+              `${Date.now()}-${Math.random().toString(36).substring(2, 15)}${extension}`
+            );
+
+            await tx.upload.create({
+              data: {
+                filename: resource.filename,
+                path: relativePath,
+                size: content.length,
+                mimeType: resource.mimeType,
+                userId: mapUser(resource.userId),
+                teamId,
+                challengeId,
+                metadata: (resource.metadata ||
+                  undefined) as Prisma.InputJsonValue,
+                createdAt: resource.createdAt,
+              },
+            });
+
+            pendingFiles.push({
+              filePath: path.join(process.cwd(), "uploads", relativePath),
+              content,
+            });
+            report.resources++;
+          }
+        }
+      }
+
+      return event;
+    },
+    { timeout: 120000 }
+  );
+
+  // Les fichiers ne sont écrits qu'une fois l'import enregistré
+  for (const { filePath, content } of pendingFiles) {
+    try {
+      await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+      await fs.promises.writeFile(filePath, content);
+    } catch (error) {
+      logError(
+        error instanceof Error ? error : new Error(String(error)),
+        `Écriture du fichier importé ${filePath}`
+      );
+    }
+  }
+
+  return {
+    eventId: event.id,
+    ...report,
+    users: {
+      matched: [...report.users.matched],
+      reassigned: [...report.users.reassigned],
+    },
+  };
+};
@@ -0,0 +1,111 @@
+import { beforeEach, describe, expect, mock, test } from "bun:test";
+
+const PLATFORM_TEAM = "team-platform";
+const OTHER_TEAM = "team-other";
+
+// Équipe dont chaque utilisateur est propriétaire
+const ownedTeams: Record<string, string> = {
+  "owner-platform": PLATFORM_TEAM,
+  "owner-other": OTHER_TEAM,
+};
+
+let event: Record<string, unknown>;
+
+const prisma = {
+  event: {
+    findUnique: mock(async () => event),
+    update: mock(async ({ data }: { data: Record<string, unknown> }) => ({
+      ...event,
+      ...data,
+    })),
+  },
+  teamMember: {
+    findFirst: mock(
+      async ({ where }: { where: { userId: string; teamId?: string } }) => {
+        const teamId = ownedTeams[where.userId];
+        return teamId && (!where.teamId || where.teamId === teamId)
+          ? { teamId }
+          : null;
+      }
+    ),
+  },
+  eventTeam: { findUnique: mock(async () => ({ id: "event-team" })) },
+};
+
+mock.module("../../prisma/client", () => ({ prisma, default: prisma }));
+
+const { updatePlatformCredentials } = await import("./eventService");
+
+const credentials = { platformApiKey: "nouvelle-cle" };
+
+const updatedTeamId = () =>
+  prisma.event.update.mock.calls[0]?.[0].data.platformTeamId;
+
+describe("updatePlatformCredentials", () => {
+  beforeEach(() => {
+    event = {
+      id: "event-1",
+      platform: "CTFD",
+      platformUrl: "https://ctf.example.com",
+      platformApiKey: "ancienne-cle",
+      platformTeamId: PLATFORM_TEAM,
+    };
+    prisma.event.update.mockClear();
+  });
+
+  test("laisse le propriétaire de l'équipe actuelle remplacer la clé", async () => {
+    await updatePlatformCredentials(
+      "event-1",
+      "owner-platform",
+      "USER",
+      credentials
+    );
+
+    expect(updatedTeamId()).toBe(PLATFORM_TEAM);
+  });
+
+  test("refuse le propriétaire d'une autre équipe de l'événement", async () => {
+    await expect(
+      updatePlatformCredentials("event-1", "owner-other", "USER", credentials)
+    ).rejects.toThrow(
+      "Non autorisé à modifier les identifiants de cet événement"
+    );
+    await expect(
+      updatePlatformCredentials("event-1", "owner-other", "USER", {
+        ...credentials,
+        teamId: OTHER_TEAM,
+      })
+    ).rejects.toThrow(
+      "Non autorisé à modifier les identifiants de cet événement"
+    );
+    expect(prisma.event.update).not.toHaveBeenCalled();
+  });
+
+  test("rattache les premiers identifiants à l'équipe du propriétaire", async () => {
+    event.platformTeamId = null;
+
+    await updatePlatformCredentials(
+      "event-1",
+      "owner-other",
+      "USER",
+      credentials
+    );
+
+    expect(updatedTeamId()).toBe(OTHER_TEAM);
+  });
+
+  test("conserve l'équipe actuelle pour un administrateur sans équipe indiquée", async () => {
+    await updatePlatformCredentials("event-1", "admin", "ADMIN", credentials);
+
+    expect(updatedTeamId()).toBe(PLATFORM_TEAM);
+  });
+
+  test("exige une équipe d'un administrateur au premier renseignement", async () => {
+    event.platformTeamId = null;
+
+    await expect(
+      updatePlatformCredentials("event-1", "admin", "ADMIN", credentials)
+    ).rejects.toThrow("L'équipe propriétaire des identifiants est requise");
+    expect(prisma.event.update).not.toHaveBeenCalled();
+  });
+});
@@ -1,4 +1,17 @@
+import type { CtfPlatform } from "@prisma/client";
 import { prisma } from "../../prisma/client";
+import { encryptSecret } from "../../utils/secretCipher";
+import { getPlatformAdapter } from "../platforms/platformService";
+
+/**
+ * Retire la clé API de la plateforme d'un événement avant de le renvoyer
+ */
+export const sanitizeEvent = <T extends { platformApiKey: string | null }>(
+  event: T
+) => {
+  const { platformApiKey, ...safeEvent } = event;
+  return { ...safeEvent, hasPlatformApiKey: Boolean(platformApiKey) };
+};
 
 /**
  * Récupère tous les événements accessibles par l'utilisateur
@@ -23,12 +36,14 @@ export const getEvents = async (userId: string) => {
   const eventIds = eventTeams.map((et) => et.eventId);
 
   // Récupérer les événements
-  return await prisma.event.findMany({
+  const events = await prisma.event.findMany({
     where: {
       id: { in: eventIds },
     },
     orderBy: [{ startDate: "desc" }],
   });
+
+  return events.map(sanitizeEvent);
 };
 
 /**
@@ -81,7 +96,7 @@ export const getEventById = async (eventId: string, userId: string) => {
     throw new Error("Non autorisé à accéder à cet événement");
   }
 
-  return event;
+  return sanitizeEvent(event);
 };
 
 /**
@@ -93,8 +108,9 @@ export const createEvent = async (
   startDate: Date,
   endDate: Date,
   website: string | undefined,
-  ctfdUrl: string | undefined,
-  ctfdApiKey: string | undefined,
+  platform: CtfPlatform | undefined,
+  platformUrl: string | undefined,
+  platformApiKey: string | undefined,
   userId: string
 ) => {
   // Créer l'événement sans association automatique à une équipe
@@ -105,12 +121,15 @@ export const createEvent = async (
       startDate,
       endDate,
       website,
-      ctfdUrl,
-      ctfdApiKey,
+      platform,
+      platformUrl,
+      platformApiKey: platformApiKey
+        ? encryptSecret(platformApiKey)
+        : undefined,
     },
   });
 
-  return event;
+  return sanitizeEvent(event);
 };
 
 /**
@@ -167,3 +186,114 @@ export const addTeamToEvent = async (
     },
   });
 };
+
+/**
+ * Récupère le classement de l'événement sur sa plateforme CTF
+ */
+export const getEventScoreboard = async (eventId: string, userId: string) => {
+  // Vérifier l'accès à l'événement
+  await getEventById(eventId, userId);
+
+  // getEventById ne renvoie pas la clé API, nécessaire à l'adaptateur
+  const event = await prisma.event.findUniqueOrThrow({
+    where: { id: eventId },
+  });
+
+  return await getPlatformAdapter(event).getScoreboard();
+};
+
+/**
+ * Remplace les identifiants de la plateforme CTF d'un événement
+ *
+ * Les identifiants sont rattachés à une équipe : seules ses résolutions sont
+ * synchronisées et seuls ses flags sont relayés. Une fois rattachés, seuls son
+ * propriétaire et les administrateurs peuvent les remplacer ; au premier
+ * renseignement, le propriétaire d'une équipe inscrite les rattache à son
+ * équipe. Sans équipe indiquée, l'équipe actuelle est conservée. La clé API
+ * n'est jamais renvoyée.
+ */
+export const updatePlatformCredentials = async (
+  eventId: string,
+  userId: string,
+  userRole: string,
+  credentials: {
+    platform?: CtfPlatform;
+    platformUrl?: string;
+    platformApiKey: string;
+    teamId?: string;
+  }
+) => {
+  // Vérifier si l'événement existe
+  const event = await prisma.event.findUnique({
+    where: { id: eventId },
+  });
+
+  if (!event) {
+    throw new Error("Événement non trouvé");
+  }
+
+  // Sans équipe indiquée, les identifiants restent à l'équipe actuelle
+  let platformTeamId = credentials.teamId || event.platformTeamId;
+
+  if (userRole !== "ADMIN") {
+    // Une fois rattachés à une équipe, les identifiants ne peuvent être
+    // remplacés que par son propriétaire, sans changer d'équipe
+    if (event.platformTeamId && platformTeamId !== event.platformTeamId) {
+      throw new Error(
+        "Non autorisé à modifier les identifiants de cet événement"
+      );
+    }
+
+    // Vérifier si l'utilisateur est propriétaire de l'équipe (ou, au premier
+    // renseignement, d'une équipe de l'événement)
+    const ownerMembership = await prisma.teamMember.findFirst({
+      where: {
+        userId,
+        role: "OWNER",
+        ...(platformTeamId ? { teamId: platformTeamId } : {}),
+        team: {
+          events: { some: { eventId } },
+        },
+      },
+    });
+
+    if (!ownerMembership) {
+      throw new Error(
+        "Non autorisé à modifier les identifiants de cet événement"
+      );
+    }
+
+    platformTeamId = ownerMembership.teamId;
+  } else {
+    if (!platformTeamId) {
+      throw new Error("L'équipe propriétaire des identifiants est requise");
+    }
+
+    const eventTeam = await prisma.eventTeam.findUnique({
+      where: { eventId_teamId: { eventId, teamId: platformTeamId } },
+    });
+
+    if (!eventTeam) {
+      throw new Error("Cette équipe n'est pas inscrite à l'événement");
+    }
+  }
+
+  const platform = credentials.platform || event.platform;
+  const platformUrl = credentials.platformUrl || event.platformUrl;
+
+  if (!platform || !platformUrl) {
+    throw new Error("Le type et l'URL de la plateforme sont requis");
+  }
+
+  const updatedEvent = await prisma.event.update({
+    where: { id: eventId },
+    data: {
+      platform,
+      platformUrl,
+      platformApiKey: encryptSecret(credentials.platformApiKey),
+      platformTeamId,
+    },
+  });
+
+  return sanitizeEvent(updatedEvent);
+};
@@ -1,3 +1,4 @@
+import type { FlagVerdict } from "@prisma/client";
 import { prisma } from "../../prisma/client";
 import type { ApiResponse } from "../../utils/responseHandler";
 
@@ -9,7 +10,8 @@ export const createFlagAttempt = async (
   isSuccess: boolean,
   comment: string | undefined,
   userId: string,
-  challengeId: string
+  challengeId: string,
+  verdict?: FlagVerdict
 ): Promise<ApiResponse> => {
   try {
     // Vérifier si le challenge existe
@@ -59,6 +61,7 @@ export const createFlagAttempt = async (
         flagValue,
         isSuccess,
         comment,
+        verdict,
         userId,
         challengeId,
       },
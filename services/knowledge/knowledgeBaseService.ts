@@ -0,0 +1,304 @@
+import { Prisma } from "@prisma/client";
+import { prisma } from "../../prisma/client";
+import { logError } from "../../utils/logger";
+import { challengeVector } from "../search/searchService";
+
+// Nombre maximum de mots retenus pour comparer les challenges
+const MAX_SIMILARITY_TERMS = 30;
+
+// Mots trop courants pour rapprocher deux challenges
+const STOP_WORDS = new Set([
+  "and",
+  "are",
+  "but",
+  "can",
+  "for",
+  "from",
+  "has",
+  "have",
+  "not",
+  "that",
+  "the",
+  "this",
+  "was",
+  "with",
+  "you",
+  "your",
+  "avec",
+  "dans",
+  "des",
+  "est",
+  "les",
+  "pas",
+  "pour",
+  "que",
+  "qui",
+  "sur",
+  "une",
+  "vous",
+  "flag",
+]);
+
+const knowledgeEntryInclude = {
+  event: {
+    select: { id: true, name: true, startDate: true, endDate: true },
+  },
+  team: {
+    select: { id: true, name: true },
+  },
+  notes: {
+    include: {
+      user: { select: { id: true, username: true } },
+    },
+    orderBy: { createdAt: "asc" as const },
+  },
+  flagAttempts: {
+    where: { isSuccess: true },
+    include: {
+      user: { select: { id: true, username: true } },
+    },
+    orderBy: { createdAt: "asc" as const },
+  },
+};
+
+/**
+ * Récupère les IDs des équipes de l'utilisateur
+ */
+const getUserTeamIds = async (userId: string) => {
+  const memberships = await prisma.teamMember.findMany({
+    where: { userId },
+    select: { teamId: true },
+  });
+
+  return memberships.map((membership) => membership.teamId);
+};
+
+/**
+ * Liste paginée des challenges résolus par les équipes de l'utilisateur, tous
+ * événements confondus, avec leurs notes et les flags validés. Filtrable par
+ * catégorie, tags (au moins un en commun) et texte du nom ou de la
+ * description.
+ */
+export const getKnowledgeBase = async (
+  userId: string,
+  filters: {
+    category?: string;
+    tags?: string[];
+    q?: string;
+    teamId?: string;
+  } = {},
+  cursor?: string,
+  limit = 20
+) => {
+  let teamIds = await getUserTeamIds(userId);
+
+  if (filters.teamId) {
+    if (!teamIds.includes(filters.teamId)) {
+      throw new Error("Non autorisé à accéder à cette équipe");
+    }
+    teamIds = [filters.teamId];
+  }
+
+  const where: Prisma.ChallengeWhereInput = {
+    teamId: { in: teamIds },
+    solved: true,
+  };
+
+  if (filters.category) {
+    where.category = { equals: filters.category, mode: "insensitive" };
+  }
+
+  if (filters.tags && filters.tags.length > 0) {
+    where.tags = {
+      hasSome: filters.tags.map((tag) => tag.trim().toLowerCase()),
+    };
+  }
+
+  if (filters.q) {
+    where.OR = [
+      { name: { contains: filters.q, mode: "insensitive" } },
+      { description: { contains: filters.q, mode: "insensitive" } },
+    ];
+  }
+
+  const challenges = await prisma.challenge.findMany({
+    where,
+    include: knowledgeEntryInclude,
+    orderBy: [{ solvedAt: "desc" }, { id: "desc" }],
+    take: limit + 1,
+    ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
+  });
+
+  const hasMore = challenges.length > limit;
+  const entries = hasMore ? challenges.slice(0, limit) : challenges;
+
+  return {
+    entries,
+    nextCursor: hasMore ? entries[entries.length - 1].id : null,
+  };
+};
+
+/**
+ * Catégories et tags des challenges résolus par les équipes de l'utilisateur,
+ * avec le nombre de challenges pour chacun
+ */
+export const getKnowledgeCategories = async (userId: string) => {
+  const teamIds = await getUserTeamIds(userId);
+
+  const categories = await prisma.challenge.groupBy({
+    by: ["category"],
+    where: { teamId: { in: teamIds }, solved: true },
+    _count: { _all: true },
+    orderBy: { category: "asc" },
+  });
+
+  const tags = await prisma.$queryRaw<{ tag: string; count: number }[]>`
+    SELECT tag, count(*)::int AS "count"
+    FROM "Challenge" c, unnest(c."tags") AS tag
+    WHERE c."solved" = true
+      AND c."teamId" IN (${teamIds.length ? Prisma.join(teamIds) : Prisma.sql`NULL`})
+    GROUP BY tag
+    ORDER BY "count" DESC, tag ASC
+  `;
+
+  return {
+    categories: categories.map((category) => ({
+      category: category.category,
+      count: category._count._all,
+    })),
+    tags,
+  };
+};
+
+/**
+ * Extrait les mots significatifs d'un texte, utilisables dans une requête
+ * plein texte
+ */
+const extractTerms = (text: string) => {
+  const terms = new Set<string>();
+
+  for (const word of text.toLowerCase().split(/[^\p{L}\p{N}]+/u)) {
+    if (word.length >= 3 && !STOP_WORDS.has(word)) {
+      terms.add(word);
+    }
+    if (terms.size >= MAX_SIMILARITY_TERMS) {
+      break;
+    }
+  }
+
+  return [...terms];
+};
+
+/**
+ * Recherche, parmi les challenges résolus des équipes de l'utilisateur lors
+ * d'autres événements, ceux qui ressemblent à un challenge : même catégorie
+ * d'abord, puis proximité des mots du nom et de la description.
+ */
+const findSimilarChallenges = async (
+  challenge: {
+    id: string;
+    name: string;
+    description: string | null;
+    category: string | null;
+    eventId: string;
+  },
+  teamIds: string[],
+  limit: number
+) => {
+  if (teamIds.length === 0) {
+    return [];
+  }
+
+  const terms = extractTerms(
+    `${challenge.name} ${challenge.description || ""}`
+  );
+  const query = terms.length
+    ? Prisma.sql`to_tsquery('simple', ${terms.join(" | ")})`
+    : Prisma.sql`NULL::tsquery`;
+  const category = challenge.category?.toLowerCase() || null;
+
+  return await prisma.$queryRaw<
+    {
+      id: string;
+      name: string;
+      category: string | null;
+      tags: string[];
+      points: number | null;
+      solvedAt: Date | null;
+      eventId: string;
+      eventName: string;
+      teamId: string;
+      sameCategory: boolean;
+      score: number;
+    }[]
+  >`
+    SELECT c."id", c."name", c."category", c."tags", c."points", c."solvedAt",
+      c."eventId", e."name" AS "eventName", c."teamId",
+      coalesce(lower(c."category") = ${category}, false) AS "sameCategory",
+      coalesce(ts_rank(${challengeVector}, ${query}), 0) AS "score"
+    FROM "Challenge" c
+    JOIN "Event" e ON e."id" = c."eventId"
+    WHERE c."solved" = true
+      AND c."id" <> ${challenge.id}
+      AND c."eventId" <> ${challenge.eventId}
+      AND c."teamId" IN (${Prisma.join(teamIds)})
+      AND (lower(c."category") = ${category} OR ${challengeVector} @@ ${query})
+    ORDER BY "sameCategory" DESC, "score" DESC, c."solvedAt" DESC
+    LIMIT ${limit}
+  `;
+};
+
+/**
+ * Suggère les challenges déjà résolus les plus proches d'un challenge
+ */
+export const getSimilarChallenges = async (
+  challengeId: string,
+  eventId: string,
+  userId: string,
+  limit = 5
+) => {
+  const challenge = await prisma.challenge.findUnique({
+    where: { id: challengeId },
+  });
+
+  if (!challenge || challenge.eventId !== eventId) {
+    throw new Error("Challenge non trouvé");
+  }
+
+  const teamIds = await getUserTeamIds(userId);
+
+  if (!teamIds.includes(challenge.teamId)) {
+    throw new Error("Non autorisé à accéder à ce challenge");
+  }
+
+  return await findSimilarChallenges(challenge, teamIds, limit);
+};
+
+/**
+ * Suggestions affichées à la création d'un challenge. Une erreur est
+ * journalisée sans empêcher la création.
+ */
+export const suggestSimilarChallenges = async (
+  challenge: {
+    id: string;
+    name: string;
+    description: string | null;
+    category: string | null;
+    eventId: string;
+  },
+  userId: string
+) => {
+  try {
+    return await findSimilarChallenges(
+      challenge,
+      await getUserTeamIds(userId),
+      5
+    );
+  } catch (error) {
+    logError(
+      error instanceof Error ? error : new Error(String(error)),
+      `Suggestion de challenges similaires pour ${challenge.id}`
+    );
+    return [];
+  }
+};
@@ -0,0 +1,557 @@
+import type { MessageType, Prisma } from "@prisma/client";
+import type { WebSocket } from "ws";
+import { prisma } from "../../prisma/client";
+import { logError } from "../../utils/logger";
+import { checkTeamMembership } from "../teams/teamService";
+import type { MessageEvent } from "./messageStream";
+import { publishMessageEvent, subscribeToTeamMessages } from "./messageStream";
+
+/**
+ * Nombre de messages renvoyés par page d'historique
+ */
+export const MESSAGES_PAGE_SIZE = 50;
+
+/**
+ * Canal de discussion : le canal de l'équipe ou celui d'un challenge
+ */
+export type MessageChannel = { teamId: string } | { challengeId: string };
+
+// Mention d'un membre : @ suivi d'un nom d'utilisateur, hors adresses email
+const MENTION_PATTERN = /(?:^|[^a-zA-Z0-9_-])@([a-zA-Z0-9_-]{3,30})/g;
+
+const messageInclude = {
+  user: {
+    select: {
+      id: true,
+      username: true,
+      avatar: true,
+    },
+  },
+  reactions: {
+    select: {
+      emoji: true,
+      userId: true,
+    },
+  },
+  _count: {
+    select: {
+      replies: true,
+    },
+  },
+};
+
+/**
+ * Récupère un challenge après vérification que l'utilisateur est membre de
+ * l'équipe du challenge
+ */
+const getChallengeForMember = async (
+  challengeId: string,
+  userId: string,
+  errorMessage: string
+) => {
+  const challenge = await prisma.challenge.findUnique({
+    where: { id: challengeId },
+  });
+
+  if (!challenge) {
+    throw new Error("Challenge non trouvé");
+  }
+
+  await checkTeamMembership(challenge.teamId, userId, errorMessage);
+
+  return challenge;
+};
+
+/**
+ * Récupère une page de messages, du plus récent au plus ancien
+ */
+const getMessagePage = async (
+  where: Prisma.MessageWhereInput,
+  cursor?: string,
+  limit: number = MESSAGES_PAGE_SIZE
+) => {
+  const messages = await prisma.message.findMany({
+    where,
+    include: messageInclude,
+    orderBy: [{ createdAt: "desc" }, { id: "desc" }],
+    take: limit + 1,
+    ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
+  });
+
+  const hasMore = messages.length > limit;
+  const page = hasMore ? messages.slice(0, limit) : messages;
+
+  return {
+    messages: page,
+    nextCursor: hasMore ? page[page.length - 1].id : null,
+  };
+};
+
+/**
+ * Récupère les messages du canal de l'équipe
+ */
+export const getTeamMessages = async (
+  teamId: string,
+  userId: string,
+  cursor?: string,
+  limit?: number
+) => {
+  await checkTeamMembership(
+    teamId,
+    userId,
+    "Non autorisé à accéder aux messages de cette équipe"
+  );
+
+  return await getMessagePage(
+    { teamId, challengeId: null, parentId: null },
+    cursor,
+    limit
+  );
+};
+
+/**
+ * Récupère les messages du canal d'un challenge
+ */
+export const getChallengeMessages = async (
+  challengeId: string,
+  userId: string,
+  cursor?: string,
+  limit?: number
+) => {
+  await getChallengeForMember(
+    challengeId,
+    userId,
+    "Non autorisé à accéder aux messages de ce challenge"
+  );
+
+  return await getMessagePage({ challengeId, parentId: null }, cursor, limit);
+};
+
+/**
+ * Extrait les noms d'utilisateur mentionnés dans un message
+ */
+export const extractMentions = (content: string): string[] => {
+  const usernames = Array.from(content.matchAll(MENTION_PATTERN), (match) =>
+    match[1].toLowerCase()
+  );
+
+  return [...new Set(usernames)];
+};
+
+/**
+ * Crée une notification non lue pour chaque membre de l'équipe mentionné dans
+ * le message, hors auteur. Les membres déjà notifiés pour ce message ne le
+ * sont pas une seconde fois.
+ */
+const notifyMentions = async (
+  messageId: string,
+  teamId: string,
+  content: string,
+  authorId: string
+) => {
+  const usernames = extractMentions(content);
+
+  if (usernames.length === 0) {
+    return;
+  }
+
+  const members = await prisma.teamMember.findMany({
+    where: {
+      teamId,
+      userId: { not: authorId },
+      user: { username: { in: usernames, mode: "insensitive" } },
+    },
+    select: { userId: true },
+  });
+
+  if (members.length === 0) {
+    return;
+  }
+
+  await prisma.notification.createMany({
+    data: members.map((member) => ({
+      messageId,
+      userId: member.userId,
+      type: "MENTION" as const,
+    })),
+    skipDuplicates: true,
+  });
+};
+
+/**
+ * Enregistre un message d'un membre, notifie les membres mentionnés et le
+ * diffuse à l'équipe
+ */
+const createMessage = async (data: {
+  content: string;
+  userId: string;
+  teamId: string;
+  challengeId?: string | null;
+  parentId?: string | null;
+  type: MessageType;
+}) => {
+  const message = await prisma.message.create({
+    data,
+    include: messageInclude,
+  });
+
+  await notifyMentions(message.id, data.teamId, data.content, data.userId);
+
+  publishMessageEvent(data.teamId, { type: "message.created", message });
+
+  return message;
+};
+
+/**
+ * Publie un message dans le canal de l'équipe
+ */
+export const postTeamMessage = async (
+  teamId: string,
+  content: string,
+  userId: string
+) => {
+  await checkTeamMembership(
+    teamId,
+    userId,
+    "Non autorisé à envoyer un message dans cette équipe"
+  );
+
+  return await createMessage({
+    content,
+    userId,
+    teamId,
+    type: "TEAM",
+  });
+};
+
+/**
+ * Publie un message dans le canal d'un challenge
+ */
+export const postChallengeMessage = async (
+  challengeId: string,
+  content: string,
+  userId: string
+) => {
+  const challenge = await getChallengeForMember(
+    challengeId,
+    userId,
+    "Non autorisé à envoyer un message sur ce challenge"
+  );
+
+  return await createMessage({
+    content,
+    userId,
+    teamId: challenge.teamId,
+    challengeId,
+    type: "CHALLENGE",
+  });
+};
+
+/**
+ * Publie un message système dans le canal de l'équipe, ou dans celui du
+ * challenge indiqué. L'utilisateur est celui à l'origine de l'action.
+ *
+ * Un échec est seulement journalisé pour ne pas faire échouer l'action.
+ */
+export const postSystemMessage = async (
+  teamId: string,
+  content: string,
+  userId: string,
+  challengeId?: string
+) => {
+  try {
+    const message = await prisma.message.create({
+      data: {
+        content,
+        userId,
+        teamId,
+        challengeId,
+        type: "SYSTEM",
+      },
+      include: messageInclude,
+    });
+
+    publishMessageEvent(teamId, { type: "message.created", message });
+
+    return message;
+  } catch (error) {
+    logError(
+      error instanceof Error ? error : new Error(String(error)),
+      "Erreur lors de la publication d'un message système"
+    );
+    return null;
+  }
+};
+
+/**
+ * Récupère un message du canal indiqué après vérification que l'utilisateur
+ * est membre de l'équipe du canal
+ */
+const getChannelMessage = async (
+  messageId: string,
+  channel: MessageChannel,
+  userId: string,
+  errorMessage: string
+) => {
+  const teamId =
+    "challengeId" in channel
+      ? (await getChallengeForMember(channel.challengeId, userId, errorMessage))
+          .teamId
+      : channel.teamId;
+
+  const teamMember = await checkTeamMembership(teamId, userId, errorMessage);
+
+  const message = await prisma.message.findUnique({
+    where: { id: messageId },
+  });
+
+  const inChannel =
+    message &&
+    ("challengeId" in channel
+      ? message.challengeId === channel.challengeId
+      : message.teamId === channel.teamId && message.challengeId === null);
+
+  if (!message || !inChannel) {
+    throw new Error("Message non trouvé");
+  }
+
+  return { message, teamId, teamMember };
+};
+
+/**
+ * Modifie un message, réservé à son auteur
+ */
+export const updateMessage = async (
+  messageId: string,
+  channel: MessageChannel,
+  content: string,
+  userId: string
+) => {
+  const { message, teamId } = await getChannelMessage(
+    messageId,
+    channel,
+    userId,
+    "Non autorisé à modifier ce message"
+  );
+
+  if (message.type === "SYSTEM" || message.userId !== userId) {
+    throw new Error("Non autorisé à modifier ce message");
+  }
+
+  const updatedMessage = await prisma.message.update({
+    where: { id: messageId },
+    data: {
+      content,
+      editedAt: new Date(),
+    },
+    include: messageInclude,
+  });
+
+  await notifyMentions(messageId, teamId, content, userId);
+
+  publishMessageEvent(teamId, {
+    type: "message.updated",
+    message: updatedMessage,
+  });
+
+  return updatedMessage;
+};
+
+/**
+ * Supprime un message : l'auteur ou un administrateur de l'équipe
+ */
+export const deleteMessage = async (
+  messageId: string,
+  channel: MessageChannel,
+  userId: string
+) => {
+  const { message, teamId, teamMember } = await getChannelMessage(
+    messageId,
+    channel,
+    userId,
+    "Non autorisé à supprimer ce message"
+  );
+
+  if (message.userId !== userId && teamMember.role === "MEMBER") {
+    throw new Error("Non autorisé à supprimer ce message");
+  }
+
+  await prisma.message.delete({
+    where: { id: messageId },
+  });
+
+  publishMessageEvent(teamId, {
+    type: "message.deleted",
+    message: {
+      id: message.id,
+      teamId: message.teamId,
+      challengeId: message.challengeId,
+    },
+  });
+
+  return true;
+};
+
+/**
+ * Récupère les réponses du fil d'un message, de la plus récente à la plus
+ * ancienne
+ */
+export const getMessageReplies = async (
+  messageId: string,
+  channel: MessageChannel,
+  userId: string,
+  cursor?: string,
+  limit?: number
+) => {
+  const { message } = await getChannelMessage(
+    messageId,
+    channel,
+    userId,
+    "Non autorisé à accéder à ce message"
+  );
+
+  return await getMessagePage(
+    { parentId: message.parentId || message.id },
+    cursor,
+    limit
+  );
+};
+
+/**
+ * Répond à un message du canal. Les fils n'ont qu'un niveau : répondre à une
+ * réponse l'ajoute au fil du message d'origine.
+ */
+export const replyToMessage = async (
+  messageId: string,
+  channel: MessageChannel,
+  content: string,
+  userId: string
+) => {
+  const { message, teamId } = await getChannelMessage(
+    messageId,
+    channel,
+    userId,
+    "Non autorisé à répondre à ce message"
+  );
+
+  return await createMessage({
+    content,
+    userId,
+    teamId,
+    challengeId: message.challengeId,
+    parentId: message.parentId || message.id,
+    type: "challengeId" in channel ? "CHALLENGE" : "TEAM",
+  });
+};
+
+/**
+ * Ajoute la réaction de l'utilisateur à un message
+ */
+export const addReaction = async (
+  messageId: string,
+  channel: MessageChannel,
+  emoji: string,
+  userId: string
+) => {
+  const { message, teamId } = await getChannelMessage(
+    messageId,
+    channel,
+    userId,
+    "Non autorisé à réagir à ce message"
+  );
+
+  const reaction = await prisma.messageReaction.upsert({
+    where: {
+      messageId_userId_emoji: {
+        messageId,
+        userId,
+        emoji,
+      },
+    },
+    update: {},
+    create: {
+      messageId,
+      userId,
+      emoji,
+    },
+  });
+
+  publishMessageEvent(teamId, {
+    type: "reaction.added",
+    message: {
+      id: message.id,
+      teamId: message.teamId,
+      challengeId: message.challengeId,
+      emoji,
+      userId,
+    },
+  });
+
+  return reaction;
+};
+
+/**
+ * Retire la réaction de l'utilisateur à un message
+ */
+export const removeReaction = async (
+  messageId: string,
+  channel: MessageChannel,
+  emoji: string,
+  userId: string
+) => {
+  const { message, teamId } = await getChannelMessage(
+    messageId,
+    channel,
+    userId,
+    "Non autorisé à réagir à ce message"
+  );
+
+  const { count } = await prisma.messageReaction.deleteMany({
+    where: {
+      messageId,
+      userId,
+      emoji,
+    },
+  });
+
+  if (count === 0) {
+    throw new Error("Réaction non trouvée");
+  }
+
+  publishMessageEvent(teamId, {
+    type: "reaction.removed",
+    message: {
+      id: message.id,
+      teamId: message.teamId,
+      challengeId: message.challengeId,
+      emoji,
+      userId,
+    },
+  });
+
+  return true;
+};
+
+/**
+ * Connecte la WebSocket d'un membre au chat de l'équipe : il reçoit les
+ * messages du canal de l'équipe et de ceux des challenges
+ */
+export const attachMessageFeed = async (
+  socket: WebSocket,
+  teamId: string,
+  userId: string
+) => {
+  await checkTeamMembership(
+    teamId,
+    userId,
+    "Non autorisé à accéder aux messages de cette équipe"
+  );
+
+  const unsubscribe = subscribeToTeamMessages(teamId, (event: MessageEvent) => {
+    if (socket.readyState === socket.OPEN) {
+      socket.send(JSON.stringify(event));
+    }
+  });
+
+  socket.on("close", unsubscribe);
+};
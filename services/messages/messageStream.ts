@@ -0,0 +1,48 @@
+import { EventEmitter } from "events";
+
+/**
+ * Événement diffusé aux membres connectés au chat d'une équipe
+ */
+export type MessageEvent = {
+  type:
+    | "message.created"
+    | "message.updated"
+    | "message.deleted"
+    | "reaction.added"
+    | "reaction.removed";
+  message: {
+    id: string;
+    teamId: string | null;
+    challengeId: string | null;
+    [key: string]: unknown;
+  };
+};
+
+// Bus en mémoire : une clé par équipe, les canaux des challenges compris
+const messageEvents = new EventEmitter();
+messageEvents.setMaxListeners(0);
+
+/**
+ * Diffuse un événement du chat aux membres connectés de l'équipe
+ */
+export const publishMessageEvent = (
+  teamId: string,
+  event: MessageEvent
+): void => {
+  messageEvents.emit(teamId, event);
+};
+
+/**
+ * Abonne un listener aux événements du chat d'une équipe
+ * @returns Fonction de désabonnement
+ */
+export const subscribeToTeamMessages = (
+  teamId: string,
+  listener: (event: MessageEvent) => void
+): (() => void) => {
+  messageEvents.on(teamId, listener);
+
+  return () => {
+    messageEvents.off(teamId, listener);
+  };
+};
@@ -0,0 +1,432 @@
+import { randomUUID } from "crypto";
+import type { WebSocket } from "ws";
+import * as Y from "yjs";
+import { prisma } from "../../prisma/client";
+import { logError } from "../../utils/logger";
+import { NOTE_MAX_LENGTH } from "../../validation/noteValidation";
+import { getSharedNote, saveSharedNote } from "./noteService";
+import type { NoteEvent } from "./noteStream";
+import { subscribeToNote } from "./noteStream";
+
+// Délai après la dernière modification avant d'enregistrer le document
+const PERSIST_DELAY = 5000;
+
+// Origine des modifications venues des routes REST
+const EXTERNAL_ORIGIN = "external";
+
+/**
+ * Position du curseur d'un participant, en index dans le texte
+ */
+type Cursor = { anchor: number; head: number } | null;
+
+type Participant = {
+  socket: WebSocket;
+  user: { id: string; username: string };
+  cursor: Cursor;
+};
+
+/**
+ * Document partagé chargé en mémoire tant qu'au moins un membre l'édite
+ */
+type CollaborationSession = {
+  noteId: string;
+  doc: Y.Doc;
+  participants: Map<string, Participant>;
+  lastEditorId: string;
+  dirty: boolean;
+  persistTimer: ReturnType<typeof setTimeout> | null;
+  unsubscribe: () => void;
+};
+
+const sessions = new Map<string, CollaborationSession>();
+
+/**
+ * Remplace le texte du document par un nouveau contenu, en ne touchant que la
+ * partie modifiée pour préserver les positions des autres participants
+ */
+const replaceText = (doc: Y.Doc, content: string, origin: string) => {
+  const text = doc.getText("content");
+  const current = text.toString();
+
+  if (current === content) {
+    return;
+  }
+
+  let start = 0;
+  while (
+    start < current.length &&
+    start < content.length &&
+    current[start] === content[start]
+  ) {
+    start++;
+  }
+
+  let end = 0;
+  while (
+    end < current.length - start &&
+    end < content.length - start &&
+    current[current.length - 1 - end] === content[content.length - 1 - end]
+  ) {
+    end++;
+  }
+
+  doc.transact(() => {
+    text.delete(start, current.length - start - end);
+    text.insert(start, content.slice(start, content.length - end));
+  }, origin);
+};
+
+/**
+ * Envoie un message JSON à un participant
+ */
+const send = (socket: WebSocket, payload: unknown) => {
+  if (socket.readyState === socket.OPEN) {
+    socket.send(JSON.stringify(payload));
+  }
+};
+
+/**
+ * Envoie un message JSON à tous les participants, sauf éventuellement un
+ */
+const broadcast = (
+  session: CollaborationSession,
+  payload: unknown,
+  exceptClientId?: string
+) => {
+  for (const [clientId, participant] of session.participants) {
+    if (clientId !== exceptClientId) {
+      send(participant.socket, payload);
+    }
+  }
+};
+
+/**
+ * Programme l'enregistrement du document partagé. Sans participant, la
+ * session est fermée une fois enregistrée.
+ */
+const schedulePersist = (session: CollaborationSession) => {
+  if (session.persistTimer) {
+    return;
+  }
+
+  session.persistTimer = setTimeout(() => {
+    session.persistTimer = null;
+    const task =
+      session.participants.size > 0
+        ? persistSession(session)
+        : closeSession(session);
+
+    task.catch((error) =>
+      logError(
+        error instanceof Error ? error : new Error(String(error)),
+        `Enregistrement du document partagé ${session.noteId}`
+      )
+    );
+  }, PERSIST_DELAY);
+};
+
+/**
+ * Enregistre le document partagé dans la note s'il a été modifié. En cas
+ * d'échec, les modifications restent à enregistrer et l'enregistrement est
+ * retenté plus tard.
+ */
+const persistSession = async (session: CollaborationSession) => {
+  if (session.persistTimer) {
+    clearTimeout(session.persistTimer);
+    session.persistTimer = null;
+  }
+
+  if (!session.dirty) {
+    return;
+  }
+
+  // Les modifications arrivées pendant l'enregistrement remettront dirty à
+  // true et seront enregistrées au prochain passage
+  session.dirty = false;
+
+  try {
+    await saveSharedNote(
+      session.noteId,
+      session.doc.getText("content").toString(),
+      session.lastEditorId,
+      Y.encodeStateAsUpdate(session.doc)
+    );
+  } catch (error) {
+    logError(
+      error instanceof Error ? error : new Error(String(error)),
+      `Enregistrement du document partagé ${session.noteId}`
+    );
+
+    session.dirty = true;
+    schedulePersist(session);
+  }
+};
+
+/**
+ * Ferme la session d'un document : enregistre les dernières modifications et
+ * libère la mémoire
+ */
+const closeSession = async (session: CollaborationSession) => {
+  await persistSession(session);
+
+  // Un membre a pu rejoindre le document pendant l'enregistrement, ou des
+  // modifications restent à enregistrer : la session sera fermée plus tard
+  if (session.participants.size > 0 || session.dirty) {
+    return;
+  }
+
+  sessions.delete(session.noteId);
+  session.unsubscribe();
+  session.doc.destroy();
+};
+
+/**
+ * Charge le document partagé en mémoire depuis son état CRDT enregistré
+ */
+const openSession = (
+  note: Awaited<ReturnType<typeof getSharedNote>>
+): CollaborationSession => {
+  const doc = new Y.Doc();
+
+  if (note.collabState) {
+    Y.applyUpdate(doc, new Uint8Array(note.collabState.state));
+  }
+
+  const session: CollaborationSession = {
+    noteId: note.id,
+    doc,
+    participants: new Map(),
+    lastEditorId: note.userId,
+    dirty: false,
+    persistTimer: null,
+    unsubscribe: () => {},
+  };
+
+  // La note a pu être modifiée par les routes REST depuis le dernier
+  // enregistrement de l'état CRDT
+  replaceText(doc, note.content, EXTERNAL_ORIGIN);
+
+  doc.on("update", (update: Uint8Array, origin: unknown) => {
+    // Les modifications REST sont déjà enregistrées dans la note
+    if (origin !== EXTERNAL_ORIGIN) {
+      session.dirty = true;
+      schedulePersist(session);
+    }
+
+    broadcast(
+      session,
+      { type: "update", update: Buffer.from(update).toString("base64") },
+      typeof origin === "string" ? origin : undefined
+    );
+  });
+
+  session.unsubscribe = subscribeToNote(note.id, (event: NoteEvent) => {
+    if (event.type === "note.updated") {
+      replaceText(doc, event.content, EXTERNAL_ORIGIN);
+      return;
+    }
+
+    // La note a été supprimée : plus rien à enregistrer
+    session.dirty = false;
+    for (const participant of session.participants.values()) {
+      participant.socket.close(1000, "Note supprimée");
+    }
+  });
+
+  return session;
+};
+
+/**
+ * Récupère la session du document partagé, en la chargeant si besoin
+ */
+const getSession = (note: Awaited<ReturnType<typeof getSharedNote>>) => {
+  let session = sessions.get(note.id);
+
+  if (!session) {
+    session = openSession(note);
+    sessions.set(note.id, session);
+  }
+
+  return session;
+};
+
+/**
+ * Applique une mise à jour Yjs au document, sauf si le texte obtenu dépasse la
+ * taille maximale d'une note. La mise à jour est d'abord essayée sur une copie,
+ * un document Yjs ne pouvant pas l'annuler une fois appliquée.
+ */
+const applyBoundedUpdate = (
+  session: CollaborationSession,
+  update: Uint8Array,
+  clientId: string
+): boolean => {
+  const draft = new Y.Doc();
+  let length: number;
+  try {
+    Y.applyUpdate(draft, Y.encodeStateAsUpdate(session.doc));
+    Y.applyUpdate(draft, update);
+    length = draft.getText("content").length;
+  } finally {
+    draft.destroy();
+  }
+
+  if (length > NOTE_MAX_LENGTH) {
+    return false;
+  }
+
+  Y.applyUpdate(session.doc, update, clientId);
+  return true;
+};
+
+/**
+ * Traite un message d'un participant : modification du document (mise à jour
+ * Yjs encodée en base64) ou position de son curseur
+ */
+const handleParticipantMessage = (
+  session: CollaborationSession,
+  clientId: string,
+  data: string
+) => {
+  const participant = session.participants.get(clientId);
+  if (!participant) {
+    return;
+  }
+
+  let message: { type?: unknown; update?: unknown; cursor?: unknown };
+  try {
+    message = JSON.parse(data);
+  } catch {
+    return send(participant.socket, {
+      type: "error",
+      message: "Message invalide",
+    });
+  }
+
+  if (message.type === "update" && typeof message.update === "string") {
+    try {
+      session.lastEditorId = participant.user.id;
+      const applied = applyBoundedUpdate(
+        session,
+        new Uint8Array(Buffer.from(message.update, "base64")),
+        clientId
+      );
+
+      if (!applied) {
+        send(participant.socket, {
+          type: "error",
+          message: `Le contenu de la note ne peut pas dépasser ${NOTE_MAX_LENGTH} caractères`,
+        });
+      }
+    } catch {
+      send(participant.socket, {
+        type: "error",
+        message: "Mise à jour invalide",
+      });
+    }
+    return;
+  }
+
+  if (message.type === "presence") {
+    const cursor = message.cursor as Cursor;
+    participant.cursor =
+      cursor && Number.isInteger(cursor.anchor) && Number.isInteger(cursor.head)
+        ? { anchor: cursor.anchor, head: cursor.head }
+        : null;
+
+    broadcast(
+      session,
+      {
+        type: "presence",
+        clientId,
+        user: participant.user,
+        cursor: participant.cursor,
+      },
+      clientId
+    );
+    return;
+  }
+
+  send(participant.socket, {
+    type: "error",
+    message: "Type de message inconnu",
+  });
+};
+
+/**
+ * Connecte la WebSocket d'un membre au document partagé d'un challenge.
+ *
+ * Le membre reçoit l'état complet du document et la présence des autres
+ * participants, puis les mises à jour Yjs et les déplacements de curseur au
+ * fil de l'eau.
+ */
+export const attachNoteCollaboration = async (
+  socket: WebSocket,
+  challengeId: string,
+  userId: string
+) => {
+  // Les écouteurs sont posés avant tout chargement : les messages reçus
+  // entre-temps sont mis de côté, et une fermeture anticipée est retenue
+  let closed = false;
+  const pending: string[] = [];
+  let onMessage = (data: string) => {
+    pending.push(data);
+  };
+  let onClose = () => {
+    closed = true;
+  };
+
+  socket.on("message", (data) => onMessage(data.toString()));
+  socket.on("close", () => onClose());
+
+  const note = await getSharedNote(challengeId, userId);
+  const user = await prisma.user.findUniqueOrThrow({
+    where: { id: userId },
+    select: { id: true, username: true },
+  });
+
+  if (closed) {
+    return;
+  }
+
+  const session = getSession(note);
+  const clientId = randomUUID();
+  const participant: Participant = { socket, user, cursor: null };
+
+  send(socket, {
+    type: "sync",
+    noteId: note.id,
+    clientId,
+    state: Buffer.from(Y.encodeStateAsUpdate(session.doc)).toString("base64"),
+    participants: Array.from(session.participants, ([id, other]) => ({
+      clientId: id,
+      user: other.user,
+      cursor: other.cursor,
+    })),
+  });
+
+  session.participants.set(clientId, participant);
+  broadcast(
+    session,
+    { type: "presence", clientId, user: participant.user, cursor: null },
+    clientId
+  );
+
+  onMessage = (data) => handleParticipantMessage(session, clientId, data);
+  onClose = () => {
+    session.participants.delete(clientId);
+    broadcast(session, { type: "presence.left", clientId });
+
+    if (session.participants.size === 0) {
+      closeSession(session).catch((error) =>
+        logError(
+          error instanceof Error ? error : new Error(String(error)),
+          `Fermeture du document partagé ${session.noteId}`
+        )
+      );
+    }
+  };
+
+  for (const data of pending) {
+    handleParticipantMessage(session, clientId, data);
+  }
+};
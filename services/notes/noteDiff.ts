@@ -0,0 +1,137 @@
+// Taille maximale de la table de comparaison (lignes × lignes) ; au-delà, les
+// deux contenus sont jugés trop volumineux pour être comparés
+const MAX_DIFF_CELLS = 4_000_000;
+
+/**
+ * Ligne d'un diff entre deux révisions
+ */
+export type DiffLine = {
+  type: "unchanged" | "added" | "removed";
+  content: string;
+  // Numéros de ligne (à partir de 1) dans l'ancienne et la nouvelle version
+  oldLine: number | null;
+  newLine: number | null;
+};
+
+/**
+ * Découpe un contenu en lignes, un contenu vide n'en ayant aucune
+ */
+const splitLines = (content: string): string[] => {
+  return content === "" ? [] : content.split("\n");
+};
+
+/**
+ * Calcule le diff ligne à ligne entre deux contenus, à partir de leur plus
+ * longue sous-séquence commune. Le début et la fin communs sont écartés avant
+ * la comparaison, qui n'est faite que sur la partie modifiée.
+ */
+export const diffLines = (oldContent: string, newContent: string) => {
+  const oldLines = splitLines(oldContent);
+  const newLines = splitLines(newContent);
+
+  let prefix = 0;
+  while (
+    prefix < oldLines.length &&
+    prefix < newLines.length &&
+    oldLines[prefix] === newLines[prefix]
+  ) {
+    prefix++;
+  }
+
+  let suffix = 0;
+  while (
+    suffix < oldLines.length - prefix &&
+    suffix < newLines.length - prefix &&
+    oldLines[oldLines.length - 1 - suffix] ===
+      newLines[newLines.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const rows = oldLines.length - prefix - suffix;
+  const cols = newLines.length - prefix - suffix;
+
+  if ((rows + 1) * (cols + 1) > MAX_DIFF_CELLS) {
+    throw new Error("Révisions trop volumineuses pour être comparées");
+  }
+
+  // lengths[i][j] : longueur de la sous-séquence commune des suffixes de la
+  // partie modifiée
+  const lengths = Array.from(
+    { length: rows + 1 },
+    () => new Uint32Array(cols + 1)
+  );
+
+  for (let i = rows - 1; i >= 0; i--) {
+    for (let j = cols - 1; j >= 0; j--) {
+      lengths[i][j] =
+        oldLines[prefix + i] === newLines[prefix + j]
+          ? lengths[i + 1][j + 1] + 1
+          : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const lines: DiffLine[] = [];
+
+  for (let k = 0; k < prefix; k++) {
+    lines.push({
+      type: "unchanged",
+      content: oldLines[k],
+      oldLine: k + 1,
+      newLine: k + 1,
+    });
+  }
+
+  let i = 0;
+  let j = 0;
+
+  while (i < rows || j < cols) {
+    const oldLine = oldLines[prefix + i];
+    const newLine = newLines[prefix + j];
+
+    if (i < rows && j < cols && oldLine === newLine) {
+      lines.push({
+        type: "unchanged",
+        content: oldLine,
+        oldLine: prefix + i + 1,
+        newLine: prefix + j + 1,
+      });
+      i++;
+      j++;
+    } else if (
+      i < rows &&
+      (j === cols || lengths[i + 1][j] >= lengths[i][j + 1])
+    ) {
+      lines.push({
+        type: "removed",
+        content: oldLine,
+        oldLine: prefix + i + 1,
+        newLine: null,
+      });
+      i++;
+    } else {
+      lines.push({
+        type: "added",
+        content: newLine,
+        oldLine: null,
+        newLine: prefix + j + 1,
+      });
+      j++;
+    }
+  }
+
+  for (let k = 0; k < suffix; k++) {
+    lines.push({
+      type: "unchanged",
+      content: oldLines[prefix + rows + k],
+      oldLine: prefix + rows + k + 1,
+      newLine: prefix + cols + k + 1,
+    });
+  }
+
+  return {
+    lines,
+    added: lines.filter((line) => line.type === "added").length,
+    removed: lines.filter((line) => line.type === "removed").length,
+  };
+};
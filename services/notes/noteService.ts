@@ -1,4 +1,23 @@
+import { Prisma } from "@prisma/client";
 import { prisma } from "../../prisma/client";
+import { diffLines } from "./noteDiff";
+import { publishNoteEvent } from "./noteStream";
+
+/**
+ * Nombre de tentatives d'enregistrement d'une révision en cas de conflit de
+ * version
+ */
+const REVISION_SAVE_ATTEMPTS = 3;
+
+const noteUserInclude = {
+  user: {
+    select: {
+      id: true,
+      username: true,
+      avatar: true,
+    },
+  },
+};
 
 /**
  * Ajoute une note à un challenge
@@ -31,22 +50,21 @@ export const addNoteToChallenge = async (
     throw new Error("Non autorisé à ajouter une note à ce challenge");
   }
 
-  // Créer la note
+  // Créer la note avec sa première révision
   return await prisma.note.create({
     data: {
       content,
       challengeId,
       userId,
-    },
-    include: {
-      user: {
-        select: {
-          id: true,
-          username: true,
-          avatar: true,
+      revisions: {
+        create: {
+          version: 1,
+          content,
+          userId,
         },
       },
     },
+    include: noteUserInclude,
   });
 };
 
@@ -83,26 +101,20 @@ export const getNotesByChallengeId = async (
   // Récupérer toutes les notes du challenge
   return await prisma.note.findMany({
     where: { challengeId },
-    include: {
-      user: {
-        select: {
-          id: true,
-          username: true,
-          avatar: true,
-        },
-      },
-    },
+    include: noteUserInclude,
     orderBy: { createdAt: "desc" },
   });
 };
 
 /**
- * Met à jour une note existante
+ * Récupère une note après vérification que l'utilisateur peut la modifier :
+ * son auteur ou un administrateur de l'équipe, ou tout membre de l'équipe pour
+ * le document partagé du challenge
  */
-export const updateNoteById = async (
+const getNoteForEditor = async (
   noteId: string,
-  content: string,
-  userId: string
+  userId: string,
+  errorMessage: string
 ) => {
   // Récupérer la note
   const note = await prisma.note.findUnique({
@@ -128,28 +140,310 @@ export const updateNoteById = async (
       },
     });
 
-    if (!teamMember || teamMember.role !== "ADMIN") {
-      throw new Error("Non autorisé à modifier cette note");
+    if (
+      !teamMember ||
+      (!note.sharedChallengeId && teamMember.role !== "ADMIN")
+    ) {
+      throw new Error(errorMessage);
     }
   }
 
-  // Mettre à jour la note
-  return await prisma.note.update({
+  return note;
+};
+
+/**
+ * Remplace le contenu d'une note et enregistre une nouvelle révision
+ */
+const saveNoteRevision = async (
+  noteId: string,
+  content: string,
+  userId: string,
+  restoredFromVersion?: number
+) => {
+  // Deux enregistrements simultanés peuvent calculer le même numéro de
+  // version : le second est alors refusé par la contrainte d'unicité et
+  // retenté avec le numéro suivant
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await prisma.$transaction(async (tx) => {
+        const latest = await tx.noteRevision.findFirst({
+          where: { noteId },
+          orderBy: { version: "desc" },
+          select: { version: true },
+        });
+
+        await tx.noteRevision.create({
+          data: {
+            noteId,
+            version: (latest?.version || 0) + 1,
+            content,
+            userId,
+            restoredFromVersion,
+          },
+        });
+
+        return await tx.note.update({
+          where: { id: noteId },
+          data: {
+            content,
+            updatedAt: new Date(),
+          },
+          include: noteUserInclude,
+        });
+      });
+    } catch (error) {
+      if (
+        !(error instanceof Prisma.PrismaClientKnownRequestError) ||
+        error.code !== "P2002"
+      ) {
+        throw error;
+      }
+
+      if (attempt >= REVISION_SAVE_ATTEMPTS) {
+        throw new Error(
+          "La note a été modifiée simultanément, veuillez réessayer"
+        );
+      }
+    }
+  }
+};
+
+/**
+ * Met à jour une note existante
+ */
+export const updateNoteById = async (
+  noteId: string,
+  content: string,
+  userId: string
+) => {
+  await getNoteForEditor(noteId, userId, "Non autorisé à modifier cette note");
+
+  // Mettre à jour la note en conservant l'ancien contenu dans l'historique
+  const note = await saveNoteRevision(noteId, content, userId);
+
+  publishNoteEvent(noteId, { type: "note.updated", content, userId });
+
+  return note;
+};
+
+/**
+ * Récupère une note après vérification que l'utilisateur est membre de
+ * l'équipe du challenge
+ */
+const getNoteForMember = async (noteId: string, userId: string) => {
+  const note = await prisma.note.findUnique({
     where: { id: noteId },
-    data: {
-      content,
-      updatedAt: new Date(),
-    },
     include: {
-      user: {
-        select: {
-          id: true,
-          username: true,
-          avatar: true,
-        },
+      challenge: true,
+    },
+  });
+
+  if (!note) {
+    throw new Error("Note non trouvée");
+  }
+
+  const teamMember = await prisma.teamMember.findUnique({
+    where: {
+      userId_teamId: {
+        userId,
+        teamId: note.challenge.teamId,
+      },
+    },
+  });
+
+  if (!teamMember) {
+    throw new Error("Non autorisé à accéder à cette note");
+  }
+
+  return note;
+};
+
+/**
+ * Récupère une révision d'une note par son numéro de version
+ */
+const getNoteRevision = async (noteId: string, version: number) => {
+  const revision = await prisma.noteRevision.findUnique({
+    where: {
+      noteId_version: {
+        noteId,
+        version,
+      },
+    },
+    include: noteUserInclude,
+  });
+
+  if (!revision) {
+    throw new Error("Révision non trouvée");
+  }
+
+  return revision;
+};
+
+/**
+ * Récupère l'historique des révisions d'une note, de la plus récente à la
+ * plus ancienne
+ */
+export const getNoteRevisions = async (noteId: string, userId: string) => {
+  await getNoteForMember(noteId, userId);
+
+  return await prisma.noteRevision.findMany({
+    where: { noteId },
+    include: noteUserInclude,
+    orderBy: { version: "desc" },
+  });
+};
+
+/**
+ * Compare deux révisions d'une note. Sans version cible, la comparaison se
+ * fait avec la dernière révision.
+ */
+export const getNoteRevisionDiff = async (
+  noteId: string,
+  fromVersion: number,
+  toVersion: number | undefined,
+  userId: string
+) => {
+  await getNoteForMember(noteId, userId);
+
+  const from = await getNoteRevision(noteId, fromVersion);
+  const to = toVersion
+    ? await getNoteRevision(noteId, toVersion)
+    : await prisma.noteRevision.findFirstOrThrow({
+        where: { noteId },
+        orderBy: { version: "desc" },
+        include: noteUserInclude,
+      });
+
+  const { content: fromContent, ...fromRevision } = from;
+  const { content: toContent, ...toRevision } = to;
+
+  return {
+    from: fromRevision,
+    to: toRevision,
+    ...diffLines(fromContent, toContent),
+  };
+};
+
+/**
+ * Restaure une ancienne révision d'une note. L'historique n'est pas réécrit :
+ * le contenu restauré devient une nouvelle révision.
+ */
+export const restoreNoteRevision = async (
+  noteId: string,
+  version: number,
+  userId: string
+) => {
+  await getNoteForEditor(noteId, userId, "Non autorisé à modifier cette note");
+
+  const revision = await getNoteRevision(noteId, version);
+
+  const note = await saveNoteRevision(
+    noteId,
+    revision.content,
+    userId,
+    version
+  );
+
+  publishNoteEvent(noteId, {
+    type: "note.updated",
+    content: revision.content,
+    userId,
+  });
+
+  return note;
+};
+
+/**
+ * Récupère le document partagé d'un challenge, édité à plusieurs en temps
+ * réel, et le crée au premier accès
+ */
+export const getSharedNote = async (challengeId: string, userId: string) => {
+  const challenge = await prisma.challenge.findUnique({
+    where: { id: challengeId },
+  });
+
+  if (!challenge) {
+    throw new Error("Challenge non trouvé");
+  }
+
+  const teamMember = await prisma.teamMember.findUnique({
+    where: {
+      userId_teamId: {
+        userId,
+        teamId: challenge.teamId,
       },
     },
   });
+
+  if (!teamMember) {
+    throw new Error("Non autorisé à accéder aux notes de ce challenge");
+  }
+
+  const include = { ...noteUserInclude, collabState: true };
+
+  const existing = await prisma.note.findUnique({
+    where: { sharedChallengeId: challengeId },
+    include,
+  });
+
+  if (existing) {
+    return existing;
+  }
+
+  try {
+    return await prisma.note.create({
+      data: {
+        content: "",
+        challengeId,
+        userId,
+        sharedChallengeId: challengeId,
+        revisions: {
+          create: {
+            version: 1,
+            content: "",
+            userId,
+          },
+        },
+      },
+      include,
+    });
+  } catch (error) {
+    // Un autre membre vient de créer le document
+    return await prisma.note.findUniqueOrThrow({
+      where: { sharedChallengeId: challengeId },
+      include,
+    });
+  }
+};
+
+/**
+ * Enregistre le contenu et l'état CRDT du document partagé. Une révision
+ * n'est créée que si le contenu a changé depuis le dernier enregistrement.
+ */
+export const saveSharedNote = async (
+  noteId: string,
+  content: string,
+  userId: string,
+  state: Uint8Array
+) => {
+  const note = await prisma.note.findUnique({
+    where: { id: noteId },
+    select: { content: true },
+  });
+
+  if (!note) {
+    throw new Error("Note non trouvée");
+  }
+
+  if (note.content !== content) {
+    await saveNoteRevision(noteId, content, userId);
+  }
+
+  await prisma.noteCollabState.upsert({
+    where: { noteId },
+    update: { state: Buffer.from(state) },
+    create: { noteId, state: Buffer.from(state) },
+  });
 };
 
 /**
@@ -190,5 +484,7 @@ export const deleteNoteById = async (noteId: string, userId: string) => {
     where: { id: noteId },
   });
 
+  publishNoteEvent(noteId, { type: "note.deleted" });
+
   return true;
 };
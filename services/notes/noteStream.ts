@@ -0,0 +1,34 @@
+import { EventEmitter } from "events";
+
+/**
+ * Modification d'une note faite hors de l'édition collaborative (routes REST)
+ */
+export type NoteEvent =
+  | { type: "note.updated"; content: string; userId: string }
+  | { type: "note.deleted" };
+
+// Bus en mémoire : une clé par note
+const noteEvents = new EventEmitter();
+noteEvents.setMaxListeners(0);
+
+/**
+ * Diffuse une modification de la note
+ */
+export const publishNoteEvent = (noteId: string, event: NoteEvent): void => {
+  noteEvents.emit(noteId, event);
+};
+
+/**
+ * Abonne un listener aux modifications d'une note
+ * @returns Fonction de désabonnement
+ */
+export const subscribeToNote = (
+  noteId: string,
+  listener: (event: NoteEvent) => void
+): (() => void) => {
+  noteEvents.on(noteId, listener);
+
+  return () => {
+    noteEvents.off(noteId, listener);
+  };
+};
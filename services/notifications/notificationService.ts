@@ -0,0 +1,97 @@
+import { prisma } from "../../prisma/client";
+
+/**
+ * Nombre de notifications renvoyées par page
+ */
+export const NOTIFICATIONS_PAGE_SIZE = 50;
+
+/**
+ * Récupère les notifications de l'utilisateur, des plus récentes aux plus
+ * anciennes, avec le nombre de notifications non lues
+ */
+export const getNotifications = async (
+  userId: string,
+  unreadOnly: boolean = false,
+  cursor?: string,
+  limit: number = NOTIFICATIONS_PAGE_SIZE
+) => {
+  const notifications = await prisma.notification.findMany({
+    where: {
+      userId,
+      ...(unreadOnly ? { readAt: null } : {}),
+    },
+    include: {
+      message: {
+        select: {
+          id: true,
+          content: true,
+          teamId: true,
+          challengeId: true,
+          parentId: true,
+          createdAt: true,
+          user: {
+            select: {
+              id: true,
+              username: true,
+              avatar: true,
+            },
+          },
+        },
+      },
+    },
+    orderBy: [{ createdAt: "desc" }, { id: "desc" }],
+    take: limit + 1,
+    ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
+  });
+
+  const unreadCount = await prisma.notification.count({
+    where: { userId, readAt: null },
+  });
+
+  const hasMore = notifications.length > limit;
+  const page = hasMore ? notifications.slice(0, limit) : notifications;
+
+  return {
+    notifications: page,
+    unreadCount,
+    nextCursor: hasMore ? page[page.length - 1].id : null,
+  };
+};
+
+/**
+ * Marque une notification de l'utilisateur comme lue
+ */
+export const markNotificationRead = async (
+  notificationId: string,
+  userId: string
+) => {
+  const notification = await prisma.notification.findUnique({
+    where: { id: notificationId },
+  });
+
+  if (!notification || notification.userId !== userId) {
+    throw new Error("Notification non trouvée");
+  }
+
+  if (notification.readAt) {
+    return notification;
+  }
+
+  return await prisma.notification.update({
+    where: { id: notificationId },
+    data: { readAt: new Date() },
+  });
+};
+
+/**
+ * Marque toutes les notifications de l'utilisateur comme lues
+ * @returns Nombre de notifications marquées
+ */
+export const markAllNotificationsRead = async (userId: string) => {
+  const { count } = await prisma.notification.updateMany({
+    where: { userId, readAt: null },
+    data: { readAt: new Date() },
+  });
+
+  return count;
+};
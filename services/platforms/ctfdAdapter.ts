@@ -0,0 +1,209 @@
+import type { FlagVerdict } from "@prisma/client";
+import {
+  downloadPlatformFile,
+  platformFetch,
+  trimPlatformUrl,
+} from "./platformHttp";
+import type { PlatformAdapter, PlatformCredentials } from "./types";
+
+/**
+ * Challenge tel que renvoyé par l'API CTFd
+ */
+type CtfdChallenge = {
+  id: number;
+  name: string;
+  category: string;
+  value: number;
+  description?: string;
+  files?: string[];
+};
+
+/**
+ * Résolution telle que renvoyée par l'API CTFd
+ */
+type CtfdSolve = {
+  challenge_id: number;
+  date: string;
+  type: string;
+};
+
+/**
+ * Résultat d'une soumission de flag sur CTFd
+ */
+type CtfdAttempt = {
+  status: string;
+  message: string;
+};
+
+// Correspondance entre les statuts de soumission CTFd et nos verdicts
+const CTFD_VERDICTS: Record<string, FlagVerdict> = {
+  correct: "CORRECT",
+  incorrect: "INCORRECT",
+  already_solved: "ALREADY_SOLVED",
+  ratelimited: "RATELIMITED",
+  paused: "PAUSED",
+};
+
+/**
+ * Ligne du classement CTFd
+ */
+type CtfdScoreboardEntry = {
+  pos: number;
+  name: string;
+  score: number;
+};
+
+/**
+ * Enveloppe standard des réponses de l'API CTFd
+ */
+type CtfdResponse<T> = {
+  success: boolean;
+  data: T;
+  errors?: string[];
+};
+
+/**
+ * Extrait les données d'une réponse de l'API CTFd
+ */
+const parseCtfdResponse = async <T>(
+  response: Response,
+  endpoint: string
+): Promise<T> => {
+  const body = (await response.json()) as CtfdResponse<T>;
+
+  if (!body.success) {
+    throw new Error(
+      `Erreur de la plateforme CTF: réponse invalide sur ${endpoint}`
+    );
+  }
+
+  return body.data;
+};
+
+/**
+ * Crée l'adaptateur pour une instance CTFd
+ */
+export const createCtfdAdapter = ({
+  url,
+  apiKey,
+}: PlatformCredentials): PlatformAdapter => {
+  const baseUrl = trimPlatformUrl(url);
+  const authHeaders = { Authorization: `Token ${apiKey}` };
+
+  /**
+   * Effectue une requête authentifiée sur l'API CTFd
+   */
+  const ctfdRequest = async <T>(
+    endpoint: string,
+    init: RequestInit = {},
+    acceptedStatuses: number[] = []
+  ): Promise<T> => {
+    const response = await platformFetch(
+      `${baseUrl}/api/v1${endpoint}`,
+      {
+        ...init,
+        headers: {
+          ...authHeaders,
+          "Content-Type": "application/json",
+        },
+      },
+      acceptedStatuses
+    );
+
+    return await parseCtfdResponse<T>(response, endpoint);
+  };
+
+  return {
+    async listChallenges() {
+      const challenges = await ctfdRequest<CtfdChallenge[]>("/challenges");
+
+      // La liste CTFd ne contient ni description ni fichiers
+      const details = [];
+      for (const challenge of challenges) {
+        details.push(
+          await ctfdRequest<CtfdChallenge>(`/challenges/${challenge.id}`)
+        );
+      }
+
+      return details.map((challenge) => ({
+        externalId: String(challenge.id),
+        name: challenge.name,
+        category: challenge.category || undefined,
+        points: challenge.value,
+        description: challenge.description || undefined,
+        files: (challenge.files || []).map((file) => ({
+          name: decodeURIComponent(
+            new URL(file, baseUrl).pathname.split("/").pop() || "fichier"
+          ),
+          url: new URL(file, baseUrl).toString(),
+        })),
+      }));
+    },
+
+    async downloadFile(file) {
+      // Le token ne part que vers CTFd, pas vers un stockage externe (S3, CDN)
+      return await downloadPlatformFile(
+        file.url,
+        file.name,
+        authHeaders,
+        new URL(baseUrl).origin
+      );
+    },
+
+    async submitFlag(externalId, flag) {
+      // CTFd répond 429 lorsque l'équipe soumet trop vite et 403 lorsque le
+      // CTF est en pause, avec un statut exploitable dans les deux cas
+      const attempt = await ctfdRequest<CtfdAttempt>(
+        "/challenges/attempt",
+        {
+          method: "POST",
+          body: JSON.stringify({
+            challenge_id: parseInt(externalId),
+            submission: flag,
+          }),
+        },
+        [403, 429]
+      );
+
+      const verdict = CTFD_VERDICTS[attempt.status];
+
+      if (!verdict) {
+        throw new Error(
+          `Erreur de la plateforme CTF: réponse inattendue (${attempt.status})`
+        );
+      }
+
+      return { verdict, message: attempt.message };
+    },
+
+    async listSolves() {
+      // En mode utilisateur, CTFd n'expose pas d'équipe et refuse la route
+      // des équipes (403 ou 404). Les autres erreurs (clé invalide, réseau)
+      // remontent telles quelles.
+      const teamResponse = await platformFetch(
+        `${baseUrl}/api/v1/teams/me/solves`,
+        { headers: authHeaders },
+        [403, 404]
+      );
+
+      const solves = teamResponse.ok
+        ? await parseCtfdResponse<CtfdSolve[]>(teamResponse, "/teams/me/solves")
+        : await ctfdRequest<CtfdSolve[]>("/users/me/solves");
+
+      return solves.map((solve) => ({
+        externalId: String(solve.challenge_id),
+        solvedAt: new Date(solve.date),
+      }));
+    },
+
+    async getScoreboard() {
+      const entries = await ctfdRequest<CtfdScoreboardEntry[]>("/scoreboard");
+
+      return entries.map((entry) => ({
+        position: entry.pos,
+        name: entry.name,
+        score: entry.score,
+      }));
+    },
+  };
+};
@@ -0,0 +1,130 @@
+import type { PlatformFileContent } from "./types";
+
+// Délai maximal d'attente d'une réponse de la plateforme
+const PLATFORM_TIMEOUT_MS = 10000;
+
+// Nombre maximal de redirections suivies pour télécharger un fichier
+const MAX_FILE_REDIRECTS = 5;
+
+// Taille maximale d'un fichier téléchargé, comme pour l'ajout d'une ressource
+const MAX_FILE_SIZE = 50 * 1024 * 1024;
+
+/**
+ * Effectue une requête HTTP vers une plateforme CTF
+ *
+ * Les codes de statut listés dans `acceptedStatuses` sont renvoyés à
+ * l'appelant au lieu de lever une erreur.
+ */
+export const platformFetch = async (
+  url: string,
+  init: RequestInit = {},
+  acceptedStatuses: number[] = []
+): Promise<Response> => {
+  const response = await fetch(url, {
+    ...init,
+    signal: AbortSignal.timeout(PLATFORM_TIMEOUT_MS),
+  });
+
+  if (!response.ok && !acceptedStatuses.includes(response.status)) {
+    throw new Error(
+      `Erreur de la plateforme CTF (${response.status}) sur ${new URL(url).pathname}`
+    );
+  }
+
+  return response;
+};
+
+/**
+ * Lit le corps d'une réponse au fil de l'eau, en s'arrêtant dès que la taille
+ * maximale est dépassée
+ */
+const readLimitedBody = async (
+  response: Response,
+  maxSize: number
+): Promise<ArrayBuffer> => {
+  const tooLarge = () =>
+    new Error("Erreur de la plateforme CTF: fichier trop volumineux");
+
+  if (Number(response.headers.get("Content-Length")) > maxSize) {
+    await response.body?.cancel();
+    throw tooLarge();
+  }
+
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+
+  if (response.body) {
+    const reader = response.body.getReader();
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) {
+        break;
+      }
+
+      size += value.length;
+      if (size > maxSize) {
+        await reader.cancel();
+        throw tooLarge();
+      }
+      chunks.push(value);
+    }
+  }
+
+  const body = new Uint8Array(size);
+  let offset = 0;
+  for (const chunk of chunks) {
+    body.set(chunk, offset);
+    offset += chunk.length;
+  }
+
+  return body.buffer;
+};
+
+/**
+ * Télécharge un fichier depuis une plateforme CTF
+ *
+ * Les en-têtes (d'authentification notamment) ne sont envoyés qu'à l'origine
+ * `trustedOrigin` : ni à une autre URL de fichier, ni après une redirection
+ * vers un stockage externe.
+ */
+export const downloadPlatformFile = async (
+  url: string,
+  name: string,
+  headers: Record<string, string> = {},
+  trustedOrigin?: string
+): Promise<PlatformFileContent> => {
+  let currentUrl = url;
+  let response: Response | undefined;
+
+  for (let redirects = 0; redirects <= MAX_FILE_REDIRECTS; redirects++) {
+    const trusted = new URL(currentUrl).origin === trustedOrigin;
+    response = await platformFetch(
+      currentUrl,
+      { headers: trusted ? headers : {}, redirect: "manual" },
+      [301, 302, 303, 307, 308]
+    );
+
+    const location = response.headers.get("Location");
+    if (response.status < 300 || response.status >= 400 || !location) {
+      break;
+    }
+
+    currentUrl = new URL(location, currentUrl).toString();
+  }
+
+  if (!response || (response.status >= 300 && response.status < 400)) {
+    throw new Error("Erreur de la plateforme CTF: trop de redirections");
+  }
+
+  return {
+    name,
+    mimeType:
+      response.headers.get("Content-Type") || "application/octet-stream",
+    content: await readLimitedBody(response, MAX_FILE_SIZE),
+  };
+};
+
+/**
+ * Retire les barres obliques finales d'une URL de plateforme
+ */
+export const trimPlatformUrl = (url: string): string => url.replace(/\/+$/, "");
@@ -0,0 +1,41 @@
+import type { CtfPlatform, Event } from "@prisma/client";
+import { decryptSecret } from "../../utils/secretCipher";
+import { createCtfdAdapter } from "./ctfdAdapter";
+import { createRctfAdapter } from "./rctfAdapter";
+import type { PlatformAdapter, PlatformCredentials } from "./types";
+
+// Fabriques d'adaptateurs par type de plateforme
+const adapterFactories: Record<
+  CtfPlatform,
+  (credentials: PlatformCredentials) => PlatformAdapter
+> = {
+  CTFD: createCtfdAdapter,
+  RCTF: createRctfAdapter,
+};
+
+/**
+ * Indique si un événement est relié à une plateforme CTF
+ */
+export const hasPlatform = (
+  event: Pick<Event, "platform" | "platformUrl" | "platformApiKey">
+): boolean => {
+  return Boolean(event.platform && event.platformUrl && event.platformApiKey);
+};
+
+/**
+ * Récupère l'adaptateur de la plateforme CTF d'un événement
+ *
+ * La clé API est stockée chiffrée et n'est déchiffrée qu'ici.
+ */
+export const getPlatformAdapter = (
+  event: Pick<Event, "platform" | "platformUrl" | "platformApiKey">
+): PlatformAdapter => {
+  if (!event.platform || !event.platformUrl || !event.platformApiKey) {
+    throw new Error("Aucune plateforme CTF configurée pour cet événement");
+  }
+
+  return adapterFactories[event.platform]({
+    url: event.platformUrl,
+    apiKey: decryptSecret(event.platformApiKey),
+  });
+};
@@ -0,0 +1,146 @@
+import config from "../../config/config";
+import { prisma } from "../../prisma/client";
+import { info, logError } from "../../utils/logger";
+import { getPlatformAdapter } from "./platformService";
+
+// Empêche deux synchronisations de se chevaucher
+let isSyncRunning = false;
+
+/**
+ * Synchronise les résolutions de la plateforme CTF d'un événement
+ *
+ * La clé API ne donne que les résolutions de l'équipe à laquelle elle
+ * appartient sur la plateforme : elles ne sont appliquées qu'à l'équipe
+ * FlagHive rattachée aux identifiants, jamais aux autres équipes inscrites.
+ */
+export const syncEventSolves = async (eventId: string) => {
+  const event = await prisma.event.findUnique({
+    where: { id: eventId },
+    include: {
+      platformTeam: true,
+    },
+  });
+
+  if (!event) {
+    throw new Error("Événement non trouvé");
+  }
+
+  const team = event.platformTeam;
+
+  if (!team) {
+    return { synced: 0 };
+  }
+
+  // L'équipe a pu quitter l'événement depuis
+  const eventTeam = await prisma.eventTeam.findUnique({
+    where: { eventId_teamId: { eventId: event.id, teamId: team.id } },
+  });
+
+  if (!eventTeam) {
+    return { synced: 0 };
+  }
+
+  const solves = await getPlatformAdapter(event).listSolves();
+  let synced = 0;
+
+  for (const solve of solves) {
+    const challenge = await prisma.challenge.findUnique({
+      where: {
+        externalId_eventId_teamId: {
+          externalId: solve.externalId,
+          eventId: event.id,
+          teamId: team.id,
+        },
+      },
+    });
+
+    if (!challenge || challenge.solved) {
+      continue;
+    }
+
+    // La plateforme ne renvoie ni le flag soumis ni son auteur : la
+    // tentative n'a ni flag ni utilisateur
+    await prisma.$transaction([
+      prisma.challenge.update({
+        where: { id: challenge.id },
+        data: { solved: true, solvedAt: solve.solvedAt },
+      }),
+      prisma.flagAttempt.create({
+        data: {
+          isSuccess: true,
+          comment: "Résolu sur la plateforme (synchronisation automatique)",
+          source: "PLATFORM_SYNC",
+          challengeId: challenge.id,
+        },
+      }),
+    ]);
+    synced++;
+  }
+
+  return { synced };
+};
+
+/**
+ * Synchronise les résolutions de tous les événements en cours reliés à une
+ * plateforme CTF
+ */
+export const syncAllPlatformSolves = async () => {
+  if (isSyncRunning) {
+    return;
+  }
+
+  isSyncRunning = true;
+
+  try {
+    const events = await prisma.event.findMany({
+      where: {
+        platform: { not: null },
+        platformUrl: { not: null },
+        platformApiKey: { not: null },
+        platformTeamId: { not: null },
+        startDate: { lte: new Date() },
+        endDate: { gte: new Date() },
+      },
+      select: { id: true, name: true },
+    });
+
+    for (const event of events) {
+      try {
+        const { synced } = await syncEventSolves(event.id);
+        if (synced > 0) {
+          info(`${synced} résolution(s) synchronisée(s) pour ${event.name}`);
+        }
+      } catch (error) {
+        logError(
+          error instanceof Error ? error : new Error(String(error)),
+          `Synchronisation de la plateforme de l'événement ${event.id}`
+        );
+      }
+    }
+  } finally {
+    isSyncRunning = false;
+  }
+};
+
+/**
+ * Démarre la synchronisation périodique des résolutions
+ */
+export const startPlatformSyncJob = () => {
+  if (config.platform.syncInterval <= 0) {
+    info("Synchronisation des plateformes CTF désactivée");
+    return;
+  }
+
+  setInterval(() => {
+    syncAllPlatformSolves().catch((error) =>
+      logError(
+        error instanceof Error ? error : new Error(String(error)),
+        "Synchronisation des plateformes CTF"
+      )
+    );
+  }, config.platform.syncInterval * 1000);
+
+  info(
+    `Synchronisation des plateformes CTF démarrée (toutes les ${config.platform.syncInterval}s)`
+  );
+};
@@ -0,0 +1,168 @@
+import type { FlagVerdict } from "@prisma/client";
+import {
+  downloadPlatformFile,
+  platformFetch,
+  trimPlatformUrl,
+} from "./platformHttp";
+import type { PlatformAdapter, PlatformCredentials } from "./types";
+
+/**
+ * Challenge tel que renvoyé par l'API rCTF
+ */
+type RctfChallenge = {
+  id: string;
+  name: string;
+  category: string;
+  description: string;
+  points: number;
+  files: { name: string; url: string }[];
+};
+
+/**
+ * Enveloppe standard des réponses de l'API rCTF
+ */
+type RctfResponse<T> = {
+  kind: string;
+  message: string;
+  data: T;
+};
+
+// Correspondance entre les réponses de soumission rCTF et nos verdicts
+const RCTF_VERDICTS: Record<string, FlagVerdict> = {
+  goodFlag: "CORRECT",
+  badFlag: "INCORRECT",
+  badAlreadySolvedChallenge: "ALREADY_SOLVED",
+  badRateLimit: "RATELIMITED",
+  badNotStarted: "PAUSED",
+  badEnded: "PAUSED",
+};
+
+// Nombre d'équipes récupérées dans le classement
+const SCOREBOARD_LIMIT = 100;
+
+/**
+ * Crée l'adaptateur pour une instance rCTF
+ *
+ * La clé d'API est le token d'équipe rCTF, échangé contre un token de
+ * session à la première requête.
+ */
+export const createRctfAdapter = ({
+  url,
+  apiKey,
+}: PlatformCredentials): PlatformAdapter => {
+  const baseUrl = trimPlatformUrl(url);
+  let authToken: string | undefined;
+
+  /**
+   * Effectue une requête sur l'API rCTF
+   */
+  const rctfRequest = async <T>(
+    endpoint: string,
+    init: RequestInit = {},
+    acceptedStatuses: number[] = []
+  ): Promise<RctfResponse<T>> => {
+    const response = await platformFetch(
+      `${baseUrl}/api/v1${endpoint}`,
+      {
+        ...init,
+        headers: {
+          ...(authToken ? { Authorization: `Bearer ${authToken}` } : {}),
+          "Content-Type": "application/json",
+        },
+      },
+      acceptedStatuses
+    );
+
+    return (await response.json()) as RctfResponse<T>;
+  };
+
+  /**
+   * Échange le token d'équipe contre un token de session
+   */
+  const login = async () => {
+    if (authToken) {
+      return;
+    }
+
+    const body = await rctfRequest<{ authToken: string }>("/auth/login", {
+      method: "POST",
+      body: JSON.stringify({ teamToken: apiKey }),
+    });
+
+    if (body.kind !== "goodLogin") {
+      throw new Error("Erreur de la plateforme CTF: token d'équipe invalide");
+    }
+
+    authToken = body.data.authToken;
+  };
+
+  return {
+    async listChallenges() {
+      await login();
+      const { data } = await rctfRequest<RctfChallenge[]>("/challs");
+
+      return data.map((challenge) => ({
+        externalId: challenge.id,
+        name: challenge.name,
+        category: challenge.category || undefined,
+        points: challenge.points,
+        description: challenge.description || undefined,
+        files: challenge.files.map((file) => ({
+          name: file.name,
+          url: new URL(file.url, baseUrl).toString(),
+        })),
+      }));
+    },
+
+    async downloadFile(file) {
+      // Les fichiers rCTF sont publics, souvent servis par un stockage externe
+      return await downloadPlatformFile(file.url, file.name);
+    },
+
+    async submitFlag(externalId, flag) {
+      await login();
+      const body = await rctfRequest<null>(
+        `/challs/${encodeURIComponent(externalId)}/submit`,
+        {
+          method: "POST",
+          body: JSON.stringify({ flag }),
+        },
+        [400, 403, 409, 429]
+      );
+
+      const verdict = RCTF_VERDICTS[body.kind];
+
+      if (!verdict) {
+        throw new Error(
+          `Erreur de la plateforme CTF: réponse inattendue (${body.kind})`
+        );
+      }
+
+      return { verdict, message: body.message };
+    },
+
+    async listSolves() {
+      await login();
+      const { data } = await rctfRequest<{
+        solves: { id: string; createdAt: number }[];
+      }>("/users/me");
+
+      return data.solves.map((solve) => ({
+        externalId: solve.id,
+        solvedAt: new Date(solve.createdAt),
+      }));
+    },
+
+    async getScoreboard() {
+      const { data } = await rctfRequest<{
+        leaderboard: { id: string; name: string; score: number }[];
+      }>(`/leaderboard/now?limit=${SCOREBOARD_LIMIT}&offset=0`);
+
+      return data.leaderboard.map((entry, index) => ({
+        position: index + 1,
+        name: entry.name,
+        score: entry.score,
+      }));
+    },
+  };
+};
@@ -0,0 +1,74 @@
+import type { FlagVerdict } from "@prisma/client";
+
+/**
+ * Identifiants de connexion à une plateforme CTF
+ */
+export type PlatformCredentials = {
+  url: string;
+  apiKey: string;
+};
+
+/**
+ * Fichier joint à un challenge sur la plateforme
+ */
+export type PlatformFile = {
+  name: string;
+  url: string;
+};
+
+/**
+ * Contenu d'un fichier téléchargé depuis la plateforme
+ */
+export type PlatformFileContent = {
+  name: string;
+  mimeType: string;
+  content: ArrayBuffer;
+};
+
+/**
+ * Challenge tel qu'exposé par une plateforme, normalisé
+ */
+export type PlatformChallenge = {
+  externalId: string;
+  name: string;
+  category?: string;
+  points?: number;
+  description?: string;
+  files: PlatformFile[];
+};
+
+/**
+ * Résolution d'un challenge par l'équipe sur la plateforme
+ */
+export type PlatformSolve = {
+  externalId: string;
+  solvedAt: Date;
+};
+
+/**
+ * Résultat d'une soumission de flag sur la plateforme
+ */
+export type PlatformSubmission = {
+  verdict: FlagVerdict;
+  message: string;
+};
+
+/**
+ * Ligne du classement de la plateforme
+ */
+export type PlatformScoreboardEntry = {
+  position: number;
+  name: string;
+  score: number;
+};
+
+/**
+ * Interface commune à toutes les plateformes CTF
+ */
+export interface PlatformAdapter {
+  listChallenges(): Promise<PlatformChallenge[]>;
+  downloadFile(file: PlatformFile): Promise<PlatformFileContent>;
+  submitFlag(externalId: string, flag: string): Promise<PlatformSubmission>;
+  listSolves(): Promise<PlatformSolve[]>;
+  getScoreboard(): Promise<PlatformScoreboardEntry[]>;
+}
@@ -0,0 +1,157 @@
+import type { IncomingMessage, Server } from "http";
+import type { Duplex } from "stream";
+import type { WebSocket } from "ws";
+import { WebSocketServer } from "ws";
+import config from "../../config/config";
+import { logError } from "../../utils/logger";
+import type { JwtPayload } from "../authService";
+import { jwtCookieConfig, verifyAccessToken } from "../authService";
+import { isTwoFactorSetupRequired } from "../twoFactorService";
+
+/**
+ * Contexte d'une connexion WebSocket authentifiée
+ */
+export type WebSocketContext = {
+  params: Record<string, string>;
+  user: JwtPayload;
+  request: IncomingMessage;
+};
+
+type WebSocketHandler = (
+  socket: WebSocket,
+  context: WebSocketContext
+) => void | Promise<void>;
+
+// Taille maximale d'un message reçu (ws accepte 100 Mo par défaut)
+const MAX_MESSAGE_SIZE = 256 * 1024;
+
+type WebSocketRoute = {
+  pattern: RegExp;
+  keys: string[];
+  handler: WebSocketHandler;
+};
+
+const webSocketRoutes: WebSocketRoute[] = [];
+
+/**
+ * Enregistre un handler WebSocket sur un chemin du type
+ * /api/v1/teams/:teamId/...
+ */
+export const registerWebSocketRoute = (
+  path: string,
+  handler: WebSocketHandler
+): void => {
+  const keys: string[] = [];
+  const pattern = new RegExp(
+    `^${path.replace(/:(\w+)/g, (_, key: string) => {
+      keys.push(key);
+      return "([^/]+)";
+    })}$`
+  );
+
+  webSocketRoutes.push({ pattern, keys, handler });
+};
+
+/**
+ * Récupère le JWT depuis le cookie d'authentification ou l'en-tête Authorization
+ */
+const getRequestToken = (request: IncomingMessage): string | undefined => {
+  const cookies = (request.headers.cookie || "").split(";");
+
+  for (const cookie of cookies) {
+    const [name, ...value] = cookie.trim().split("=");
+    if (name === jwtCookieConfig.name) {
+      return decodeURIComponent(value.join("="));
+    }
+  }
+
+  const authHeader = request.headers.authorization;
+  if (authHeader && authHeader.startsWith("Bearer ")) {
+    return authHeader.split(" ")[1];
+  }
+
+  return undefined;
+};
+
+/**
+ * Refuse une demande d'upgrade avec un statut HTTP
+ */
+const rejectUpgrade = (socket: Duplex, status: number, message: string) => {
+  socket.write(`HTTP/1.1 ${status} ${message}\r\nConnection: close\r\n\r\n`);
+  socket.destroy();
+};
+
+/**
+ * Branche le serveur WebSocket sur le serveur HTTP : les connexions sont
+ * authentifiées avec le même JWT que authenticateJWT, puis confiées au handler
+ * enregistré pour le chemin demandé
+ */
+export const attachWebSocketServer = (server: Server): void => {
+  const wss = new WebSocketServer({
+    noServer: true,
+    maxPayload: MAX_MESSAGE_SIZE,
+  });
+
+  server.on("upgrade", async (request, socket, head) => {
+    try {
+      const { pathname } = new URL(request.url || "/", "http://localhost");
+
+      let params: Record<string, string> | null = null;
+      const route = webSocketRoutes.find((candidate) => {
+        const match = candidate.pattern.exec(pathname);
+        if (!match) {
+          return false;
+        }
+        params = Object.fromEntries(
+          candidate.keys.map((key, index) => [key, match[index + 1]])
+        );
+        return true;
+      });
+
+      if (!route || !params) {
+        return rejectUpgrade(socket, 404, "Not Found");
+      }
+
+      // Les cookies partent aussi sur les WebSockets cross-origin
+      const origin = request.headers.origin;
+      if (origin && !config.corsOrigins.includes(origin)) {
+        return rejectUpgrade(socket, 403, "Forbidden");
+      }
+
+      const token = getRequestToken(request);
+      if (!token) {
+        return rejectUpgrade(socket, 401, "Unauthorized");
+      }
+
+      let user: JwtPayload;
+      try {
+        user = await verifyAccessToken(token);
+      } catch (error) {
+        return rejectUpgrade(socket, 401, "Unauthorized");
+      }
+
+      // Même exigence de double authentification que l'API
+      if (await isTwoFactorSetupRequired(user.userId)) {
+        return rejectUpgrade(socket, 403, "Forbidden");
+      }
+
+      const context: WebSocketContext = { params, user, request };
+
+      wss.handleUpgrade(request, socket, head, (ws) => {
+        Promise.resolve(route.handler(ws, context)).catch((error) => {
+          logError(
+            error instanceof Error ? error : new Error(String(error)),
+            `Erreur du handler WebSocket ${pathname}`
+          );
+          ws.close(1011, "Erreur serveur");
+        });
+      });
+    } catch (error) {
+      logError(
+        error instanceof Error ? error : new Error(String(error)),
+        "Erreur lors de l'upgrade WebSocket"
+      );
+      rejectUpgrade(socket, 500, "Internal Server Error");
+    }
+  });
+};
@@ -0,0 +1,328 @@
+import { Prisma } from "@prisma/client";
+import { prisma } from "../../prisma/client";
+
+/**
+ * Types d'éléments couverts par la recherche
+ */
+export const SEARCH_TYPES = [
+  "challenges",
+  "notes",
+  "messages",
+  "resources",
+] as const;
+
+export type SearchType = (typeof SEARCH_TYPES)[number];
+
+// Marqueurs des termes trouvés dans les extraits
+const HIGHLIGHT_START = "<mark>";
+const HIGHLIGHT_STOP = "</mark>";
+
+const HEADLINE_OPTIONS = `StartSel=${HIGHLIGHT_START}, StopSel=${HIGHLIGHT_STOP}, MaxWords=30, MinWords=10, MaxFragments=2, FragmentDelimiter=" … "`;
+
+// Expressions des vecteurs de recherche, identiques à celles des index GIN
+export const challengeVector = Prisma.sql`(setweight(to_tsvector('simple', coalesce(c."name", '')), 'A') || setweight(to_tsvector('simple', coalesce(c."description", '')), 'B'))`;
+const noteVector = Prisma.sql`to_tsvector('simple', n."content")`;
+const messageVector = Prisma.sql`to_tsvector('simple', m."content")`;
+const uploadVector = Prisma.sql`(setweight(to_tsvector('simple', regexp_replace(u."filename", '[._-]+', ' ', 'g')), 'A') || setweight(to_tsvector('simple', coalesce(u."metadata"->>'tags', '')), 'B'))`;
+
+type SearchOptions = {
+  types?: SearchType[];
+  eventId?: string;
+  teamId?: string;
+  limit?: number;
+};
+
+/**
+ * Échappe le HTML d'un extrait en ne conservant que les marqueurs de
+ * surlignage
+ */
+const formatSnippet = (snippet: string | null) => {
+  if (snippet === null) {
+    return null;
+  }
+
+  return snippet
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;")
+    .split("&lt;mark&gt;")
+    .join(HIGHLIGHT_START)
+    .split("&lt;/mark&gt;")
+    .join(HIGHLIGHT_STOP);
+};
+
+/**
+ * Recherche dans les challenges (nom et description)
+ */
+const searchChallenges = async (
+  query: Prisma.Sql,
+  scope: Prisma.Sql,
+  limit: number
+) => {
+  const rows = await prisma.$queryRaw<
+    {
+      id: string;
+      name: string;
+      category: string | null;
+      solved: boolean;
+      eventId: string;
+      teamId: string;
+      nameHighlight: string;
+      snippet: string | null;
+      rank: number;
+    }[]
+  >`
+    SELECT c."id", c."name", c."category", c."solved", c."eventId", c."teamId",
+      ts_headline('simple', c."name", ${query}, ${HEADLINE_OPTIONS}) AS "nameHighlight",
+      CASE WHEN c."description" IS NULL THEN NULL
+        ELSE ts_headline('simple', c."description", ${query}, ${HEADLINE_OPTIONS}) END AS "snippet",
+      ts_rank(${challengeVector}, ${query}) AS "rank"
+    FROM "Challenge" c
+    WHERE ${challengeVector} @@ ${query} AND ${scope}
+    ORDER BY "rank" DESC, c."createdAt" DESC
+    LIMIT ${limit}
+  `;
+
+  return rows.map(({ nameHighlight, snippet, ...row }) => ({
+    ...row,
+    highlight: formatSnippet(nameHighlight),
+    snippet: formatSnippet(snippet),
+  }));
+};
+
+/**
+ * Recherche dans le contenu des notes
+ */
+const searchNotes = async (
+  query: Prisma.Sql,
+  scope: Prisma.Sql,
+  limit: number
+) => {
+  const rows = await prisma.$queryRaw<
+    {
+      id: string;
+      challengeId: string;
+      challengeName: string;
+      eventId: string;
+      teamId: string;
+      username: string;
+      updatedAt: Date;
+      snippet: string;
+      rank: number;
+    }[]
+  >`
+    SELECT n."id", n."challengeId", c."name" AS "challengeName", c."eventId", c."teamId",
+      usr."username", n."updatedAt",
+      ts_headline('simple', n."content", ${query}, ${HEADLINE_OPTIONS}) AS "snippet",
+      ts_rank(${noteVector}, ${query}) AS "rank"
+    FROM "Note" n
+    JOIN "Challenge" c ON c."id" = n."challengeId"
+    JOIN "User" usr ON usr."id" = n."userId"
+    WHERE ${noteVector} @@ ${query} AND ${scope}
+    ORDER BY "rank" DESC, n."updatedAt" DESC
+    LIMIT ${limit}
+  `;
+
+  return rows.map((row) => ({
+    ...row,
+    snippet: formatSnippet(row.snippet),
+  }));
+};
+
+/**
+ * Recherche dans les messages du chat des équipes et des challenges
+ */
+const searchMessages = async (
+  query: Prisma.Sql,
+  scope: Prisma.Sql,
+  limit: number
+) => {
+  const rows = await prisma.$queryRaw<
+    {
+      id: string;
+      teamId: string;
+      challengeId: string | null;
+      challengeName: string | null;
+      eventId: string | null;
+      parentId: string | null;
+      type: string;
+      username: string;
+      createdAt: Date;
+      snippet: string;
+      rank: number;
+    }[]
+  >`
+    SELECT m."id", coalesce(m."teamId", c."teamId") AS "teamId", m."challengeId",
+      c."name" AS "challengeName", c."eventId", m."parentId", m."type"::text AS "type",
+      usr."username", m."createdAt",
+      ts_headline('simple', m."content", ${query}, ${HEADLINE_OPTIONS}) AS "snippet",
+      ts_rank(${messageVector}, ${query}) AS "rank"
+    FROM "Message" m
+    LEFT JOIN "Challenge" c ON c."id" = m."challengeId"
+    JOIN "User" usr ON usr."id" = m."userId"
+    WHERE ${messageVector} @@ ${query} AND ${scope}
+    ORDER BY "rank" DESC, m."createdAt" DESC
+    LIMIT ${limit}
+  `;
+
+  return rows.map((row) => ({
+    ...row,
+    snippet: formatSnippet(row.snippet),
+  }));
+};
+
+/**
+ * Recherche dans les ressources (nom du fichier et tags)
+ */
+const searchResources = async (
+  query: Prisma.Sql,
+  scope: Prisma.Sql,
+  limit: number
+) => {
+  const rows = await prisma.$queryRaw<
+    {
+      id: string;
+      filename: string;
+      mimeType: string;
+      size: number;
+      teamId: string;
+      challengeId: string | null;
+      challengeName: string | null;
+      eventId: string | null;
+      tags: string | null;
+      createdAt: Date;
+      highlight: string;
+      rank: number;
+    }[]
+  >`
+    SELECT u."id", u."filename", u."mimeType", u."size",
+      coalesce(u."teamId", c."teamId") AS "teamId", u."challengeId",
+      c."name" AS "challengeName", c."eventId", u."metadata"->>'tags' AS "tags", u."createdAt",
+      ts_headline('simple', u."filename", ${query}, ${HEADLINE_OPTIONS}) AS "highlight",
+      ts_rank(${uploadVector}, ${query}) AS "rank"
+    FROM "Upload" u
+    LEFT JOIN "Challenge" c ON c."id" = u."challengeId"
+    WHERE ${uploadVector} @@ ${query} AND ${scope}
+    ORDER BY "rank" DESC, u."createdAt" DESC
+    LIMIT ${limit}
+  `;
+
+  return rows.map(({ tags, ...row }) => {
+    let parsedTags: unknown = null;
+    try {
+      parsedTags = tags ? JSON.parse(tags) : null;
+    } catch {
+      parsedTags = tags;
+    }
+
+    return {
+      ...row,
+      tags: parsedTags,
+      highlight: formatSnippet(row.highlight),
+    };
+  });
+};
+
+/**
+ * Filtre SQL limitant les résultats aux équipes indiquées et, si besoin, à un
+ * événement
+ */
+const buildScope = (
+  teamColumn: Prisma.Sql,
+  teamIds: string[],
+  eventId?: string
+) => {
+  const teamFilter = Prisma.sql`${teamColumn} IN (${Prisma.join(teamIds)})`;
+
+  return eventId
+    ? Prisma.sql`${teamFilter} AND c."eventId" = ${eventId}`
+    : teamFilter;
+};
+
+/**
+ * Recherche plein texte dans les challenges, notes, messages et ressources
+ * des équipes de l'utilisateur, avec des extraits où les termes trouvés sont
+ * entourés de <mark>.
+ *
+ * La requête accepte la syntaxe de recherche web de Postgres : guillemets
+ * pour une expression exacte, "or" et "-" pour exclure un terme. Avec un
+ * événement, les messages du chat de l'équipe, qui n'appartiennent à aucun
+ * challenge, sont écartés.
+ */
+export const search = async (
+  userId: string,
+  text: string,
+  options: SearchOptions = {}
+) => {
+  const { types = [...SEARCH_TYPES], eventId, teamId, limit = 10 } = options;
+
+  const memberships = await prisma.teamMember.findMany({
+    where: { userId },
+    select: { teamId: true },
+  });
+  let teamIds = memberships.map((membership) => membership.teamId);
+
+  if (teamId) {
+    if (!teamIds.includes(teamId)) {
+      throw new Error("Non autorisé à rechercher dans cette équipe");
+    }
+    teamIds = [teamId];
+  }
+
+  const results = {
+    challenges: [] as Awaited<ReturnType<typeof searchChallenges>>,
+    notes: [] as Awaited<ReturnType<typeof searchNotes>>,
+    messages: [] as Awaited<ReturnType<typeof searchMessages>>,
+    resources: [] as Awaited<ReturnType<typeof searchResources>>,
+  };
+
+  if (teamIds.length === 0) {
+    return results;
+  }
+
+  const query = Prisma.sql`websearch_to_tsquery('simple', ${text})`;
+
+  if (types.includes("challenges")) {
+    results.challenges = await searchChallenges(
+      query,
+      buildScope(Prisma.sql`c."teamId"`, teamIds, eventId),
+      limit
+    );
+  }
+
+  if (types.includes("notes")) {
+    results.notes = await searchNotes(
+      query,
+      buildScope(Prisma.sql`c."teamId"`, teamIds, eventId),
+      limit
+    );
+  }
+
+  if (types.includes("messages")) {
+    results.messages = await searchMessages(
+      query,
+      buildScope(
+        Prisma.sql`coalesce(m."teamId", c."teamId")`,
+        teamIds,
+        eventId
+      ),
+      limit
+    );
+  }
+
+  if (types.includes("resources")) {
+    results.resources = await searchResources(
+      query,
+      buildScope(
+        Prisma.sql`coalesce(u."teamId", c."teamId")`,
+        teamIds,
+        eventId
+      ),
+      limit
+    );
+  }
+
+  return results;
+};
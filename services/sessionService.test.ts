@@ -0,0 +1,158 @@
+import { beforeEach, describe, expect, mock, test } from "bun:test";
+
+type StoredSession = {
+  id: string;
+  userId: string;
+  refreshTokenHash: string;
+  previousRefreshTokenHash: string | null;
+  revokedAt: Date | null;
+  expiresAt: Date;
+  lastSeenAt: Date;
+  userAgent?: string | null;
+  ipAddress?: string | null;
+  user: { id: string; active: boolean };
+};
+
+let sessions: StoredSession[] = [];
+
+// Sous-ensemble de Prisma suffisant pour les sessions : égalité stricte sur
+// chaque champ du filtre
+const matches = (session: StoredSession, where: Record<string, unknown>) =>
+  Object.entries(where).every(
+    ([key, value]) => session[key as keyof StoredSession] === value
+  );
+
+const prisma = {
+  session: {
+    create: mock(
+      async ({
+        data,
+      }: {
+        data: Pick<
+          StoredSession,
+          "id" | "userId" | "refreshTokenHash" | "expiresAt"
+        >;
+      }) => {
+        const session: StoredSession = {
+          previousRefreshTokenHash: null,
+          revokedAt: null,
+          lastSeenAt: new Date(),
+          ...data,
+          user: { id: data.userId, active: true },
+        };
+        sessions.push(session);
+        return session;
+      }
+    ),
+    findUnique: mock(
+      async ({ where }: { where: { id: string } }) =>
+        sessions.find((session) => session.id === where.id) || null
+    ),
+    updateMany: mock(
+      async ({
+        where,
+        data,
+      }: {
+        where: Record<string, unknown>;
+        data: Partial<StoredSession>;
+      }) => {
+        const matched = sessions.filter((session) => matches(session, where));
+        matched.forEach((session) => Object.assign(session, data));
+        return { count: matched.length };
+      }
+    ),
+    update: mock(async () => ({})),
+  },
+};
+
+mock.module("../prisma/client", () => ({ prisma, default: prisma }));
+
+const { createSession, rotateSession, validateSession } = await import(
+  "./sessionService"
+);
+
+const client = { userAgent: "curl/8.0", ipAddress: "127.0.0.1" };
+
+describe("rotateSession", () => {
+  beforeEach(() => {
+    sessions = [];
+  });
+
+  test("remplace le refresh token présenté par un nouveau", async () => {
+    const { refreshToken } = await createSession("user-1", client);
+
+    const rotated = await rotateSession(refreshToken, client);
+
+    expect(rotated.refreshToken).not.toBe(refreshToken);
+    expect(rotated.refreshToken.startsWith(`${sessions[0].id}.`)).toBe(true);
+    expect(sessions[0].revokedAt).toBeNull();
+    await expect(
+      rotateSession(rotated.refreshToken, client)
+    ).resolves.toBeDefined();
+  });
+
+  test("révoque la session quand le refresh token remplacé est réutilisé", async () => {
+    const { refreshToken } = await createSession("user-1", client);
+    const rotated = await rotateSession(refreshToken, client);
+
+    await expect(rotateSession(refreshToken, client)).rejects.toThrow(
+      "Refresh token invalide"
+    );
+    expect(sessions[0].revokedAt).toBeInstanceOf(Date);
+
+    // Le refresh token légitime ne sert plus après la révocation
+    await expect(rotateSession(rotated.refreshToken, client)).rejects.toThrow(
+      "Session expirée ou révoquée"
+    );
+  });
+
+  test("refuse sans révoquer un token forgé à partir de l'ID de session", async () => {
+    const { refreshToken } = await createSession("user-1", client);
+    const forged = `${sessions[0].id}.secret-invente`;
+
+    await expect(rotateSession(forged, client)).rejects.toThrow(
+      "Refresh token invalide"
+    );
+    expect(sessions[0].revokedAt).toBeNull();
+    await expect(rotateSession(refreshToken, client)).resolves.toBeDefined();
+  });
+
+  test("refuse la session d'un utilisateur désactivé", async () => {
+    const { refreshToken } = await createSession("user-1", client);
+    sessions[0].user.active = false;
+
+    await expect(rotateSession(refreshToken, client)).rejects.toThrow(
+      "Session expirée ou révoquée"
+    );
+  });
+});
+
+describe("validateSession", () => {
+  beforeEach(() => {
+    sessions = [];
+  });
+
+  test("accepte une session active", async () => {
+    const { session } = await createSession("user-1", client);
+
+    await expect(validateSession(session.id)).resolves.toBeDefined();
+  });
+
+  test("refuse une session révoquée", async () => {
+    const { session } = await createSession("user-1", client);
+    sessions[0].revokedAt = new Date();
+
+    await expect(validateSession(session.id)).rejects.toThrow(
+      "Session expirée ou révoquée"
+    );
+  });
+
+  test("refuse la session d'un utilisateur désactivé", async () => {
+    const { session } = await createSession("user-1", client);
+    sessions[0].user.active = false;
+
+    await expect(validateSession(session.id)).rejects.toThrow(
+      "Session expirée ou révoquée"
+    );
+  });
+});
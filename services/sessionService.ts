@@ -0,0 +1,252 @@
+import * as crypto from "crypto";
+import config from "../config/config";
+import { prisma } from "../prisma/client";
+
+// Intervalle minimal entre deux mises à jour de la dernière activité
+const LAST_SEEN_INTERVAL = 60 * 1000;
+
+/**
+ * Informations sur le client à l'origine d'une session
+ */
+export type SessionClient = {
+  userAgent?: string;
+  ipAddress?: string;
+};
+
+/**
+ * Hash SHA-256 d'un refresh token, seule forme stockée en base
+ */
+const hashRefreshToken = (token: string): string => {
+  return crypto.createHash("sha256").update(token).digest("hex");
+};
+
+/**
+ * Génère un refresh token : l'ID de la session suivi d'un secret aléatoire
+ */
+const generateRefreshToken = (sessionId: string): string => {
+  return `${sessionId}.${crypto.randomBytes(32).toString("base64url")}`;
+};
+
+/**
+ * Date d'expiration d'une session créée ou renouvelée maintenant
+ */
+const getExpirationDate = (): Date => {
+  return new Date(Date.now() + config.refreshTokenTtl * 1000);
+};
+
+/**
+ * Décrit l'appareil d'une session à partir de son User-Agent
+ */
+const describeDevice = (userAgent: string | null): string => {
+  if (!userAgent) {
+    return "Appareil inconnu";
+  }
+
+  const browsers: [RegExp, string][] = [
+    [/Edg\//, "Edge"],
+    [/OPR\/|Opera/, "Opera"],
+    [/Firefox\//, "Firefox"],
+    [/Chrome\//, "Chrome"],
+    [/Safari\//, "Safari"],
+    [/curl\//, "curl"],
+  ];
+  const systems: [RegExp, string][] = [
+    [/Windows/, "Windows"],
+    [/Android/, "Android"],
+    [/iPhone|iPad/, "iOS"],
+    [/Mac OS X/, "macOS"],
+    [/Linux/, "Linux"],
+  ];
+
+  const browser = browsers.find(([pattern]) => pattern.test(userAgent))?.[1];
+  const system = systems.find(([pattern]) => pattern.test(userAgent))?.[1];
+
+  if (browser && system) {
+    return `${browser} sur ${system}`;
+  }
+
+  return browser || system || "Appareil inconnu";
+};
+
+/**
+ * Crée une session pour un utilisateur qui vient de se connecter
+ */
+export const createSession = async (userId: string, client: SessionClient) => {
+  const id = crypto.randomUUID();
+  const refreshToken = generateRefreshToken(id);
+
+  const session = await prisma.session.create({
+    data: {
+      id,
+      userId,
+      refreshTokenHash: hashRefreshToken(refreshToken),
+      userAgent: client.userAgent,
+      ipAddress: client.ipAddress,
+      expiresAt: getExpirationDate(),
+    },
+  });
+
+  return { session, refreshToken };
+};
+
+/**
+ * Renouvelle une session avec son refresh token, qui est remplacé par un
+ * nouveau. Le refresh token remplacé présenté une seconde fois signale un
+ * vol : la session est alors révoquée.
+ */
+export const rotateSession = async (
+  refreshToken: string,
+  client: SessionClient
+) => {
+  const [sessionId] = refreshToken.split(".");
+
+  const session = await prisma.session.findUnique({
+    where: { id: sessionId },
+    include: { user: true },
+  });
+
+  if (!session) {
+    throw new Error("Refresh token invalide");
+  }
+
+  if (
+    session.revokedAt ||
+    session.expiresAt < new Date() ||
+    !session.user.active
+  ) {
+    throw new Error("Session expirée ou révoquée");
+  }
+
+  const refreshTokenHash = hashRefreshToken(refreshToken);
+  const newRefreshToken = generateRefreshToken(session.id);
+
+  // La condition sur le hash rend la rotation atomique
+  const { count } = await prisma.session.updateMany({
+    where: {
+      id: session.id,
+      refreshTokenHash,
+      revokedAt: null,
+    },
+    data: {
+      refreshTokenHash: hashRefreshToken(newRefreshToken),
+      previousRefreshTokenHash: refreshTokenHash,
+      userAgent: client.userAgent,
+      ipAddress: client.ipAddress,
+      lastSeenAt: new Date(),
+      expiresAt: getExpirationDate(),
+    },
+  });
+
+  if (count === 0) {
+    // Seul le refresh token réellement remplacé révoque la session : un
+    // token quelconque préfixé par l'ID de la session est simplement refusé
+    await prisma.session.updateMany({
+      where: {
+        id: session.id,
+        previousRefreshTokenHash: refreshTokenHash,
+        revokedAt: null,
+      },
+      data: { revokedAt: new Date() },
+    });
+    throw new Error("Refresh token invalide");
+  }
+
+  return { session, user: session.user, refreshToken: newRefreshToken };
+};
+
+/**
+ * Vérifie qu'une session est toujours active, pour un utilisateur actif, et
+ * note la dernière activité
+ */
+export const validateSession = async (sessionId: string) => {
+  const session = await prisma.session.findUnique({
+    where: { id: sessionId },
+    include: { user: { select: { active: true } } },
+  });
+
+  if (
+    !session ||
+    session.revokedAt ||
+    session.expiresAt < new Date() ||
+    !session.user.active
+  ) {
+    throw new Error("Session expirée ou révoquée");
+  }
+
+  if (Date.now() - session.lastSeenAt.getTime() > LAST_SEEN_INTERVAL) {
+    await prisma.session.update({
+      where: { id: sessionId },
+      data: { lastSeenAt: new Date() },
+    });
+  }
+
+  return session;
+};
+
+/**
+ * Récupère les sessions actives d'un utilisateur, la plus récemment utilisée
+ * en premier
+ */
+export const getUserSessions = async (
+  userId: string,
+  currentSessionId?: string
+) => {
+  const sessions = await prisma.session.findMany({
+    where: {
+      userId,
+      revokedAt: null,
+      expiresAt: { gt: new Date() },
+    },
+    orderBy: { lastSeenAt: "desc" },
+  });
+
+  return sessions.map((session) => ({
+    id: session.id,
+    device: describeDevice(session.userAgent),
+    userAgent: session.userAgent,
+    ipAddress: session.ipAddress,
+    createdAt: session.createdAt,
+    lastSeenAt: session.lastSeenAt,
+    expiresAt: session.expiresAt,
+    current: session.id === currentSessionId,
+  }));
+};
+
+/**
+ * Révoque une session de l'utilisateur
+ */
+export const revokeSession = async (sessionId: string, userId: string) => {
+  const { count } = await prisma.session.updateMany({
+    where: { id: sessionId, userId, revokedAt: null },
+    data: { revokedAt: new Date() },
+  });
+
+  if (count === 0) {
+    throw new Error("Session non trouvée");
+  }
+};
+
+/**
+ * Révoque la session associée à un refresh token, s'il est valide
+ */
+export const revokeSessionByRefreshToken = async (refreshToken: string) => {
+  await prisma.session.updateMany({
+    where: {
+      refreshTokenHash: hashRefreshToken(refreshToken),
+      revokedAt: null,
+    },
+    data: { revokedAt: new Date() },
+  });
+};
+
+/**
+ * Révoque toutes les sessions de l'utilisateur
+ */
+export const revokeAllSessions = async (userId: string) => {
+  const { count } = await prisma.session.updateMany({
+    where: { userId, revokedAt: null },
+    data: { revokedAt: new Date() },
+  });
+
+  return count;
+};
@@ -8,6 +8,31 @@ export const generateInviteCode = (): string => {
   return crypto.randomBytes(6).toString("hex");
 };
 
+/**
+ * Vérifie si l'utilisateur est membre de l'équipe et renvoie son adhésion,
+ * ou lève l'erreur fournie
+ */
+export const checkTeamMembership = async (
+  teamId: string,
+  userId: string,
+  errorMessage: string
+) => {
+  const teamMember = await prisma.teamMember.findUnique({
+    where: {
+      userId_teamId: {
+        userId,
+        teamId,
+      },
+    },
+  });
+
+  if (!teamMember) {
+    throw new Error(errorMessage);
+  }
+
+  return teamMember;
+};
+
 /**
  * Crée une nouvelle équipe
  */
@@ -140,6 +165,18 @@ export const joinTeamWithInviteCode = async (
     throw new Error("Vous êtes déjà membre de cette équipe");
   }
 
+  // Vérifier la double authentification si l'équipe l'exige
+  if (team.requireTwoFactor) {
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { twoFactorEnabledAt: true },
+    });
+
+    if (!user?.twoFactorEnabledAt) {
+      throw new Error("Cette équipe exige la double authentification");
+    }
+  }
+
   // Ajouter l'utilisateur comme membre de l'équipe
   await prisma.teamMember.create({
     data: {
@@ -0,0 +1,347 @@
+import * as crypto from "crypto";
+import { prisma } from "../prisma/client";
+import { decryptSecret, encryptSecret } from "../utils/secretCipher";
+import {
+  base32Encode,
+  buildOtpauthUri,
+  generateTotpSecret,
+  verifyTotp,
+} from "../utils/totp";
+import { revokeAllSessions } from "./sessionService";
+import { verifyPassword } from "./userService";
+
+// Émetteur affiché dans les applications d'authentification
+const TOTP_ISSUER = "FlagHive";
+
+// Nombre de codes de secours générés à l'activation
+const RECOVERY_CODE_COUNT = 10;
+
+/**
+ * Génère un code de secours lisible, au format XXXXX-XXXXX
+ */
+const generateRecoveryCode = (): string => {
+  const code = base32Encode(crypto.randomBytes(7)).slice(0, 10);
+  return `${code.slice(0, 5)}-${code.slice(5)}`;
+};
+
+/**
+ * Hash SHA-256 d'un code de secours, seule forme stockée en base. Le code est
+ * normalisé : casse, espaces et tirets sont ignorés.
+ */
+const hashRecoveryCode = (code: string): string => {
+  const normalized = code.toUpperCase().replace(/[\s-]/g, "");
+  return crypto.createHash("sha256").update(normalized).digest("hex");
+};
+
+/**
+ * Remplace les codes de secours de l'utilisateur par de nouveaux codes,
+ * renvoyés en clair une seule fois
+ */
+const replaceRecoveryCodes = async (userId: string) => {
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () =>
+    generateRecoveryCode()
+  );
+
+  await prisma.$transaction([
+    prisma.recoveryCode.deleteMany({ where: { userId } }),
+    prisma.recoveryCode.createMany({
+      data: codes.map((code) => ({ userId, codeHash: hashRecoveryCode(code) })),
+    }),
+  ]);
+
+  return codes;
+};
+
+/**
+ * Récupère l'utilisateur ou lève une erreur
+ */
+const getUserOrThrow = async (userId: string) => {
+  const user = await prisma.user.findUnique({ where: { id: userId } });
+
+  if (!user) {
+    throw new Error("Utilisateur non trouvé");
+  }
+
+  return user;
+};
+
+/**
+ * Équipes de l'utilisateur qui exigent la double authentification
+ */
+const getTeamsRequiringTwoFactor = async (userId: string) => {
+  return await prisma.team.findMany({
+    where: {
+      requireTwoFactor: true,
+      members: { some: { userId } },
+    },
+    select: { id: true, name: true },
+  });
+};
+
+/**
+ * Vérifie un code TOTP. Un code déjà accepté (même période ou antérieure) est
+ * refusé : la condition sur la dernière période rend la vérification atomique.
+ */
+const verifyTotpCode = async (
+  user: { id: string; twoFactorSecret: string | null },
+  code: string
+): Promise<boolean> => {
+  if (!user.twoFactorSecret) {
+    return false;
+  }
+
+  const step = verifyTotp(decryptSecret(user.twoFactorSecret), code);
+
+  if (step === null) {
+    return false;
+  }
+
+  const { count } = await prisma.user.updateMany({
+    where: {
+      id: user.id,
+      OR: [{ twoFactorLastStep: null }, { twoFactorLastStep: { lt: step } }],
+    },
+    data: { twoFactorLastStep: step },
+  });
+
+  return count > 0;
+};
+
+/**
+ * Consomme un code de secours s'il est valide et pas encore utilisé
+ */
+const useRecoveryCode = async (
+  userId: string,
+  code: string
+): Promise<boolean> => {
+  const { count } = await prisma.recoveryCode.updateMany({
+    where: { userId, codeHash: hashRecoveryCode(code), usedAt: null },
+    data: { usedAt: new Date() },
+  });
+
+  return count > 0;
+};
+
+/**
+ * État de la double authentification de l'utilisateur
+ */
+export const getTwoFactorStatus = async (userId: string) => {
+  const user = await getUserOrThrow(userId);
+
+  const recoveryCodesRemaining = await prisma.recoveryCode.count({
+    where: { userId, usedAt: null },
+  });
+
+  return {
+    enabled: user.twoFactorEnabledAt !== null,
+    enabledAt: user.twoFactorEnabledAt,
+    recoveryCodesRemaining,
+    requiredByTeams: await getTeamsRequiringTwoFactor(userId),
+  };
+};
+
+/**
+ * Démarre l'enrôlement : génère un nouveau secret et l'URI otpauth:// à
+ * scanner. La double authentification ne sera active qu'après confirmation
+ * d'un premier code (voir enableTwoFactor).
+ */
+export const startTwoFactorSetup = async (userId: string) => {
+  const user = await getUserOrThrow(userId);
+
+  if (user.twoFactorEnabledAt) {
+    throw new Error("La double authentification est déjà activée");
+  }
+
+  const secret = generateTotpSecret();
+
+  await prisma.user.update({
+    where: { id: userId },
+    data: {
+      twoFactorSecret: encryptSecret(secret),
+      twoFactorLastStep: null,
+    },
+  });
+
+  return {
+    secret,
+    otpauthUri: buildOtpauthUri(secret, user.username, TOTP_ISSUER),
+  };
+};
+
+/**
+ * Active la double authentification après vérification d'un code de
+ * l'application, et renvoie les codes de secours
+ */
+export const enableTwoFactor = async (userId: string, code: string) => {
+  const user = await getUserOrThrow(userId);
+
+  if (user.twoFactorEnabledAt) {
+    throw new Error("La double authentification est déjà activée");
+  }
+
+  if (!user.twoFactorSecret) {
+    throw new Error("Aucun enrôlement de double authentification en cours");
+  }
+
+  if (!(await verifyTotpCode(user, code.trim()))) {
+    throw new Error("Code de vérification invalide");
+  }
+
+  await prisma.user.update({
+    where: { id: userId },
+    data: { twoFactorEnabledAt: new Date() },
+  });
+
+  return await replaceRecoveryCodes(userId);
+};
+
+/**
+ * Vérifie le second facteur d'un utilisateur : un code à 6 chiffres de
+ * l'application, ou à défaut un code de secours, qui est alors consommé
+ */
+export const verifySecondFactor = async (userId: string, code: string) => {
+  const user = await getUserOrThrow(userId);
+
+  if (!user.twoFactorEnabledAt) {
+    throw new Error("La double authentification n'est pas activée");
+  }
+
+  const trimmed = code.trim();
+  const valid = /^\d{6}$/.test(trimmed)
+    ? await verifyTotpCode(user, trimmed)
+    : await useRecoveryCode(userId, trimmed);
+
+  if (!valid) {
+    throw new Error("Code de vérification invalide");
+  }
+
+  return user;
+};
+
+/**
+ * Génère de nouveaux codes de secours, les anciens devenant inutilisables
+ */
+export const regenerateRecoveryCodes = async (userId: string, code: string) => {
+  await verifySecondFactor(userId, code);
+
+  return await replaceRecoveryCodes(userId);
+};
+
+/**
+ * Supprime le secret et les codes de secours d'un utilisateur
+ */
+const clearTwoFactor = async (userId: string) => {
+  await prisma.$transaction([
+    prisma.recoveryCode.deleteMany({ where: { userId } }),
+    prisma.user.update({
+      where: { id: userId },
+      data: {
+        twoFactorSecret: null,
+        twoFactorEnabledAt: null,
+        twoFactorLastStep: null,
+      },
+    }),
+  ]);
+};
+
+/**
+ * Désactive la double authentification, avec le mot de passe et un code. Une
+ * équipe qui l'exige empêche sa désactivation.
+ */
+export const disableTwoFactor = async (
+  userId: string,
+  password: string,
+  code: string
+) => {
+  const user = await getUserOrThrow(userId);
+
+  if (!(await verifyPassword(password, user.hashedPassword))) {
+    throw new Error("Mot de passe incorrect");
+  }
+
+  await verifySecondFactor(userId, code);
+
+  const requiredByTeams = await getTeamsRequiringTwoFactor(userId);
+
+  if (requiredByTeams.length > 0) {
+    throw new Error("Une de vos équipes exige la double authentification");
+  }
+
+  await clearTwoFactor(userId);
+};
+
+/**
+ * Réinitialisation forcée par un administrateur (appareil perdu, compte
+ * compromis) : la double authentification est désactivée et toutes les
+ * sessions de l'utilisateur sont révoquées
+ */
+export const resetTwoFactor = async (userId: string) => {
+  await getUserOrThrow(userId);
+
+  await clearTwoFactor(userId);
+
+  return { revokedSessions: await revokeAllSessions(userId) };
+};
+
+/**
+ * Indique si l'utilisateur doit activer la double authentification avant
+ * d'utiliser l'API, parce qu'une de ses équipes l'exige
+ */
+export const isTwoFactorSetupRequired = async (
+  userId: string
+): Promise<boolean> => {
+  const user = await prisma.user.findFirst({
+    where: {
+      id: userId,
+      twoFactorEnabledAt: null,
+      teams: { some: { team: { requireTwoFactor: true } } },
+    },
+    select: { id: true },
+  });
+
+  return user !== null;
+};
+
+/**
+ * Exige (ou non) la double authentification pour tous les membres d'une
+ * équipe. Réservé au propriétaire, qui doit lui-même l'avoir activée.
+ */
+export const setTeamTwoFactorRequirement = async (
+  teamId: string,
+  userId: string,
+  required: boolean
+) => {
+  const team = await prisma.team.findUnique({ where: { id: teamId } });
+
+  if (!team) {
+    throw new Error("Équipe non trouvée");
+  }
+
+  if (team.ownerId !== userId) {
+    throw new Error(
+      "Seul le propriétaire de l'équipe peut exiger la double authentification"
+    );
+  }
+
+  if (required) {
+    const owner = await getUserOrThrow(userId);
+    if (!owner.twoFactorEnabledAt) {
+      throw new Error(
+        "Activez la double authentification avant de l'exiger pour l'équipe"
+      );
+    }
+  }
+
+  const updatedTeam = await prisma.team.update({
+    where: { id: teamId },
+    data: { requireTwoFactor: required },
+    select: { id: true, name: true, requireTwoFactor: true },
+  });
+
+  // Membres qui devront activer la double authentification
+  const membersWithoutTwoFactor = await prisma.teamMember.count({
+    where: { teamId, user: { twoFactorEnabledAt: null } },
+  });
+
+  return { team: updatedTeam, membersWithoutTwoFactor };
+};
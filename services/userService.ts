@@ -4,28 +4,100 @@ import * as crypto from "crypto";
 import { prisma } from "../prisma/client";
 
 /**
- * Crée un hash du mot de passe
+ * Paramètres argon2id des nouveaux hash. Les augmenter suffit : les hash
+ * existants sont recalculés à la connexion suivante (voir needsPasswordRehash).
  */
-export const hashPassword = (password: string): string => {
-  const salt = crypto.randomBytes(16).toString("hex");
-  const hash = crypto
-    .pbkdf2Sync(password, salt, 1000, 64, "sha512")
-    .toString("hex");
-  return `${salt}:${hash}`;
+const PASSWORD_HASH_OPTIONS = {
+  algorithm: "argon2id" as const,
+  memoryCost: 65536, // 64 Mio
+  timeCost: 2,
+};
+
+// Début des hash au format courant (format PHC, qui inclut ses paramètres)
+const CURRENT_HASH_PREFIX = `$argon2id$v=19$m=${PASSWORD_HASH_OPTIONS.memoryCost},t=${PASSWORD_HASH_OPTIONS.timeCost},p=1$`;
+
+/**
+ * Indique si un hash est à l'ancien format `salt:hash` (PBKDF2-SHA512, 1000
+ * itérations), conservé le temps de la migration
+ */
+const isLegacyPasswordHash = (hashedPassword: string): boolean => {
+  return !hashedPassword.startsWith("$");
 };
 
 /**
- * Vérifie si un mot de passe correspond au hash stocké
+ * Vérifie un mot de passe contre un hash à l'ancien format, en temps constant
  */
-export const verifyPassword = (
+const verifyLegacyPassword = (
   password: string,
   hashedPassword: string
 ): boolean => {
   const [salt, storedHash] = hashedPassword.split(":");
-  const hash = crypto
-    .pbkdf2Sync(password, salt, 1000, 64, "sha512")
-    .toString("hex");
-  return storedHash === hash;
+
+  if (!salt || !storedHash) {
+    return false;
+  }
+
+  const hash = crypto.pbkdf2Sync(password, salt, 1000, 64, "sha512");
+  const expected = Buffer.from(storedHash, "hex");
+
+  return (
+    expected.length === hash.length && crypto.timingSafeEqual(expected, hash)
+  );
+};
+
+/**
+ * Crée un hash du mot de passe (argon2id, format PHC
+ * `$argon2id$v=19$m=...,t=...,p=...$<sel>$<hash>`)
+ */
+export const hashPassword = async (password: string): Promise<string> => {
+  return await Bun.password.hash(password, PASSWORD_HASH_OPTIONS);
+};
+
+/**
+ * Vérifie si un mot de passe correspond au hash stocké, au format courant ou
+ * à l'ancien format
+ */
+export const verifyPassword = async (
+  password: string,
+  hashedPassword: string
+): Promise<boolean> => {
+  if (isLegacyPasswordHash(hashedPassword)) {
+    return verifyLegacyPassword(password, hashedPassword);
+  }
+
+  try {
+    return await Bun.password.verify(password, hashedPassword);
+  } catch {
+    // Hash illisible : le mot de passe est refusé
+    return false;
+  }
+};
+
+/**
+ * Indique si un hash doit être recalculé : ancien format, autre algorithme ou
+ * paramètres différents des paramètres courants
+ */
+export const needsPasswordRehash = (hashedPassword: string): boolean => {
+  return !hashedPassword.startsWith(CURRENT_HASH_PREFIX);
+};
+
+/**
+ * Remplace le hash du mot de passe d'un utilisateur par un hash au format
+ * courant. À appeler après une vérification réussie, seul moment où le mot de
+ * passe en clair est connu.
+ */
+export const rehashPassword = async (
+  id: string,
+  password: string
+): Promise<void> => {
+  await prisma.user.update({
+    where: {
+      id,
+    },
+    data: {
+      hashedPassword: await hashPassword(password),
+    },
+  });
 };
 
 /**
@@ -37,7 +109,7 @@ export const createUser = async (
   password: string,
   role: UserRole = "USER"
 ): Promise<User> => {
-  const hashedPassword = hashPassword(password);
+  const hashedPassword = await hashPassword(password);
 
   return prisma.user.create({
     data: {
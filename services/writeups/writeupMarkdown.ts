@@ -0,0 +1,179 @@
+/**
+ * Contenu d'un writeup de challenge, après retrait des éléments exclus
+ */
+export type WriteupContent = {
+  challenge: {
+    id: string;
+    name: string;
+    description: string | null;
+    category: string | null;
+    points: number | null;
+    solved: boolean;
+    solvedAt: Date | null;
+  };
+  notes: {
+    id: string;
+    content: string;
+    createdAt: Date;
+    user: { username: string };
+  }[];
+  // Sans flag ni auteur pour une résolution synchronisée depuis la plateforme
+  flag: {
+    id: string;
+    flagValue: string | null;
+    createdAt: Date;
+    user: { username: string } | null;
+  } | null;
+  resources: {
+    id: string;
+    filename: string;
+    size: number;
+    attachment: string;
+    description: string | null;
+  }[];
+};
+
+/**
+ * Formate une date en UTC, à la minute
+ */
+const formatDate = (date: Date): string => {
+  return `${date.toISOString().slice(0, 16).replace("T", " ")} UTC`;
+};
+
+/**
+ * Entoure un texte d'un bloc de code assez long pour ne pas être interrompu
+ * par les backticks qu'il contient
+ */
+const codeBlock = (value: string): string => {
+  const longestRun = Math.max(
+    0,
+    ...(value.match(/`+/g) || []).map((run) => run.length)
+  );
+  const fence = "`".repeat(Math.max(3, longestRun + 1));
+
+  return `${fence}\n${value}\n${fence}`;
+};
+
+/**
+ * Convertit un nom en segment de chemin lisible
+ */
+export const slugify = (value: string): string => {
+  return (
+    value
+      .normalize("NFD")
+      .replace(/[\u0300-\u036f]/g, "")
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, "-")
+      .replace(/^-+|-+$/g, "") || "sans-nom"
+  );
+};
+
+/**
+ * Génère le writeup Markdown d'un challenge. Les ressources sont liées par
+ * leur chemin relatif dans l'archive.
+ */
+export const renderChallengeWriteup = (content: WriteupContent): string => {
+  const { challenge, notes, flag, resources } = content;
+  const lines: string[] = [
+    `# ${challenge.name}`,
+    "",
+    `- **Catégorie** : ${challenge.category || "Non classé"}`,
+    `- **Points** : ${challenge.points ?? "Non renseigné"}`,
+    `- **Statut** : ${
+      challenge.solved
+        ? `Résolu${challenge.solvedAt ? ` le ${formatDate(challenge.solvedAt)}` : ""}`
+        : "Non résolu"
+    }`,
+  ];
+
+  if (challenge.description) {
+    lines.push("", "## Description", "", challenge.description);
+  }
+
+  if (notes.length > 0) {
+    lines.push("", "## Notes");
+    for (const note of notes) {
+      lines.push(
+        "",
+        `### ${note.user.username} — ${formatDate(note.createdAt)}`,
+        "",
+        note.content
+      );
+    }
+  }
+
+  if (flag?.flagValue) {
+    lines.push(
+      "",
+      "## Flag",
+      "",
+      codeBlock(flag.flagValue),
+      "",
+      flag.user
+        ? `Soumis par ${flag.user.username} le ${formatDate(flag.createdAt)}.`
+        : `Soumis le ${formatDate(flag.createdAt)}.`
+    );
+  } else if (flag) {
+    lines.push(
+      "",
+      "## Flag",
+      "",
+      `Résolu sur la plateforme CTF le ${formatDate(flag.createdAt)}.`
+    );
+  }
+
+  if (resources.length > 0) {
+    lines.push("", "## Ressources", "");
+    for (const resource of resources) {
+      lines.push(
+        `- [${resource.filename}](${encodeURI(resource.attachment)})${
+          resource.description ? ` — ${resource.description}` : ""
+        }`
+      );
+    }
+  }
+
+  return `${lines.join("\n")}\n`;
+};
+
+/**
+ * Génère l'index Markdown du writeup d'un événement, par catégorie
+ */
+export const renderEventIndex = (
+  eventName: string,
+  teamName: string,
+  challenges: {
+    name: string;
+    category: string | null;
+    points: number | null;
+    solved: boolean;
+    path: string;
+  }[]
+): string => {
+  const lines: string[] = [
+    `# ${eventName}`,
+    "",
+    `Writeups de l'équipe ${teamName}.`,
+  ];
+  const categories = new Map<string, typeof challenges>();
+
+  for (const challenge of challenges) {
+    const category = challenge.category || "Non classé";
+    categories.set(category, [...(categories.get(category) || []), challenge]);
+  }
+
+  for (const [category, items] of [...categories].sort(([a], [b]) =>
+    a.localeCompare(b)
+  )) {
+    lines.push("", `## ${category}`, "");
+    for (const item of items) {
+      lines.push(
+        `- [${item.name}](${encodeURI(item.path)}) — ${item.points ?? "?"} points${
+          item.solved ? " ✅" : ""
+        }`
+      );
+    }
+  }
+
+  return `${lines.join("\n")}\n`;
+};
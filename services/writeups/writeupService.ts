@@ -0,0 +1,316 @@
+import { strToU8, zipSync } from "fflate";
+import type { Zippable } from "fflate";
+import * as fs from "fs";
+import * as path from "path";
+import config from "../../config/config";
+import { prisma } from "../../prisma/client";
+import { checkTeamMembership } from "../teams/teamService";
+import type { WriteupContent } from "./writeupMarkdown";
+import {
+  renderChallengeWriteup,
+  renderEventIndex,
+  slugify,
+} from "./writeupMarkdown";
+
+const writeupChallengeInclude = {
+  notes: {
+    include: {
+      user: { select: { username: true } },
+    },
+    orderBy: [{ createdAt: "asc" as const }, { id: "asc" as const }],
+  },
+  flagAttempts: {
+    where: { isSuccess: true },
+    include: {
+      user: { select: { username: true } },
+    },
+    orderBy: { createdAt: "asc" as const },
+    take: 1,
+  },
+  uploads: {
+    orderBy: { createdAt: "asc" as const },
+  },
+};
+
+type WriteupChallenge = NonNullable<
+  Awaited<ReturnType<typeof findWriteupChallenge>>
+>;
+
+/**
+ * Récupère un challenge avec tout ce qui compose son writeup
+ */
+const findWriteupChallenge = async (challengeId: string) => {
+  return await prisma.challenge.findUnique({
+    where: { id: challengeId },
+    include: writeupChallengeInclude,
+  });
+};
+
+/**
+ * Donne à chaque ressource un chemin unique dans le dossier attachments
+ */
+const getAttachmentNames = (uploads: WriteupChallenge["uploads"]) => {
+  const used = new Set<string>();
+
+  return new Map(
+    uploads.map((upload) => {
+      let name = path.basename(upload.filename) || "fichier";
+      for (let index = 2; used.has(name); index++) {
+        const extension = path.extname(upload.filename);
+        name = `${path.basename(upload.filename, extension)}-${index}${extension}`;
+      }
+      used.add(name);
+      return [upload.id, `attachments/${name}`];
+    })
+  );
+};
+
+/**
+ * Construit le contenu du writeup d'un challenge sans les éléments exclus
+ * (notes, tentative de flag ou ressources, désignés par leur ID).
+ *
+ * Dans une archive, les ressources sont liées à leur pièce jointe ; sinon à
+ * leur route de téléchargement.
+ */
+const buildWriteupContent = (
+  challenge: WriteupChallenge,
+  exclude: Set<string>,
+  inArchive: boolean
+): WriteupContent => {
+  const uploads = challenge.uploads.filter((upload) => !exclude.has(upload.id));
+  const attachments = inArchive
+    ? getAttachmentNames(uploads)
+    : new Map(
+        uploads.map((upload) => [
+          upload.id,
+          new URL(
+            `/api/v1/events/${challenge.eventId}/challenges/${challenge.id}/resources/${upload.id}/download`,
+            config.publicUrl
+          ).toString(),
+        ])
+      );
+  const flag = challenge.flagAttempts.find(
+    (attempt) => !exclude.has(attempt.id)
+  );
+
+  return {
+    challenge: {
+      id: challenge.id,
+      name: challenge.name,
+      description: challenge.description,
+      category: challenge.category,
+      points: challenge.points,
+      solved: challenge.solved,
+      solvedAt: challenge.solvedAt,
+    },
+    notes: challenge.notes
+      .filter((note) => !exclude.has(note.id) && note.content.trim())
+      .map((note) => ({
+        id: note.id,
+        content: note.content,
+        createdAt: note.createdAt,
+        user: note.user,
+      })),
+    flag: flag
+      ? {
+          id: flag.id,
+          flagValue: flag.flagValue,
+          createdAt: flag.createdAt,
+          user: flag.user,
+        }
+      : null,
+    resources: uploads.map((upload) => {
+      const metadata = (upload.metadata || {}) as { description?: string };
+      return {
+        id: upload.id,
+        filename: upload.filename,
+        size: upload.size,
+        attachment: attachments.get(upload.id) as string,
+        description: metadata.description || null,
+      };
+    }),
+  };
+};
+
+/**
+ * Ajoute le writeup d'un challenge et ses pièces jointes à une archive, sous
+ * le dossier indiqué
+ */
+const addChallengeToArchive = async (
+  files: Zippable,
+  directory: string,
+  content: WriteupContent,
+  uploads: WriteupChallenge["uploads"]
+) => {
+  files[`${directory}README.md`] = strToU8(renderChallengeWriteup(content));
+
+  for (const resource of content.resources) {
+    const upload = uploads.find((item) => item.id === resource.id);
+    const filePath = path.join(process.cwd(), "uploads", upload?.path || "");
+
+    // Un fichier manquant sur le disque n'empêche pas l'export
+    if (upload && fs.existsSync(filePath)) {
+      files[`${directory}${resource.attachment}`] = new Uint8Array(
+        await fs.promises.readFile(filePath)
+      );
+    }
+  }
+};
+
+/**
+ * Récupère un challenge de l'événement pour son writeup, après vérification
+ * que l'utilisateur est membre de l'équipe du challenge
+ */
+const getChallengeForWriteup = async (
+  challengeId: string,
+  eventId: string,
+  userId: string
+) => {
+  const challenge = await findWriteupChallenge(challengeId);
+
+  if (!challenge || challenge.eventId !== eventId) {
+    throw new Error("Challenge non trouvé");
+  }
+
+  await checkTeamMembership(
+    challenge.teamId,
+    userId,
+    "Non autorisé à accéder à ce challenge"
+  );
+
+  return challenge;
+};
+
+/**
+ * Génère le writeup Markdown d'un challenge, avec le détail des éléments
+ * retenus pour permettre d'en exclure avant l'export
+ */
+export const getChallengeWriteup = async (
+  challengeId: string,
+  eventId: string,
+  userId: string,
+  exclude: string[] = []
+) => {
+  const challenge = await getChallengeForWriteup(challengeId, eventId, userId);
+  const content = buildWriteupContent(challenge, new Set(exclude), false);
+
+  return {
+    filename: slugify(challenge.name),
+    content,
+    markdown: renderChallengeWriteup(content),
+  };
+};
+
+/**
+ * Génère l'archive zip du writeup d'un challenge, ressources en pièces
+ * jointes
+ */
+export const getChallengeWriteupArchive = async (
+  challengeId: string,
+  eventId: string,
+  userId: string,
+  exclude: string[] = []
+) => {
+  const challenge = await getChallengeForWriteup(challengeId, eventId, userId);
+  const files: Zippable = {};
+
+  await addChallengeToArchive(
+    files,
+    "",
+    buildWriteupContent(challenge, new Set(exclude), true),
+    challenge.uploads
+  );
+
+  return {
+    filename: slugify(challenge.name),
+    archive: zipSync(files),
+  };
+};
+
+/**
+ * Génère l'archive zip des writeups d'une équipe pour un événement : un
+ * dossier par challenge, classé par catégorie, et un index. Les challenges
+ * exclus (par leur ID) sont retirés comme les autres éléments.
+ */
+export const getEventWriteupArchive = async (
+  eventId: string,
+  teamId: string,
+  userId: string,
+  exclude: string[] = []
+) => {
+  const event = await prisma.event.findUnique({
+    where: { id: eventId },
+  });
+
+  if (!event) {
+    throw new Error("Événement non trouvé");
+  }
+
+  const eventTeam = await prisma.eventTeam.findUnique({
+    where: {
+      eventId_teamId: {
+        eventId,
+        teamId,
+      },
+    },
+    include: { team: true },
+  });
+
+  if (!eventTeam) {
+    throw new Error("Cette équipe n'est pas associée à cet événement");
+  }
+
+  await checkTeamMembership(
+    teamId,
+    userId,
+    "Non autorisé à accéder aux writeups de cette équipe"
+  );
+
+  const excluded = new Set(exclude);
+  const challenges = await prisma.challenge.findMany({
+    where: { eventId, teamId },
+    include: writeupChallengeInclude,
+    orderBy: [{ category: "asc" }, { name: "asc" }],
+  });
+
+  const files: Zippable = {};
+  const index: Parameters<typeof renderEventIndex>[2] = [];
+  const usedDirectories = new Set<string>();
+
+  for (const challenge of challenges) {
+    if (excluded.has(challenge.id)) {
+      continue;
+    }
+
+    const baseDirectory = `${slugify(challenge.category || "non-classe")}/${slugify(challenge.name)}`;
+    let directory = `${baseDirectory}/`;
+    for (let suffix = 2; usedDirectories.has(directory); suffix++) {
+      directory = `${baseDirectory}-${suffix}/`;
+    }
+    usedDirectories.add(directory);
+
+    await addChallengeToArchive(
+      files,
+      directory,
+      buildWriteupContent(challenge, excluded, true),
+      challenge.uploads
+    );
+
+    index.push({
+      name: challenge.name,
+      category: challenge.category,
+      points: challenge.points,
+      solved: challenge.solved,
+      path: `${directory}README.md`,
+    });
+  }
+
+  files["README.md"] = strToU8(
+    renderEventIndex(event.name, eventTeam.team.name, index)
+  );
+
+  return {
+    filename: `${slugify(event.name)}-${slugify(eventTeam.team.name)}`,
+    archive: zipSync(files),
+  };
+};
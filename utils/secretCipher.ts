@@ -0,0 +1,64 @@
+import * as crypto from "crypto";
+import config from "../config/config";
+
+// Préfixe identifiant la version du format chiffré
+const SECRET_PREFIX = "v1";
+const ALGORITHM = "aes-256-gcm";
+const IV_LENGTH = 12;
+
+/**
+ * Dérive une clé AES-256 à partir de la clé de chiffrement configurée
+ */
+const getKey = (): Buffer => {
+  return crypto.createHash("sha256").update(config.encryptionKey).digest();
+};
+
+/**
+ * Indique si une valeur est déjà au format chiffré
+ */
+export const isEncryptedSecret = (value: string): boolean => {
+  return value.startsWith(`${SECRET_PREFIX}:`) && value.split(":").length === 4;
+};
+
+/**
+ * Chiffre un secret avant son stockage en base
+ *
+ * Format : `v1:<iv>:<tag>:<contenu chiffré>`, chaque partie en base64.
+ */
+export const encryptSecret = (plaintext: string): string => {
+  const iv = crypto.randomBytes(IV_LENGTH);
+  const cipher = crypto.createCipheriv(ALGORITHM, getKey(), iv);
+  const encrypted = Buffer.concat([
+    cipher.update(plaintext, "utf8"),
+    cipher.final(),
+  ]);
+
+  return [
+    SECRET_PREFIX,
+    iv.toString("base64"),
+    cipher.getAuthTag().toString("base64"),
+    encrypted.toString("base64"),
+  ].join(":");
+};
+
+/**
+ * Déchiffre un secret stocké en base
+ */
+export const decryptSecret = (value: string): string => {
+  if (!isEncryptedSecret(value)) {
+    throw new Error("Secret chiffré invalide");
+  }
+
+  const [, iv, tag, encrypted] = value.split(":");
+  const decipher = crypto.createDecipheriv(
+    ALGORITHM,
+    getKey(),
+    Buffer.from(iv, "base64")
+  );
+  decipher.setAuthTag(Buffer.from(tag, "base64"));
+
+  return Buffer.concat([
+    decipher.update(Buffer.from(encrypted, "base64")),
+    decipher.final(),
+  ]).toString("utf8");
+};
@@ -0,0 +1,137 @@
+import * as crypto from "crypto";
+
+// Paramètres standard compris par les applications d'authentification
+const TOTP_PERIOD = 30;
+const TOTP_DIGITS = 6;
+const SECRET_LENGTH = 20;
+
+// Nombre de périodes acceptées avant et après la période courante
+const TOTP_WINDOW = 1;
+
+const BASE32_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
+
+/**
+ * Encode des octets en base32 (RFC 4648, sans padding)
+ */
+export const base32Encode = (buffer: Buffer): string => {
+  let bits = 0;
+  let value = 0;
+  let output = "";
+
+  for (const byte of buffer) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+
+  return output;
+};
+
+/**
+ * Décode une chaîne base32, espaces et padding ignorés
+ */
+export const base32Decode = (input: string): Buffer => {
+  const cleaned = input.toUpperCase().replace(/[\s=]/g, "");
+  const bytes: number[] = [];
+  let bits = 0;
+  let value = 0;
+
+  for (const char of cleaned) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) {
+      throw new Error("Secret base32 invalide");
+    }
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+
+  return Buffer.from(bytes);
+};
+
+/**
+ * Génère un secret TOTP aléatoire, encodé en base32
+ */
+export const generateTotpSecret = (): string => {
+  return base32Encode(crypto.randomBytes(SECRET_LENGTH));
+};
+
+/**
+ * Période TOTP correspondant à une date
+ */
+const getTimeStep = (date: Date = new Date()): number => {
+  return Math.floor(date.getTime() / 1000 / TOTP_PERIOD);
+};
+
+/**
+ * Calcule le code TOTP d'une période (HOTP, RFC 4226, avec HMAC-SHA1)
+ */
+export const generateTotp = (secret: string, step: number): string => {
+  const counter = Buffer.alloc(8);
+  counter.writeBigUInt64BE(BigInt(step));
+
+  const hmac = crypto
+    .createHmac("sha1", base32Decode(secret))
+    .update(counter)
+    .digest();
+  const offset = hmac[hmac.length - 1] & 15;
+  const binary = hmac.readUInt32BE(offset) & 0x7fffffff;
+
+  return (binary % 10 ** TOTP_DIGITS).toString().padStart(TOTP_DIGITS, "0");
+};
+
+/**
+ * Vérifie un code TOTP autour de la période courante. Renvoie la période
+ * reconnue, pour refuser la réutilisation d'un code, ou null.
+ */
+export const verifyTotp = (
+  secret: string,
+  code: string,
+  date: Date = new Date()
+): number | null => {
+  const current = getTimeStep(date);
+  const expected = Buffer.from(code);
+
+  for (let offset = -TOTP_WINDOW; offset <= TOTP_WINDOW; offset++) {
+    const candidate = Buffer.from(generateTotp(secret, current + offset));
+    if (
+      candidate.length === expected.length &&
+      crypto.timingSafeEqual(candidate, expected)
+    ) {
+      return current + offset;
+    }
+  }
+
+  return null;
+};
+
+/**
+ * Construit l'URI otpauth:// à afficher en QR code dans l'application
+ * d'authentification
+ */
+export const buildOtpauthUri = (
+  secret: string,
+  accountName: string,
+  issuer: string
+): string => {
+  const label = encodeURIComponent(`${issuer}:${accountName}`);
+  const params = new URLSearchParams({
+    secret,
+    issuer,
+    algorithm: "SHA1",
+    digits: String(TOTP_DIGITS),
+    period: String(TOTP_PERIOD),
+  });
+
+  return `otpauth://totp/${label}?${params.toString()}`;
+};
@@ -0,0 +1,50 @@
+import { z } from "zod";
+
+/**
+ * Schéma de validation pour la création d'un token d'API personnel
+ */
+export const createApiTokenSchema = z.object({
+  body: z.object({
+    name: z
+      .string()
+      .trim()
+      .min(1, "Le nom du token est requis")
+      .max(50, "Le nom du token ne peut pas dépasser 50 caractères"),
+    scopes: z
+      .array(
+        z.enum(
+          [
+            "read",
+            "flags:write",
+            "notes:write",
+            "resources:write",
+            "messages:write",
+            "challenges:write",
+          ],
+          {
+            errorMap: () => ({
+              message:
+                "Les portées doivent être read, flags:write, notes:write, resources:write, messages:write ou challenges:write",
+            }),
+          }
+        )
+      )
+      .min(1, "Au moins une portée est requise"),
+    expiresAt: z
+      .string()
+      .datetime({ message: "La date d'expiration doit être une date ISO 8601" })
+      .refine((val) => new Date(val) > new Date(), {
+        message: "La date d'expiration doit être dans le futur",
+      })
+      .optional(),
+  }),
+});
+
+/**
+ * Schéma de validation pour l'identifiant d'un token d'API
+ */
+export const apiTokenIdSchema = z.object({
+  params: z.object({
+    tokenId: z.string().uuid("L'ID du token doit être un UUID valide"),
+  }),
+});
@@ -121,3 +121,62 @@ export const changePasswordSchema = z
  * Type pour les données de changement de mot de passe validées
  */
 export type ChangePasswordInput = z.infer<typeof changePasswordSchema>;
+
+/**
+ * Schéma de validation pour l'identifiant d'une session
+ */
+export const sessionIdSchema = z.object({
+  params: z.object({
+    sessionId: z.string().uuid("L'ID de la session doit être un UUID valide"),
+  }),
+});
+
+/**
+ * Code de double authentification : 6 chiffres de l'application, ou un code
+ * de secours
+ */
+const twoFactorCode = z
+  .string()
+  .trim()
+  .min(6, "Le code de vérification est requis")
+  .max(20, "Le code de vérification ne peut pas dépasser 20 caractères");
+
+/**
+ * Schéma de validation pour la seconde étape de la connexion
+ */
+export const twoFactorLoginSchema = z.object({
+  body: z.object({
+    challengeToken: z.string().min(1, "Le challenge est requis"),
+    code: twoFactorCode,
+  }),
+});
+
+/**
+ * Schéma de validation pour une action confirmée par un code de double
+ * authentification
+ */
+export const twoFactorCodeSchema = z.object({
+  body: z.object({
+    code: twoFactorCode,
+  }),
+});
+
+/**
+ * Schéma de validation pour la désactivation de la double authentification
+ */
+export const disableTwoFactorSchema = z.object({
+  body: z.object({
+    password: z.string().min(1, "Le mot de passe est requis"),
+    code: twoFactorCode,
+  }),
+});
+
+/**
+ * Schéma de validation pour la réinitialisation de la double authentification
+ * d'un utilisateur par un administrateur
+ */
+export const resetTwoFactorSchema = z.object({
+  params: z.object({
+    userId: z.string().uuid("L'ID de l'utilisateur doit être un UUID valide"),
+  }),
+});
@@ -33,6 +33,16 @@ export const createChallengeSchema = z.object({
       .string()
       .max(255, "Le flag ne peut pas dépasser 255 caractères")
       .optional(),
+    tags: z
+      .array(
+        z
+          .string()
+          .trim()
+          .min(1, "Un tag ne peut pas être vide")
+          .max(30, "Un tag ne peut pas dépasser 30 caractères")
+      )
+      .max(20, "Un challenge ne peut pas avoir plus de 20 tags")
+      .optional(),
     teamId: z.string().uuid("L'ID de l'équipe doit être un UUID valide"),
   }),
 });
@@ -49,7 +59,7 @@ export type CreateChallengeInput = z.infer<
  */
 export const updateChallengeSchema = z.object({
   params: z.object({
-    id: z.string().uuid("L'ID du challenge doit être un UUID valide"),
+    challengeId: z.string().uuid("L'ID du challenge doit être un UUID valide"),
   }),
   body: z.object({
     name: z
@@ -67,14 +77,6 @@ export const updateChallengeSchema = z.object({
       .max(50, "La catégorie ne peut pas dépasser 50 caractères")
       .optional()
       .nullable(),
-    difficulty: z
-      .enum(["EASY", "MEDIUM", "HARD", "INSANE"], {
-        errorMap: () => ({
-          message: "La difficulté doit être EASY, MEDIUM, HARD ou INSANE",
-        }),
-      })
-      .optional()
-      .nullable(),
     points: z
       .number()
       .int("Les points doivent être un nombre entier")
@@ -86,6 +88,16 @@ export const updateChallengeSchema = z.object({
       .max(255, "Le flag ne peut pas dépasser 255 caractères")
       .optional()
       .nullable(),
+    tags: z
+      .array(
+        z
+          .string()
+          .trim()
+          .min(1, "Un tag ne peut pas être vide")
+          .max(30, "Un tag ne peut pas dépasser 30 caractères")
+      )
+      .max(20, "Un challenge ne peut pas avoir plus de 20 tags")
+      .optional(),
   }),
 });
 
@@ -96,6 +108,15 @@ export type UpdateChallengeInput = z.infer<
   typeof updateChallengeSchema
 >["body"];
 
+/**
+ * Schéma de validation pour l'import des challenges depuis CTFd
+ */
+export const importChallengesSchema = z.object({
+  body: z.object({
+    teamId: z.string().uuid("L'ID de l'équipe doit être un UUID valide"),
+  }),
+});
+
 /**
  * Schéma de validation pour la résolution d'un challenge
  */
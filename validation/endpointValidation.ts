@@ -0,0 +1,252 @@
+import { z } from "zod";
+
+/**
+ * En-têtes qu'une réponse de request catcher ne peut pas définir : servie sur
+ * l'origine de l'API, elle ne doit ni poser de cookie ni lever les
+ * protections imposées par la route
+ */
+export const FORBIDDEN_CATCHER_HEADERS = [
+  "set-cookie",
+  "set-cookie2",
+  "clear-site-data",
+  "content-security-policy",
+  "content-security-policy-report-only",
+  "x-content-type-options",
+  "service-worker-allowed",
+];
+
+/**
+ * Schéma de validation des en-têtes d'une réponse de request catcher
+ */
+const catcherHeadersSchema = z
+  .record(z.string())
+  .refine(
+    (headers) =>
+      Object.keys(headers).every((name) => /^[!#$%&'*+.^_`|~\w-]+$/.test(name)),
+    { message: "Le nom d'un en-tête est invalide" }
+  )
+  .refine(
+    (headers) => Object.values(headers).every((value) => !/[\r\n]/.test(value)),
+    { message: "La valeur d'un en-tête ne peut pas contenir de saut de ligne" }
+  )
+  .refine(
+    (headers) =>
+      Object.keys(headers).every(
+        (name) => !FORBIDDEN_CATCHER_HEADERS.includes(name.toLowerCase())
+      ),
+    {
+      message: `Les en-têtes ${FORBIDDEN_CATCHER_HEADERS.join(", ")} ne peuvent pas être définis`,
+    }
+  );
+
+/**
+ * Schéma de validation pour la réponse renvoyée par un request catcher
+ */
+const catcherResponseSchema = z.object({
+  status: z
+    .number()
+    .int("Le code de statut doit être un nombre entier")
+    .min(100, "Le code de statut doit être compris entre 100 et 599")
+    .max(599, "Le code de statut doit être compris entre 100 et 599")
+    .optional(),
+  headers: catcherHeadersSchema.optional(),
+  body: z
+    .string()
+    .max(
+      100000,
+      "Le corps de la réponse ne peut pas dépasser 100000 caractères"
+    )
+    .optional()
+    .nullable(),
+});
+
+/**
+ * Schéma de validation pour la création d'un endpoint
+ */
+export const createEndpointSchema = z.object({
+  params: z.object({
+    teamId: z.string().uuid("L'ID de l'équipe doit être un UUID valide"),
+  }),
+  body: z.object({
+    name: z
+      .string()
+      .min(1, "Le nom de l'endpoint est requis")
+      .max(100, "Le nom de l'endpoint ne peut pas dépasser 100 caractères"),
+    type: z
+      .enum(["REQUEST_CATCHER", "REVERSE_SHELL", "DNS_CATCHER"], {
+        errorMap: () => ({
+          message:
+            "Le type doit être REQUEST_CATCHER, REVERSE_SHELL ou DNS_CATCHER",
+        }),
+      })
+      .optional(),
+    expiresAt: z
+      .string()
+      .refine((val) => !isNaN(Date.parse(val)), {
+        message: "La date d'expiration doit être une date valide",
+      })
+      .optional(),
+    response: catcherResponseSchema.optional(),
+  }),
+});
+
+/**
+ * Type pour les données de création d'endpoint validées
+ */
+export type CreateEndpointInput = z.infer<typeof createEndpointSchema>["body"];
+
+/**
+ * Schéma de validation pour la mise à jour d'un endpoint
+ */
+export const updateEndpointSchema = z.object({
+  params: z.object({
+    teamId: z.string().uuid("L'ID de l'équipe doit être un UUID valide"),
+    endpointId: z.string().uuid("L'ID de l'endpoint doit être un UUID valide"),
+  }),
+  body: z.object({
+    name: z
+      .string()
+      .min(1, "Le nom de l'endpoint est requis")
+      .max(100, "Le nom de l'endpoint ne peut pas dépasser 100 caractères")
+      .optional(),
+    expiresAt: z
+      .string()
+      .refine((val) => !isNaN(Date.parse(val)), {
+        message: "La date d'expiration doit être une date valide",
+      })
+      .optional()
+      .nullable(),
+    response: catcherResponseSchema.optional(),
+  }),
+});
+
+/**
+ * Type pour les données de mise à jour d'endpoint validées
+ */
+export type UpdateEndpointInput = z.infer<typeof updateEndpointSchema>["body"];
+
+/**
+ * Schéma de validation pour l'historique paginé des requêtes capturées
+ * (HTTP ou DNS)
+ */
+export const getEndpointRequestsSchema = z.object({
+  params: z.object({
+    teamId: z.string().uuid("L'ID de l'équipe doit être un UUID valide"),
+    endpointId: z.string().uuid("L'ID de l'endpoint doit être un UUID valide"),
+  }),
+  query: z.object({
+    cursor: z.string().uuid("Le curseur doit être un UUID valide").optional(),
+    limit: z
+      .string()
+      .regex(/^\d+$/, "La limite doit être un nombre entier")
+      .refine((val) => Number(val) >= 1 && Number(val) <= 200, {
+        message: "La limite doit être comprise entre 1 et 200",
+      })
+      .optional(),
+  }),
+});
+
+/**
+ * Schéma de validation pour une règle de réponse d'un request catcher
+ */
+const endpointRuleSchema = z.object({
+  name: z
+    .string()
+    .max(100, "Le nom de la règle ne peut pas dépasser 100 caractères")
+    .optional(),
+  method: z
+    .string()
+    .regex(/^(\*|[A-Za-z]+)$/, "La méthode HTTP est invalide")
+    .optional(),
+  path: z
+    .string()
+    .startsWith("/", "Le chemin de la règle doit commencer par /")
+    .max(500, "Le chemin de la règle ne peut pas dépasser 500 caractères"),
+  status: z
+    .number()
+    .int("Le code de statut doit être un nombre entier")
+    .min(100, "Le code de statut doit être compris entre 100 et 599")
+    .max(599, "Le code de statut doit être compris entre 100 et 599")
+    .optional(),
+  headers: catcherHeadersSchema.optional(),
+  body: z
+    .string()
+    .max(
+      100000,
+      "Le corps de la réponse ne peut pas dépasser 100000 caractères"
+    )
+    .optional(),
+  redirect: z
+    .string()
+    .min(1, "L'URL de redirection ne peut pas être vide")
+    .max(2000, "L'URL de redirection ne peut pas dépasser 2000 caractères")
+    .optional(),
+});
+
+/**
+ * Schéma de validation pour la mise à jour des règles de réponse d'un endpoint
+ */
+export const updateEndpointRulesSchema = z.object({
+  params: z.object({
+    teamId: z.string().uuid("L'ID de l'équipe doit être un UUID valide"),
+    endpointId: z.string().uuid("L'ID de l'endpoint doit être un UUID valide"),
+  }),
+  body: z.object({
+    rules: z
+      .array(endpointRuleSchema)
+      .max(50, "Un endpoint ne peut pas avoir plus de 50 règles"),
+  }),
+});
+
+/**
+ * Type pour les règles de réponse validées
+ */
+export type UpdateEndpointRulesInput = z.infer<
+  typeof updateEndpointRulesSchema
+>["body"];
+
+/**
+ * Schéma de validation pour une URL cible de rejeu
+ */
+const targetUrlSchema = z
+  .string()
+  .url("L'URL cible doit être une URL valide")
+  .refine((val) => /^https?:\/\//i.test(val), {
+    message: "L'URL cible doit utiliser http ou https",
+  });
+
+/**
+ * Schéma de validation pour l'export des requêtes capturées
+ */
+export const exportRequestsSchema = z.object({
+  params: z.object({
+    teamId: z.string().uuid("L'ID de l'équipe doit être un UUID valide"),
+    endpointId: z.string().uuid("L'ID de l'endpoint doit être un UUID valide"),
+    requestId: z
+      .string()
+      .uuid("L'ID de la requête doit être un UUID valide")
+      .optional(),
+  }),
+  query: z.object({
+    format: z
+      .enum(["har", "curl"], {
+        errorMap: () => ({ message: "Le format doit être har ou curl" }),
+      })
+      .optional(),
+    targetUrl: targetUrlSchema.optional(),
+  }),
+});
+
+/**
+ * Schéma de validation pour le rejeu d'une requête capturée
+ */
+export const replayRequestSchema = z.object({
+  params: z.object({
+    teamId: z.string().uuid("L'ID de l'équipe doit être un UUID valide"),
+    endpointId: z.string().uuid("L'ID de l'endpoint doit être un UUID valide"),
+    requestId: z.string().uuid("L'ID de la requête doit être un UUID valide"),
+  }),
+  body: z.object({
+    targetUrl: targetUrlSchema,
+  }),
+});
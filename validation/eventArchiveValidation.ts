@@ -0,0 +1,137 @@
+import { z } from "zod";
+
+/**
+ * Identifiant du format des archives d'événement
+ */
+export const EVENT_ARCHIVE_FORMAT = "flaghive-event-archive";
+
+/**
+ * Version courante du format des archives d'événement. La version 2 autorise
+ * les tentatives sans flag ni auteur (résolutions synchronisées depuis la
+ * plateforme CTF).
+ */
+export const EVENT_ARCHIVE_VERSION = 2;
+
+const archiveMessageSchema = z.object({
+  id: z.string(),
+  content: z.string(),
+  userId: z.string(),
+  type: z.enum(["TEAM", "CHALLENGE", "SYSTEM"]),
+  parentId: z.string().nullable(),
+  createdAt: z.coerce.date(),
+  editedAt: z.coerce.date().nullable(),
+});
+
+const archiveNoteSchema = z.object({
+  id: z.string(),
+  content: z.string(),
+  userId: z.string(),
+  shared: z.boolean(),
+  createdAt: z.coerce.date(),
+  updatedAt: z.coerce.date(),
+  revisions: z.array(
+    z.object({
+      version: z.number().int().positive(),
+      content: z.string(),
+      userId: z.string(),
+      restoredFromVersion: z.number().int().positive().nullable(),
+      createdAt: z.coerce.date(),
+    })
+  ),
+});
+
+const archiveFlagAttemptSchema = z.object({
+  flagValue: z.string().nullable(),
+  isSuccess: z.boolean(),
+  comment: z.string().nullable(),
+  source: z.enum(["FLAGHIVE", "PLATFORM_SYNC"]),
+  verdict: z
+    .enum(["CORRECT", "INCORRECT", "ALREADY_SOLVED", "RATELIMITED", "PAUSED"])
+    .nullable(),
+  userId: z.string().nullable(),
+  createdAt: z.coerce.date(),
+});
+
+const archiveResourceSchema = z.object({
+  id: z.string(),
+  filename: z.string(),
+  mimeType: z.string(),
+  size: z.number().int().nonnegative(),
+  userId: z.string(),
+  metadata: z.record(z.unknown()).nullable(),
+  createdAt: z.coerce.date(),
+  // Chemin du fichier dans l'archive
+  file: z.string(),
+});
+
+const archiveChallengeSchema = z.object({
+  id: z.string(),
+  name: z.string().min(1),
+  description: z.string().nullable(),
+  category: z.string().nullable(),
+  points: z.number().int().nullable(),
+  flag: z.string().nullable(),
+  solved: z.boolean(),
+  solvedAt: z.coerce.date().nullable(),
+  externalId: z.string().nullable(),
+  tags: z.array(z.string()).default([]),
+  createdAt: z.coerce.date(),
+  notes: z.array(archiveNoteSchema),
+  flagAttempts: z.array(archiveFlagAttemptSchema),
+  messages: z.array(archiveMessageSchema),
+  resources: z.array(archiveResourceSchema),
+});
+
+/**
+ * Schéma du manifeste JSON d'une archive d'événement
+ */
+export const eventArchiveManifestSchema = z.object({
+  format: z.literal(EVENT_ARCHIVE_FORMAT),
+  version: z.number().int().positive(),
+  exportedAt: z.coerce.date(),
+  event: z.object({
+    name: z.string().min(1),
+    description: z.string().nullable(),
+    startDate: z.coerce.date(),
+    endDate: z.coerce.date(),
+    website: z.string().nullable(),
+    platform: z.enum(["CTFD", "RCTF"]).nullable(),
+    platformUrl: z.string().nullable(),
+    logoUrl: z.string().nullable(),
+  }),
+  // Auteurs des éléments de l'archive, retrouvés par leur nom à l'import
+  users: z.array(
+    z.object({
+      id: z.string(),
+      username: z.string(),
+    })
+  ),
+  teams: z.array(
+    z.object({
+      id: z.string(),
+      name: z.string().min(1),
+      description: z.string().nullable(),
+      challenges: z.array(archiveChallengeSchema),
+    })
+  ),
+});
+
+/**
+ * Type du manifeste d'une archive d'événement
+ */
+export type EventArchiveManifest = z.infer<typeof eventArchiveManifestSchema>;
+
+/**
+ * Schéma de validation pour l'import d'une archive d'événement
+ */
+export const importEventArchiveSchema = z.object({
+  query: z.object({
+    teamConflict: z
+      .enum(["rename", "merge"], {
+        errorMap: () => ({
+          message: "teamConflict doit valoir rename ou merge",
+        }),
+      })
+      .optional(),
+  }),
+});
@@ -4,17 +4,35 @@ import { z } from "zod";
  * Schéma de validation pour la création d'un événement
  */
 export const createEventSchema = z.object({
-  name: z.string().min(1, "Le nom est requis"),
-  description: z.string().optional(),
-  startDate: z.string().refine((val) => !isNaN(Date.parse(val)), {
-    message: "La date de début doit être une date valide",
-  }),
-  endDate: z.string().refine((val) => !isNaN(Date.parse(val)), {
-    message: "La date de fin doit être une date valide",
-  }),
-  website: z.string().url().optional(),
-  ctfdUrl: z.string().url().optional(),
-  ctfdApiKey: z.string().optional(),
+  body: z
+    .object({
+      name: z.string().min(1, "Le nom est requis"),
+      description: z.string().optional(),
+      startDate: z.string().refine((val) => !isNaN(Date.parse(val)), {
+        message: "La date de début doit être une date valide",
+      }),
+      endDate: z.string().refine((val) => !isNaN(Date.parse(val)), {
+        message: "La date de fin doit être une date valide",
+      }),
+      website: z.string().url().optional(),
+      platform: z
+        .enum(["CTFD", "RCTF"], {
+          errorMap: () => ({
+            message: "La plateforme doit être CTFD ou RCTF",
+          }),
+        })
+        .optional(),
+      platformUrl: z.string().url().optional(),
+      platformApiKey: z.string().optional(),
+    })
+    .refine(
+      (data) => !data.platform || (data.platformUrl && data.platformApiKey),
+      {
+        message:
+          "L'URL et la clé API de la plateforme sont requises avec une plateforme",
+        path: ["platformUrl"],
+      }
+    ),
 });
 
 /**
@@ -23,3 +41,24 @@ export const createEventSchema = z.object({
 export const addTeamToEventSchema = z.object({
   teamId: z.string().uuid("L'ID de l'équipe doit être un UUID valide"),
 });
+
+/**
+ * Schéma de validation pour le remplacement des identifiants d'une plateforme
+ */
+export const updatePlatformCredentialsSchema = z.object({
+  body: z.object({
+    platform: z
+      .enum(["CTFD", "RCTF"], {
+        errorMap: () => ({
+          message: "La plateforme doit être CTFD ou RCTF",
+        }),
+      })
+      .optional(),
+    platformUrl: z.string().url().optional(),
+    platformApiKey: z.string().min(1, "La clé API est requise"),
+    teamId: z
+      .string()
+      .uuid("L'ID de l'équipe doit être un UUID valide")
+      .optional(),
+  }),
+});
@@ -0,0 +1,48 @@
+import { z } from "zod";
+
+/**
+ * Schéma de validation pour la liste de la base de connaissances
+ */
+export const getKnowledgeBaseSchema = z.object({
+  query: z.object({
+    category: z
+      .string()
+      .max(50, "La catégorie ne peut pas dépasser 50 caractères")
+      .optional(),
+    tags: z.string().max(500, "La liste des tags est trop longue").optional(),
+    q: z
+      .string()
+      .max(200, "La recherche ne peut pas dépasser 200 caractères")
+      .optional(),
+    teamId: z
+      .string()
+      .uuid("L'ID de l'équipe doit être un UUID valide")
+      .optional(),
+    cursor: z.string().uuid("Le curseur doit être un UUID valide").optional(),
+    limit: z
+      .string()
+      .regex(/^\d+$/, "La limite doit être un nombre entier")
+      .refine((val) => Number(val) >= 1 && Number(val) <= 100, {
+        message: "La limite doit être comprise entre 1 et 100",
+      })
+      .optional(),
+  }),
+});
+
+/**
+ * Schéma de validation pour les suggestions de challenges similaires
+ */
+export const similarChallengesSchema = z.object({
+  params: z.object({
+    challengeId: z.string().uuid("L'ID du challenge doit être un UUID valide"),
+  }),
+  query: z.object({
+    limit: z
+      .string()
+      .regex(/^\d+$/, "La limite doit être un nombre entier")
+      .refine((val) => Number(val) >= 1 && Number(val) <= 20, {
+        message: "La limite doit être comprise entre 1 et 20",
+      })
+      .optional(),
+  }),
+});
@@ -0,0 +1,100 @@
+import { z } from "zod";
+
+/**
+ * Schéma de validation pour le contenu d'un message
+ */
+const messageContentSchema = z
+  .string()
+  .trim()
+  .min(1, "Le message ne peut pas être vide")
+  .max(4000, "Le message ne peut pas dépasser 4000 caractères");
+
+/**
+ * Schéma de validation pour l'historique paginé d'un canal
+ */
+export const getMessagesSchema = z.object({
+  query: z.object({
+    cursor: z.string().uuid("Le curseur doit être un UUID valide").optional(),
+    limit: z
+      .string()
+      .regex(/^\d+$/, "La limite doit être un nombre entier")
+      .refine((val) => Number(val) >= 1 && Number(val) <= 200, {
+        message: "La limite doit être comprise entre 1 et 200",
+      })
+      .optional(),
+  }),
+});
+
+/**
+ * Schéma de validation pour l'envoi d'un message
+ */
+export const postMessageSchema = z.object({
+  body: z.object({
+    content: messageContentSchema,
+  }),
+});
+
+/**
+ * Type pour les données d'envoi de message validées
+ */
+export type PostMessageInput = z.infer<typeof postMessageSchema>["body"];
+
+/**
+ * Schéma de validation pour la modification d'un message
+ */
+export const updateMessageSchema = z.object({
+  params: z.object({
+    messageId: z.string().uuid("L'ID du message doit être un UUID valide"),
+  }),
+  body: z.object({
+    content: messageContentSchema,
+  }),
+});
+
+/**
+ * Type pour les données de modification de message validées
+ */
+export type UpdateMessageInput = z.infer<typeof updateMessageSchema>["body"];
+
+/**
+ * Schéma de validation pour l'identifiant d'un message
+ */
+const messageIdSchema = z
+  .string()
+  .uuid("L'ID du message doit être un UUID valide");
+
+/**
+ * Schéma de validation pour les réponses paginées du fil d'un message
+ */
+export const getRepliesSchema = z.object({
+  params: z.object({
+    messageId: messageIdSchema,
+  }),
+  query: getMessagesSchema.shape.query,
+});
+
+/**
+ * Schéma de validation pour la réponse à un message
+ */
+export const replyMessageSchema = z.object({
+  params: z.object({
+    messageId: messageIdSchema,
+  }),
+  body: z.object({
+    content: messageContentSchema,
+  }),
+});
+
+/**
+ * Schéma de validation pour l'ajout ou le retrait d'une réaction
+ */
+export const reactionSchema = z.object({
+  params: z.object({
+    messageId: messageIdSchema,
+    emoji: z
+      .string()
+      .min(1, "L'emoji est requis")
+      .max(32, "L'emoji ne peut pas dépasser 32 caractères")
+      .regex(/^\S+$/, "L'emoji ne peut pas contenir d'espaces"),
+  }),
+});
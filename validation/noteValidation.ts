@@ -1,5 +1,8 @@
 import { z } from "zod";
 
+// Taille maximale du contenu d'une note, édition collaborative comprise
+export const NOTE_MAX_LENGTH = 1000;
+
 /**
  * Schéma de validation pour l'ajout d'une note
  */
@@ -8,6 +11,48 @@ export const addNoteSchema = z.object({
     content: z
       .string()
       .min(1, "Le contenu de la note est requis")
-      .max(1000, "Le contenu de la note ne peut pas dépasser 1000 caractères"),
+      .max(
+        NOTE_MAX_LENGTH,
+        `Le contenu de la note ne peut pas dépasser ${NOTE_MAX_LENGTH} caractères`
+      ),
+  }),
+});
+
+/**
+ * Schéma de validation pour un numéro de version de révision
+ */
+const revisionVersionSchema = z
+  .string()
+  .regex(/^[1-9]\d*$/, "La version doit être un nombre entier positif");
+
+/**
+ * Schéma de validation pour l'historique des révisions d'une note
+ */
+export const noteRevisionsSchema = z.object({
+  params: z.object({
+    noteId: z.string().uuid("L'ID de la note doit être un UUID valide"),
+  }),
+});
+
+/**
+ * Schéma de validation pour le diff entre deux révisions d'une note
+ */
+export const noteRevisionDiffSchema = z.object({
+  params: z.object({
+    noteId: z.string().uuid("L'ID de la note doit être un UUID valide"),
+  }),
+  query: z.object({
+    from: revisionVersionSchema,
+    to: revisionVersionSchema.optional(),
+  }),
+});
+
+/**
+ * Schéma de validation pour la restauration d'une révision d'une note
+ */
+export const restoreNoteRevisionSchema = z.object({
+  params: z.object({
+    noteId: z.string().uuid("L'ID de la note doit être un UUID valide"),
+    version: revisionVersionSchema,
   }),
 });
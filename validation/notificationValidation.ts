@@ -0,0 +1,33 @@
+import { z } from "zod";
+
+/**
+ * Schéma de validation pour la liste paginée des notifications
+ */
+export const getNotificationsSchema = z.object({
+  query: z.object({
+    unread: z
+      .enum(["true", "false"], {
+        errorMap: () => ({ message: "unread doit valoir true ou false" }),
+      })
+      .optional(),
+    cursor: z.string().uuid("Le curseur doit être un UUID valide").optional(),
+    limit: z
+      .string()
+      .regex(/^\d+$/, "La limite doit être un nombre entier")
+      .refine((val) => Number(val) >= 1 && Number(val) <= 200, {
+        message: "La limite doit être comprise entre 1 et 200",
+      })
+      .optional(),
+  }),
+});
+
+/**
+ * Schéma de validation pour l'identifiant d'une notification
+ */
+export const notificationIdSchema = z.object({
+  params: z.object({
+    notificationId: z
+      .string()
+      .uuid("L'ID de la notification doit être un UUID valide"),
+  }),
+});
@@ -0,0 +1,36 @@
+import { z } from "zod";
+
+/**
+ * Schéma de validation pour la recherche plein texte
+ */
+export const searchSchema = z.object({
+  query: z.object({
+    q: z
+      .string()
+      .trim()
+      .min(2, "La recherche doit contenir au moins 2 caractères")
+      .max(200, "La recherche ne peut pas dépasser 200 caractères"),
+    types: z
+      .string()
+      .regex(
+        /^(challenges|notes|messages|resources)(,(challenges|notes|messages|resources))*$/,
+        "types doit être une liste parmi challenges, notes, messages et resources séparés par des virgules"
+      )
+      .optional(),
+    eventId: z
+      .string()
+      .uuid("L'ID de l'événement doit être un UUID valide")
+      .optional(),
+    teamId: z
+      .string()
+      .uuid("L'ID de l'équipe doit être un UUID valide")
+      .optional(),
+    limit: z
+      .string()
+      .regex(/^\d+$/, "La limite doit être un nombre entier")
+      .refine((val) => Number(val) >= 1 && Number(val) <= 50, {
+        message: "La limite doit être comprise entre 1 et 50",
+      })
+      .optional(),
+  }),
+});
@@ -124,3 +124,17 @@ export const addTeamMemberSchema = z.object({
  * Type pour les données d'ajout de membre validées
  */
 export type AddTeamMemberInput = z.infer<typeof addTeamMemberSchema>["body"];
+
+/**
+ * Schéma de validation pour exiger la double authentification dans une équipe
+ */
+export const teamTwoFactorSchema = z.object({
+  params: z.object({
+    teamId: z.string().uuid("L'ID de l'équipe doit être un UUID valide"),
+  }),
+  body: z.object({
+    required: z.boolean({
+      errorMap: () => ({ message: "Le champ required doit être un booléen" }),
+    }),
+  }),
+});
@@ -0,0 +1,39 @@
+import { z } from "zod";
+
+/**
+ * Schéma de validation pour les éléments à exclure d'un writeup : des IDs de
+ * notes, tentatives de flag, ressources ou challenges séparés par des virgules
+ */
+const excludeSchema = z
+  .string()
+  .regex(
+    /^[0-9a-f-]{36}(,[0-9a-f-]{36})*$/i,
+    "exclude doit être une liste d'UUID séparés par des virgules"
+  )
+  .optional();
+
+/**
+ * Schéma de validation pour le writeup d'un challenge
+ */
+export const challengeWriteupSchema = z.object({
+  query: z.object({
+    format: z
+      .enum(["markdown", "json", "zip"], {
+        errorMap: () => ({
+          message: "Le format doit être markdown, json ou zip",
+        }),
+      })
+      .optional(),
+    exclude: excludeSchema,
+  }),
+});
+
+/**
+ * Schéma de validation pour l'archive des writeups d'un événement
+ */
+export const eventWriteupSchema = z.object({
+  query: z.object({
+    teamId: z.string().uuid("L'ID de l'équipe doit être un UUID valide"),
+    exclude: excludeSchema,
+  }),
+});